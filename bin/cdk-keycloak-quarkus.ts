@@ -4,45 +4,110 @@ import { writeFileSync } from "fs";
 import "source-map-support/register";
 import { CertificateStack } from "../lib/cdk-certificate-stack";
 import { KeycloakStack } from "../lib/cdk-keycloak-stack";
+import { PipelineStack } from "../lib/cdk-pipeline-stack";
 import { Common } from "../lib/common";
+import { applyCompliance } from "../lib/compliance";
+import { Preflight } from "../lib/preflight";
 
-const common = new Common();
+const main = async (): Promise<void> => {
+  const app = new App();
+  const common = new Common({ app: app });
 
-// Accident prevention
-common.verifyEnvironment();
-common.verifyCallerAccount();
-common.verifyBranch();
-common.verifyContainer();
+  // Accident prevention: `params` in 'cdk.json' is validated when `Common` is created,
+  // then AWS and local checks are awaited before any stack is constructed.
+  // Skip checks with e.g. `cdk synth -c skipPreflight=branch,containerRepository`
+  const skip = app.node.tryGetContext("skipPreflight");
+  const report = await new Preflight(common.loadConfig(), {
+    skip: skip ? String(skip).split(",") : [],
+  }).run();
+  console.error(`${common.getConsoleMessage("Preflight report")}\n${Preflight.format(report)}`);
+  if (!report.ok) {
+    throw new Error(common.getConsoleMessage("Preflight checks failed. Aborting synthesis."));
+  }
 
-// Get `env` for deploying stacks from 'cdk.json'
-const targetEnv = common.getEnvironment();
-const env = {
-  account: targetEnv.account,
-  region: targetEnv.region,
-};
+  // Download Maven providers of the container images, verified by their checksum
+  for (const container of common.loadConfig().containers) {
+    await common.fetchProviders(container.name);
+  }
 
-// Create stack name list
-const stackMap = {
-  certificateStack: common.getId("CertificateStack"),
-  keycloakStack: common.getId("KeycloakStack"),
-};
+  // Get `env` for deploying stacks from 'cdk.json'
+  const targetEnv = common.getEnvironment();
+  const env = {
+    account: targetEnv.account,
+    region: targetEnv.region,
+  };
 
-// Export stack name list to file
-writeFileSync("stack-map.json", JSON.stringify(stackMap, undefined, 2));
+  // Create stack name list
+  const dr = common.getDrParameter();
+  const stackMap = {
+    certificateStack: common.getId("CertificateStack"),
+    keycloakStack: common.getId("KeycloakStack"),
+    ...(dr.enabled
+      ? { drCertificateStack: common.getId("DrCertificateStack"), drKeycloakStack: common.getId("DrKeycloakStack") }
+      : {}),
+    ...(common.getPipelineParameter().enabled ? { pipelineStack: common.getId("PipelineStack") } : {}),
+  };
 
-// Deploy stacks
-const app = new App();
-const certificateStack = new CertificateStack(app, stackMap.certificateStack, {
-  env: env,
-  terminationProtection: common.isProductionOrStaging(),
-});
-const keycloakStack = new KeycloakStack(app, stackMap.keycloakStack, {
-  env: env,
-  terminationProtection: common.isProductionOrStaging(),
-});
+  // Export stack name list to file
+  writeFileSync("stack-map.json", JSON.stringify(stackMap, undefined, 2));
+
+  // Export effective configuration (defaults merged with `overrides`) to file for review
+  writeFileSync("effective-config.json", JSON.stringify(common.getEffectiveConfig(), undefined, 2));
+
+  // Deploy stacks
+  const certificateStack = new CertificateStack(app, stackMap.certificateStack, {
+    env: env,
+    terminationProtection: common.isProductionOrStaging(),
+  });
+  const keycloakStack = new KeycloakStack(app, stackMap.keycloakStack, {
+    env: env,
+    terminationProtection: common.isProductionOrStaging(),
+  });
 
-// Dependencies for parameter passing via SSM parameter store
-keycloakStack.addDependency(certificateStack);
+  // Dependencies for parameter passing via SSM parameter store
+  keycloakStack.addDependency(certificateStack);
 
-// Tagging all resources
-common.addTags(app);
+  // Standby stacks in the DR region, deployed after the primary stack creating the Global Database and replicating
+  // the image and the database credential
+  if (stackMap.drCertificateStack && stackMap.drKeycloakStack) {
+    const drEnv = { account: targetEnv.account, region: dr.region };
+    const drCertificateStack = new CertificateStack(app, stackMap.drCertificateStack, {
+      env: drEnv,
+      terminationProtection: common.isProductionOrStaging(),
+    });
+    const drKeycloakStack = new KeycloakStack(app, stackMap.drKeycloakStack, {
+      env: drEnv,
+      terminationProtection: common.isProductionOrStaging(),
+      standby: true,
+    });
+    drKeycloakStack.addDependency(drCertificateStack);
+    drKeycloakStack.addDependency(keycloakStack);
+  }
+
+  // Pipeline deploying the stacks above to every environment in `params.pipeline`, not a dependency of them
+  if (stackMap.pipelineStack) {
+    new PipelineStack(app, stackMap.pipelineStack, {
+      env: env,
+      terminationProtection: common.isProductionOrStaging(),
+      cdkJsonPath: "cdk.json",
+    });
+  }
+
+  // Tagging all resources
+  common.addTags(app);
+
+  // Compliance checks of every stack when synthesized, suppressions are declared next to the resources
+  const compliance = common.getComplianceParameter();
+  if (compliance.enabled) {
+    applyCompliance(app, {
+      packs: compliance.packs,
+      failOnError: compliance.failOnError,
+      reports: compliance.reports,
+    });
+  }
+};
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
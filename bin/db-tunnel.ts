@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+import { spawn } from "child_process";
+import { readFileSync } from "fs";
+import "source-map-support/register";
+import { serviceName } from "../lib/cdk-keycloak-stack";
+import { Common } from "../lib/common";
+import { DbTunnel } from "../lib/db-tunnel";
+
+// Open a local port forwarded to the database of the target environment in 'cdk.json', e.g.
+// `npx ts-node bin/db-tunnel.ts --via ecs --local-port 13306`
+// Requires the AWS CLI with the Session Manager plugin and credentials of the target account.
+const main = async (): Promise<void> => {
+  const options = DbTunnel.parseArgs(process.argv.slice(2));
+
+  // `params` of 'cdk.json', which the CDK CLI would pass in the context
+  const common = new Common({ params: JSON.parse(readFileSync("cdk.json").toString()).context.params });
+
+  // Names of the deployed resources
+  const targetEnv = common.getEnvironment();
+  const existingDatabase = targetEnv.existingDatabase;
+  const tunnel = await new DbTunnel({
+    region: targetEnv.region,
+    clusterName: common.getResourceName(`${serviceName}-cluster`),
+    serviceName: common.getResourceName(`${serviceName}-service`),
+    containerName: serviceName,
+    bastionName: common.getResourceName(`${serviceName}-bastion`),
+    dbClusterIdentifier: common.getResourceName(`${serviceName}-db-cluster`),
+    dbSecretName: common.getResourceName(`${serviceName}-db-secret`),
+    existingDatabase: existingDatabase && {
+      hostname: existingDatabase.hostname,
+      port: existingDatabase.port ?? common.getDatabaseParameter().port,
+      secretArn: existingDatabase.secretArn,
+    },
+  }).resolve(options);
+
+  console.error(
+    common.getConsoleMessage(
+      `Forwarding localhost:${tunnel.localPort} to ${tunnel.host}:${tunnel.port} through ${tunnel.target}. ` +
+        `Credentials: aws secretsmanager get-secret-value --region ${targetEnv.region} --secret-id ${tunnel.secretId}`
+    )
+  );
+
+  // Hand the terminal over to the session until it is closed with Ctrl-C
+  const session = spawn("aws", DbTunnel.startSessionArgs(tunnel, targetEnv.region), { stdio: "inherit" });
+  process.on("SIGINT", () => session.kill("SIGINT"));
+  await new Promise<void>((resolve, reject) => {
+    session.on("error", reject);
+    session.on("exit", (code) => (code ? reject(new Error(`aws ssm start-session exited with ${code}`)) : resolve()));
+  });
+};
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
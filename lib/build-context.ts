@@ -0,0 +1,194 @@
+import { createHash } from "crypto";
+import {
+  copyFileSync,
+  cpSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import * as https from "https";
+import { basename, join } from "path";
+import type { IContainerParameter, IProviderParameter } from "./config";
+import { templateOutputName } from "./template";
+
+// Maven repository used when `repository` is omitted
+export const mavenCentral = "https://repo1.maven.org/maven2";
+
+// Directory the build contexts are assembled in, one per container image
+export const buildDirectory = ".build";
+
+// Directory Maven artifacts are cached in, keyed by their SHA-256
+export const providerCacheDirectory = join(buildDirectory, "cache", "providers");
+
+// Downloads a file, injectable for tests
+export type Download = (url: string) => Promise<Buffer>;
+
+// Default download with Node.js `https`, following redirects
+export const httpsDownload: Download = (url) =>
+  new Promise((resolve, reject) => {
+    https
+      .get(url, (res) => {
+        if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+          res.resume();
+          resolve(httpsDownload(new URL(res.headers.location, url).toString()));
+          return;
+        }
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`GET ${url} failed with status ${res.statusCode}`));
+          return;
+        }
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => resolve(Buffer.concat(chunks)));
+      })
+      .on("error", reject);
+  });
+
+const sha256 = (data: Buffer): string => createHash("sha256").update(data).digest("hex");
+
+// URL of a Maven artifact
+export function mavenUrl(provider: IProviderParameter): string {
+  const [groupId, artifactId, version] = provider.maven!.split(":");
+  return `${provider.repository ?? mavenCentral}/${groupId.replace(
+    /\./g,
+    "/"
+  )}/${artifactId}/${version}/${artifactId}-${version}.jar`;
+}
+
+// File name of a provider in `/opt/keycloak/providers`
+export function providerFileName(provider: IProviderParameter): string {
+  if (provider.maven) {
+    const [, artifactId, version] = provider.maven.split(":");
+    return `${artifactId}-${version}.jar`;
+  }
+  return basename(provider.path!);
+}
+
+// Check the combination of theme and provider settings of a container, returns "<path>: <problem>" for each issue
+export function validateContainerAssets(container: Partial<IContainerParameter> | undefined, path: string): string[] {
+  const issues: string[] = [];
+  const themes = Array.isArray(container?.themes) ? container!.themes : [];
+  const themeNames = new Set<string>();
+  themes.forEach((theme, index) => {
+    const name = typeof theme === "string" ? basename(theme) : undefined;
+    if (name && themeNames.has(name)) {
+      issues.push(`${path}.themes[${index}]: duplicate theme name '${name}'`);
+    }
+    if (name) themeNames.add(name);
+  });
+  const providers = Array.isArray(container?.providers) ? container!.providers : [];
+  const fileNames = new Set<string>();
+  providers.forEach((provider, index) => {
+    const providerPath = `${path}.providers[${index}]`;
+    if (typeof provider !== "object" || provider === null) {
+      return;
+    }
+    if ((provider.path === undefined) === (provider.maven === undefined)) {
+      issues.push(`${providerPath}: exactly one of 'path' and 'maven' required`);
+      return;
+    }
+    if (provider.maven !== undefined && provider.sha256 === undefined) {
+      issues.push(`${providerPath}.sha256: required for Maven artifacts`);
+    }
+    if (provider.path !== undefined && provider.repository !== undefined) {
+      issues.push(`${providerPath}.repository: only allowed with 'maven'`);
+    }
+    if (typeof provider.path === "string" || typeof provider.maven === "string") {
+      const name = providerFileName(provider);
+      if (fileNames.has(name)) {
+        issues.push(`${providerPath}: duplicate provider file name '${name}'`);
+      }
+      fileNames.add(name);
+    }
+  });
+  return issues;
+}
+
+// Check that themes and local providers exist on disk and match their checksum, returns a problem for each issue
+export function verifyContainerAssets(container: IContainerParameter): string[] {
+  const issues: string[] = [];
+  (container.themes ?? []).forEach((theme) => {
+    if (!existsSync(theme) || !statSync(theme).isDirectory()) {
+      issues.push(`theme directory '${theme}' not found`);
+    }
+  });
+  (container.providers ?? [])
+    .filter((provider) => provider.path)
+    .forEach((provider) => {
+      if (!existsSync(provider.path!) || !statSync(provider.path!).isFile()) {
+        issues.push(`provider '${provider.path}' not found`);
+      } else if (provider.sha256 && sha256(readFileSync(provider.path!)) !== provider.sha256) {
+        issues.push(`provider '${provider.path}' does not match its sha256`);
+      }
+    });
+  return issues;
+}
+
+// Download Maven providers not cached yet, verifying their checksum
+export async function fetchProviders(
+  container: IContainerParameter,
+  download: Download = httpsDownload,
+  cacheDirectory = providerCacheDirectory
+): Promise<void> {
+  for (const provider of (container.providers ?? []).filter((obj) => obj.maven)) {
+    const cached = join(cacheDirectory, `${provider.sha256}.jar`);
+    if (existsSync(cached)) {
+      continue;
+    }
+    const url = mavenUrl(provider);
+    const data = await download(url);
+    const actual = sha256(data);
+    if (actual !== provider.sha256) {
+      throw new Error(`Checksum of '${url}' is ${actual}, expected ${provider.sha256}`);
+    }
+    mkdirSync(cacheDirectory, { recursive: true });
+    writeFileSync(cached, data);
+  }
+}
+
+// Assemble the image build context from scratch: image directory without templates, `themes/` and `providers/`.
+// The same configuration always results in the same file names and contents.
+export function assembleBuildContext(
+  container: IContainerParameter,
+  outDirectory = join(buildDirectory, container.name),
+  cacheDirectory = providerCacheDirectory
+): string {
+  const issues = verifyContainerAssets(container);
+  if (issues.length) {
+    throw new Error(`Build context of '${container.name}' not valid:\n${issues.map((obj) => `  ${obj}`).join("\n")}`);
+  }
+  rmSync(outDirectory, { recursive: true, force: true });
+  mkdirSync(outDirectory, { recursive: true });
+
+  // Image directory, templates are rendered into the build context afterwards
+  readdirSync(container.imagePath)
+    .filter((name) => !templateOutputName(name))
+    .sort()
+    .forEach((name) => cpSync(join(container.imagePath, name), join(outDirectory, name), { recursive: true }));
+
+  // Themes and providers, copied by the conditional blocks `@if THEMES` and `@if PROVIDERS` of the template
+  const themesDirectory = join(outDirectory, "themes");
+  const providersDirectory = join(outDirectory, "providers");
+  if (container.themes?.length) {
+    mkdirSync(themesDirectory);
+  }
+  if (container.providers?.length) {
+    mkdirSync(providersDirectory);
+  }
+  (container.themes ?? []).forEach((theme) => {
+    cpSync(theme, join(themesDirectory, basename(theme)), { recursive: true });
+  });
+  (container.providers ?? []).forEach((provider) => {
+    const source = provider.maven ? join(cacheDirectory, `${provider.sha256}.jar`) : provider.path!;
+    if (!existsSync(source)) {
+      throw new Error(`Provider '${provider.maven}' not downloaded to '${cacheDirectory}'`);
+    }
+    copyFileSync(source, join(providersDirectory, providerFileName(provider)));
+  });
+  return outDirectory;
+}
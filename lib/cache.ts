@@ -0,0 +1,479 @@
+import type { ConfigSchema } from "./config";
+
+/**
+ * Types
+ */
+
+// Clustering modes of the Keycloak Infinispan caches
+export const cacheModes = ["jdbc-ping", "dns-ping", "remote"] as const;
+
+export type CacheMode = (typeof cacheModes)[number];
+
+// Infinispan cache types, rendered as `<type>-cache`
+export const cacheTypes = ["local", "distributed", "replicated"] as const;
+
+export type CacheType = (typeof cacheTypes)[number];
+
+// `params.cache`: how the Keycloak tasks form their Infinispan cluster, `jdbc-ping` when omitted.
+// `params.environments[].cache` is deep-merged over it for the environment.
+export interface ICacheParameter {
+  // `jdbc-ping`: JGroups JDBC_PING, the tasks find each other through a table of the Keycloak database
+  // `dns-ping`: JGroups DNS_PING, the tasks find each other through the A records of the ECS service in Cloud Map
+  // `remote`: as `jdbc-ping`, the caches with `remoteStore` are also kept in an external Infinispan server (`remote`)
+  mode: CacheMode;
+  // Owners of each entry of the distributed caches, 2 when omitted. `caches.<name>.owners` takes precedence.
+  owners?: ICacheOwnersParameter;
+  // Infinispan server of the `remote` mode
+  remote?: IRemoteCacheParameter;
+  // Timeout of cluster-wide locks in milliseconds, 60000 when omitted
+  lockTimeout?: number;
+  // Table JDBC_PING writes the members to, `JGROUPSPING` when omitted
+  jdbcPingTableName?: string;
+  // Settings by cache name, merged over the caches Keycloak expects in the schema version. Other names add caches.
+  caches?: { [name: string]: ICacheDefinition };
+}
+
+// `params.cache.owners`: copies of each session kept in the cluster
+export interface ICacheOwnersParameter {
+  sessions?: number;
+  authenticationSessions?: number;
+}
+
+// `params.cache.remote`: Infinispan server reached over Hot Rod, e.g. a Data Grid cluster in the same VPC
+export interface IRemoteCacheParameter {
+  host: string;
+  // 11222 when omitted
+  port?: number;
+  // TLS to the server, true when omitted
+  tls?: boolean;
+  // Secrets Manager secret holding `username` and `password`, unauthenticated when omitted
+  secretArn?: string;
+  // Security group of the server allowed to be reached from ECS, not wired when omitted
+  securityGroupId?: string;
+}
+
+// `params.cache.caches.<name>`: one cache of the `keycloak` cache container. Durations are in milliseconds.
+export interface ICacheDefinition {
+  type?: CacheType;
+  // Copies of each entry, `distributed` only
+  owners?: number;
+  // Entries kept in memory, -1 for no limit
+  maxCount?: number;
+  // -1 for no expiration
+  lifespan?: number;
+  maxIdle?: number;
+  // Interval of the expiration reaper
+  expirationInterval?: number;
+  // Keys and values kept as Java objects instead of being marshalled
+  objectEncoding?: boolean;
+  // Also kept in the Infinispan server of the `remote` mode, not `local`
+  remoteStore?: boolean;
+}
+
+// Caches of the `keycloak` cache container by name
+export type ICacheDefinitions = { [name: string]: ICacheDefinition & { type: CacheType } };
+
+// Cache types each setting is defined for
+type ICacheSettingTypes = { [key in keyof ICacheDefinition]-?: readonly CacheType[] };
+
+// Infinispan schema of the Keycloak versions shipping it
+interface IInfinispanSchema {
+  version: string;
+  // First and last Keycloak major version
+  keycloak: [number, number];
+  settings: ICacheSettingTypes;
+  // Caches Keycloak expects in the `keycloak` cache container
+  caches: ICacheDefinitions;
+  // `marshaller` of the remote stores, none when Keycloak marshals with ProtoStream
+  remoteStoreMarshaller?: string;
+}
+
+// Settings the cache configuration is rendered from
+export interface ICacheConfigOptions {
+  // Infinispan schema version of the Keycloak version, see `infinispanSchemaVersion()`
+  schemaVersion: string;
+  lockTimeout: number;
+  // JGroups discovery protocol replacing MPING in the `tcp` stack
+  discovery:
+    | { protocol: "JDBC_PING"; driver: string; tableName: string; dataType: string }
+    | { protocol: "DNS_PING"; query: string };
+  caches: ICacheDefinitions;
+  // Infinispan server of the caches with `remoteStore`
+  remote?: { host: string; port: number; tls: boolean; authentication: boolean };
+  // Statistics of the caches, exposed on `/metrics` as `vendor_statistics_*` with the cache name in the `cache` tag
+  statistics?: boolean;
+}
+
+// JGroups ports of the `tcp` stack every mode extends: the transport and FD_SOCK2 failure detection (transport + 50000)
+export const jgroupsPorts = [
+  { port: 7800, description: "jgroups-tcp" },
+  { port: 57800, description: "jgroups-tcp-fd" },
+] as const;
+
+// Table JDBC_PING creates by default
+export const defaultJdbcPingTableName = "JGROUPSPING";
+
+// Hot Rod port of Infinispan servers
+export const defaultRemoteCachePort = 11222;
+
+// Cache configuration file generated into the build context
+export const cacheConfigFile = "cache-ispn.xml";
+
+// Caches Keycloak 19 to 24 expect in the `keycloak` cache container
+const keycloakCaches: ICacheDefinitions = {
+  realms: { type: "local", objectEncoding: true, maxCount: 10000 },
+  users: { type: "local", objectEncoding: true, maxCount: 10000 },
+  sessions: { type: "distributed", owners: 2, lifespan: -1, remoteStore: true },
+  authenticationSessions: { type: "distributed", owners: 2, lifespan: -1 },
+  offlineSessions: { type: "distributed", owners: 2, lifespan: -1, remoteStore: true },
+  clientSessions: { type: "distributed", owners: 2, lifespan: -1, remoteStore: true },
+  offlineClientSessions: { type: "distributed", owners: 2, lifespan: -1, remoteStore: true },
+  loginFailures: { type: "distributed", owners: 2, lifespan: -1, remoteStore: true },
+  authorization: { type: "local", objectEncoding: true, maxCount: 10000 },
+  work: { type: "replicated", lifespan: -1, remoteStore: true },
+  keys: { type: "local", objectEncoding: true, maxIdle: 3600000, maxCount: 1000 },
+  actionTokens: {
+    type: "distributed",
+    owners: 2,
+    objectEncoding: true,
+    maxIdle: -1,
+    lifespan: -1,
+    expirationInterval: 300000,
+    maxCount: -1,
+    remoteStore: true,
+  },
+};
+
+// Cache types each setting of Keycloak 19 to 24 is defined for
+const keycloakCacheSettings: ICacheSettingTypes = {
+  type: cacheTypes,
+  owners: ["distributed"],
+  maxCount: cacheTypes,
+  lifespan: cacheTypes,
+  maxIdle: cacheTypes,
+  expirationInterval: cacheTypes,
+  objectEncoding: cacheTypes,
+  remoteStore: ["distributed", "replicated"],
+};
+
+// Caches with a setting left out of the ones named, of every cache when no names are given
+const withoutSetting = (caches: ICacheDefinitions, key: keyof ICacheDefinition, names?: string[]): ICacheDefinitions =>
+  Object.fromEntries(
+    Object.entries(caches).map(([name, definition]) => [
+      name,
+      names && !names.includes(name)
+        ? definition
+        : (Object.fromEntries(Object.entries(definition).filter(([setting]) => setting !== key)) as typeof definition),
+    ])
+  );
+
+// Infinispan schema versions by the range of Keycloak major versions shipping them, with the settings the schema
+// defines for Keycloak, the caches Keycloak expects and the marshaller of the `<remote-store>` elements
+const infinispanSchemas: IInfinispanSchema[] = [
+  {
+    // Keycloak 17 and 18 keep the sessions in the cluster only, without `<persistence>` elements
+    version: "13.0",
+    keycloak: [17, 18],
+    settings: { ...keycloakCacheSettings, remoteStore: [] },
+    caches: withoutSetting(keycloakCaches, "remoteStore"),
+  },
+  {
+    version: "14.0",
+    keycloak: [19, 24],
+    settings: keycloakCacheSettings,
+    caches: keycloakCaches,
+    remoteStoreMarshaller: "org.keycloak.cluster.infinispan.KeycloakHotRodMarshallerFactory",
+  },
+  {
+    // Keycloak 25 and later marshal with ProtoStream: `<encoding>` of Java objects is left to the local caches, and the
+    // `crl` cache is added
+    version: "15.0",
+    keycloak: [25, 26],
+    settings: { ...keycloakCacheSettings, objectEncoding: ["local"] },
+    caches: {
+      ...withoutSetting(keycloakCaches, "objectEncoding", ["actionTokens"]),
+      crl: { type: "local", objectEncoding: true, lifespan: -1, maxCount: 1000 },
+    },
+  },
+];
+
+/**
+ * Schema definition
+ */
+
+// Durations and counts accept -1 for no limit
+const limit = (): ConfigSchema => ({ type: "number", integer: true, min: -1 });
+
+export const cacheDefinitionSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: cacheTypes },
+    owners: { type: "number", integer: true, min: 1 },
+    maxCount: limit(),
+    lifespan: limit(),
+    maxIdle: limit(),
+    expirationInterval: limit(),
+    objectEncoding: { type: "boolean" },
+    remoteStore: { type: "boolean" },
+  },
+  optional: [
+    "type",
+    "owners",
+    "maxCount",
+    "lifespan",
+    "maxIdle",
+    "expirationInterval",
+    "objectEncoding",
+    "remoteStore",
+  ],
+};
+
+export const cacheSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    mode: { type: "string", enum: cacheModes },
+    owners: {
+      type: "object",
+      properties: {
+        sessions: { type: "number", integer: true, min: 1 },
+        authenticationSessions: { type: "number", integer: true, min: 1 },
+      },
+      optional: ["sessions", "authenticationSessions"],
+    },
+    remote: {
+      type: "object",
+      properties: {
+        host: { type: "string", pattern: /^[A-Za-z0-9.-]+$/ },
+        port: { type: "number", integer: true, min: 1, max: 65535 },
+        tls: { type: "boolean" },
+        secretArn: {
+          type: "string",
+          pattern: /^arn:aws[\w-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:.+-[A-Za-z0-9]{6}$/,
+        },
+        securityGroupId: { type: "string", pattern: /^sg-[0-9a-f]+$/ },
+      },
+      optional: ["port", "tls", "secretArn", "securityGroupId"],
+    },
+    lockTimeout: { type: "number", integer: true, min: 1 },
+    jdbcPingTableName: { type: "string", pattern: /^[A-Za-z_][A-Za-z0-9_]{0,63}$/ },
+    caches: { type: "map", values: cacheDefinitionSchema },
+  },
+  optional: ["owners", "remote", "lockTimeout", "jdbcPingTableName", "caches"],
+};
+
+/**
+ * Functions
+ */
+
+// Infinispan schema version of a Keycloak version, e.g. `14.0` for `21.0.2`. Undefined for unknown versions.
+export function infinispanSchemaVersion(keycloakVersion: string): string | undefined {
+  const major = Number(keycloakVersion.split(".")[0]);
+  return infinispanSchemas.find((schema) => schema.keycloak[0] <= major && major <= schema.keycloak[1])?.version;
+}
+
+// Schema of a version returned by `infinispanSchemaVersion()`
+const schemaOf = (schemaVersion: string): IInfinispanSchema => {
+  const ret = infinispanSchemas.find((schema) => schema.version === schemaVersion);
+  if (!ret) {
+    throw new Error(`Unknown Infinispan schema '${schemaVersion}'`);
+  }
+  return ret;
+};
+
+// Check that the Infinispan schema of a Keycloak version is known, returns "<path>: <problem>" for each issue
+export function validateKeycloakVersion(keycloakVersion: string, path: string): string[] {
+  if (infinispanSchemaVersion(keycloakVersion)) {
+    return [];
+  }
+  const [first, last] = [infinispanSchemas[0].keycloak[0], infinispanSchemas[infinispanSchemas.length - 1].keycloak[1]];
+  return [`${path}: Keycloak '${keycloakVersion}' has no known Infinispan schema, supported are ${first} to ${last}`];
+}
+
+// Caches of the configuration: the caches Keycloak expects in the schema version with `owners` and `caches` applied
+export function resolveCaches(cache: ICacheParameter | undefined, schemaVersion: string): ICacheDefinitions {
+  const ret: ICacheDefinitions = {};
+  Object.entries(schemaOf(schemaVersion).caches).forEach(([name, definition]) => {
+    const owners = cache?.owners?.[name as keyof ICacheOwnersParameter];
+    ret[name] = { ...definition, ...(owners !== undefined ? { owners: owners } : {}) };
+  });
+  Object.entries(cache?.caches ?? {}).forEach(([name, definition]) => {
+    const type = definition.type ?? ret[name]?.type ?? "local";
+    // Settings of another cache type do not apply when the type changes
+    const base = ret[name]?.type === type ? ret[name] : { type: type };
+    ret[name] = { ...base, ...definition, type: type };
+  });
+  return ret;
+}
+
+// Check that the Infinispan server is given with the `remote` mode only and that every cache setting is defined for
+// its cache type in each schema version, returns "<path>: <problem>" for each issue
+export function validateCache(cache: ICacheParameter | undefined, path: string, schemaVersions: string[]): string[] {
+  const issues: string[] = [];
+  if (cache?.mode === "remote" && cache.remote === undefined) {
+    issues.push(`${path}.remote: required with mode 'remote'`);
+  }
+  if (cache?.mode !== undefined && cache.mode !== "remote" && cache.remote !== undefined) {
+    issues.push(`${path}.remote: not allowed with mode '${cache.mode}'`);
+  }
+  new Set(schemaVersions).forEach((schemaVersion) => {
+    const settings = schemaOf(schemaVersion).settings;
+    if (cache?.mode === "remote" && !settings.remoteStore.length) {
+      issues.push(`${path}.mode: 'remote' not defined in schema ${schemaVersion}, which has no remote stores`);
+    }
+    const caches = resolveCaches(cache, schemaVersion);
+    Object.entries(cache?.caches ?? {}).forEach(([name, definition]) => {
+      const type = caches[name].type;
+      (Object.keys(definition) as (keyof ICacheDefinition)[])
+        .filter((key) => key in settings && definition[key] !== undefined)
+        .filter((key) => !settings[key].includes(type))
+        .forEach((key) =>
+          issues.push(`${path}.caches.${name}.${key}: not defined for '${type}' caches in schema ${schemaVersion}`)
+        );
+    });
+  });
+  return issues;
+}
+
+// XML attributes with their values escaped, each preceded by `separator`. Undefined values are left out.
+const attributes = (values: { [name: string]: string | number | boolean | undefined }, separator = " "): string =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        `${separator}${name}="${String(value).replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")}"`
+    )
+    .join("");
+
+// Empty element with one attribute per line, aligned after the element name at `indent`
+const multilineElement = (name: string, values: Parameters<typeof attributes>[0], indent: number): string =>
+  `<${name}${attributes(values, `\n${" ".repeat(indent + name.length + 2)}`).replace(/^\s+/, " ")} />`;
+
+// Remote store of a cache, credentials are read from the environment of the container
+const renderRemoteStore = (name: string, options: ICacheConfigOptions): string[] => {
+  const remote = options.remote!;
+  const security = [
+    ...(remote.authentication
+      ? [
+          `    <authentication server-name="infinispan">`,
+          `        <digest username="\${env.KC_REMOTE_CACHE_USERNAME}" password="\${env.KC_REMOTE_CACHE_PASSWORD}" realm="default"/>`,
+          `    </authentication>`,
+        ]
+      : []),
+    ...(remote.tls ? [`    <encryption${attributes({ "sni-hostname": remote.host })}/>`] : []),
+  ];
+  return [
+    `<persistence passivation="false">`,
+    `    <remote-store xmlns="urn:infinispan:config:store:remote:${options.schemaVersion}"` +
+      attributes({
+        cache: name,
+        "raw-values": true,
+        shared: true,
+        segmented: false,
+        marshaller: schemaOf(options.schemaVersion).remoteStoreMarshaller,
+      }) +
+      ">",
+    `        <remote-server${attributes({ host: remote.host, port: remote.port })}/>`,
+    ...(security.length
+      ? ["        <security>", ...security.map((line) => `        ${line}`), "        </security>"]
+      : []),
+    `    </remote-store>`,
+    `</persistence>`,
+  ];
+};
+
+// Infinispan configuration of the `keycloak` cache container: the `tcp` stack with the discovery protocol, and the
+// caches in the order of `caches`
+export function renderCacheConfig(options: ICacheConfigOptions): string {
+  const discovery = options.discovery;
+  const stackName = discovery.protocol === "JDBC_PING" ? "jdbc-ping-tcp" : "dns-ping-tcp";
+  const protocol =
+    discovery.protocol === "JDBC_PING"
+      ? multilineElement(
+          "JDBC_PING",
+          {
+            connection_driver: discovery.driver,
+            connection_username: "${env.KC_DB_USERNAME}",
+            connection_password: "${env.KC_DB_PASSWORD}",
+            connection_url: "${env.KC_DB_URL}",
+            info_writer_sleep_time: 500,
+            initialize_sql:
+              `CREATE TABLE IF NOT EXISTS ${discovery.tableName} (own_addr varchar(200) NOT NULL, ` +
+              `cluster_name varchar(200) NOT NULL, ping_data ${discovery.dataType}, ` +
+              `constraint PK_${discovery.tableName} PRIMARY KEY (own_addr, cluster_name));`,
+            // Statements of JDBC_PING name its default table
+            ...(discovery.tableName !== defaultJdbcPingTableName
+              ? {
+                  clear_sql: `DELETE FROM ${discovery.tableName} WHERE cluster_name=?`,
+                  delete_single_sql: `DELETE FROM ${discovery.tableName} WHERE own_addr=? AND cluster_name=?`,
+                  insert_single_sql: `INSERT INTO ${discovery.tableName} (own_addr, cluster_name, ping_data) values (?, ?, ?)`,
+                  select_all_pingdata_sql: `SELECT ping_data, own_addr, cluster_name FROM ${discovery.tableName} WHERE cluster_name=?`,
+                }
+              : {}),
+            remove_all_data_on_view_change: true,
+            "stack.combine": "REPLACE",
+            "stack.position": "MPING",
+          },
+          12
+        )
+      : multilineElement(
+          "dns.DNS_PING",
+          {
+            dns_query: discovery.query,
+            dns_record_type: "A",
+            "stack.combine": "REPLACE",
+            "stack.position": "MPING",
+          },
+          12
+        );
+
+  const caches = Object.entries(options.caches).flatMap(([name, cache]) => {
+    const expiration = attributes({
+      "max-idle": cache.maxIdle,
+      lifespan: cache.lifespan,
+      interval: cache.expirationInterval,
+    });
+    const body = [
+      ...(cache.objectEncoding
+        ? [
+            "<encoding>",
+            '    <key media-type="application/x-java-object"/>',
+            '    <value media-type="application/x-java-object"/>',
+            "</encoding>",
+          ]
+        : []),
+      ...(expiration ? [`<expiration${expiration}/>`] : []),
+      ...(cache.maxCount !== undefined ? [`<memory${attributes({ "max-count": cache.maxCount })}/>`] : []),
+      ...(options.remote && cache.remoteStore && cache.type !== "local" ? renderRemoteStore(name, options) : []),
+    ];
+    const element = `${cache.type}-cache`;
+    const start = `<${element}${attributes({
+      name: name,
+      owners: cache.type === "distributed" ? cache.owners ?? 2 : undefined,
+      statistics: options.statistics || undefined,
+    })}`;
+    return body.length ? [`${start}>`, ...body.map((line) => `    ${line}`), `</${element}>`] : [`${start}/>`];
+  });
+
+  const version = options.schemaVersion;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<infinispan",
+    '        xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    `        xsi:schemaLocation="urn:infinispan:config:${version} https://infinispan.org/schemas/infinispan-config-${version}.xsd"`,
+    `        xmlns="urn:infinispan:config:${version}">`,
+    "",
+    "    <jgroups>",
+    `        <stack name="${stackName}" extends="tcp">`,
+    `            ${protocol}`,
+    "        </stack>",
+    "    </jgroups>",
+    "",
+    `    <cache-container${attributes({ name: "keycloak", statistics: options.statistics || undefined })}>`,
+    `        <transport${attributes({ "lock-timeout": options.lockTimeout, stack: stackName })}/>`,
+    ...(options.statistics ? ['        <metrics names-as-tags="true"/>'] : []),
+    ...caches.map((line) => `        ${line}`),
+    "    </cache-container>",
+    "</infinispan>",
+    "",
+  ].join("\n");
+}
@@ -2,13 +2,13 @@ import { aws_certificatemanager as acm, aws_route53 as route53, aws_ssm as ssm,
 import { Construct } from "constructs";
 import { Common } from "./common";
 
-const common = new Common();
-
 // Stack for application domain certificate
 export class CertificateStack extends Stack {
   constructor(scope: Construct, id: string, props?: StackProps) {
     super(scope, id, props);
 
+    const common = Common.of(this);
+
     // Wildcard certificate
     const certificate = new acm.Certificate(this, "Certificate", {
       certificateName: common.getResourceName("certificate"),
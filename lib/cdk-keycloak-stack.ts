@@ -1,501 +1,300 @@
-import {
-  Stack,
-  StackProps,
-  aws_applicationautoscaling as aas,
-  aws_secretsmanager as asm,
-  aws_ec2 as ec2,
-  aws_ecr as ecr,
-  aws_ecs as ecs,
-  aws_elasticloadbalancingv2 as elbv2,
-  aws_iam as iam,
-  aws_logs as logs,
-  aws_rds as rds,
-  aws_route53 as route53,
-  aws_route53_targets as route53targets,
-  aws_ssm as ssm,
-} from "aws-cdk-lib";
-import { Destination, DockerImageDeployment, Source } from "cdk-docker-image-deployment";
-import { Construct } from "constructs";
+import { CfnElement, Names, Stack, StackProps, aws_ec2 as ec2 } from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct, IConstruct } from "constructs";
+import { createHash } from "crypto";
 import { Common } from "./common";
+import { customResourceSuppressions } from "./compliance";
+import { KeycloakBastion } from "./constructs/keycloak-bastion";
+import { KeycloakDatabase } from "./constructs/keycloak-database";
+import { KeycloakDeployment } from "./constructs/keycloak-deployment";
+import { KeycloakIngress } from "./constructs/keycloak-ingress";
+import { KeycloakMetrics } from "./constructs/keycloak-metrics";
+import { KeycloakNetwork } from "./constructs/keycloak-network";
+import { KeycloakObservability } from "./constructs/keycloak-observability";
+import { KeycloakProvisioning } from "./constructs/keycloak-provisioning";
+import { KeycloakService } from "./constructs/keycloak-service";
+import { KeycloakUpgrade } from "./constructs/keycloak-upgrade";
+import { KeycloakWaf } from "./constructs/keycloak-waf";
+
+export const serviceName = "keycloak";
+
+export interface KeycloakStackProps extends StackProps {
+  // Standby in `drRegion` with the secondary cluster of the Global Database, scaled to zero until a failover
+  standby?: boolean;
+}
 
-const common = new Common();
-const params = common.loadConfig();
-const serviceName = "keycloak";
-const dbUserName = "admin";
-const domainName = `auth.${common.getDomain()}`;
-const env = common.getEnvironment();
-const containerConfig = common.getContainer(serviceName);
+// Logical ID CDK allocates to a resource at the given path below its stack, see `Names.uniqueId`
+function logicalIdOf(components: string[]): string {
+  const path = components.filter((component) => component !== "Default");
+  if (path.length === 1) {
+    return path[0].replace(/[^A-Za-z0-9]/g, "");
+  }
+  const human = path
+    .reduce(
+      (kept: string[], component) => (kept[kept.length - 1]?.endsWith(component) ? kept : [...kept, component]),
+      []
+    )
+    .filter((component) => component !== "Resource")
+    .map((component) => component.replace(/[^A-Za-z0-9]/g, ""))
+    .join("");
+  const hash = createHash("md5").update(path.join("/")).digest("hex");
+  return human.slice(0, 240) + hash.slice(0, 8).toUpperCase();
+}
 
 // Stack for ECS on Fargate running Keycloak authentication infrastructure
 // NOTE: Assumes Quarkus distribution
 export class KeycloakStack extends Stack {
-  constructor(scope: Construct, id: string, props?: StackProps) {
+  public readonly network: KeycloakNetwork;
+  public readonly database: KeycloakDatabase;
+  public readonly service: KeycloakService;
+  public readonly upgrade?: KeycloakUpgrade;
+  public readonly ingress: KeycloakIngress;
+  public readonly bastion?: KeycloakBastion;
+  public readonly waf?: KeycloakWaf;
+  public readonly observability: KeycloakObservability;
+  public readonly metrics?: KeycloakMetrics;
+  public readonly provisioning?: KeycloakProvisioning;
+  public readonly deployment?: KeycloakDeployment;
+
+  constructor(scope: Construct, id: string, props?: KeycloakStackProps) {
     super(scope, id, props);
 
-    /*********
-     * VPC
-     *********/
-
-    // Base Vpc
-    const vpc = new ec2.Vpc(this, "VPC", {
-      ipAddresses: common.getVpcParameter().ipAddresses,
-      enableDnsHostnames: true,
-      enableDnsSupport: true,
-      natGateways: common.getVpcParameter().natGateways,
-      maxAzs: common.getVpcParameter().maxAzs,
-      subnetConfiguration: [
-        {
-          name: "Public",
-          subnetType: ec2.SubnetType.PUBLIC,
-          cidrMask: common.getVpcParameter().subnetCidrMask,
-        },
-        {
-          name: "Private",
-          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
-          cidrMask: common.getVpcParameter().subnetCidrMask,
-        },
-      ],
-    });
-    const vpcPublicSubnets = vpc.selectSubnets({ subnetType: ec2.SubnetType.PUBLIC });
-    const vpcPrivateSubnets = vpc.selectSubnets({ subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS });
-
-    /*********
-     * RDS
-     *********/
+    const common = Common.of(this);
+    const domainName = `auth.${common.getDomain()}`;
+    const admin = common.getAdminParameter();
+    const blueGreen = common.getBlueGreenParameter();
+    const env = common.getEnvironment();
+    const dr = common.getDrParameter();
+    const standby = props?.standby ?? false;
 
-    const mysqlEngine = rds.DatabaseClusterEngine.auroraMysql({
-      version: rds.AuroraMysqlEngineVersion.VER_3_02_0,
-    });
-
-    // Database cluster parameter group
-    const dbClusterParameterGroup = new rds.ParameterGroup(this, "DBClusterParameterGroup", {
-      engine: mysqlEngine,
-      description: `Cluster parameter group for ${serviceName}`,
-      parameters: {
-        slow_query_log: "1",
-      },
-    });
-    dbClusterParameterGroup.bindToCluster({});
-    (dbClusterParameterGroup.node.defaultChild as rds.CfnDBClusterParameterGroup).dbClusterParameterGroupName =
-      common.getResourceName(`${serviceName}-db-cluster-pg-aurora-mysql8`);
-
-    // Database instance parameter group
-    const dbInstanceParameterGroup = new rds.ParameterGroup(this, "DBInstanceParameterGroup", {
-      engine: mysqlEngine,
-      description: `Instance parameter group for ${serviceName}`,
-    });
-    dbInstanceParameterGroup.bindToInstance({});
-    (dbInstanceParameterGroup.node.defaultChild as rds.CfnDBParameterGroup).dbParameterGroupName =
-      common.getResourceName(`${serviceName}-db-instance-pg-aurora-mysql8`);
-
-    // Database subnet group
-    const dbSubnetGroup = new rds.SubnetGroup(this, "DBSubnetGroup", {
-      subnetGroupName: common.getResourceName(`${serviceName}-db-subnet-group`),
-      description: common.getResourceName(`${serviceName}-db-subnet-group`),
-      removalPolicy: common.getRemovalPolicy(),
-      vpc: vpc,
-      vpcSubnets: vpcPrivateSubnets,
-    });
-
-    // Database security group
-    const dbSecurityGroupName = common.getResourceName(`${serviceName}-db-security-group`);
-    const dbSecurityGroup = new ec2.SecurityGroup(this, "DBSecurityGroup", {
-      securityGroupName: dbSecurityGroupName,
-      description: dbSecurityGroupName,
-      vpc: vpc,
-      allowAllOutbound: true,
-    });
-    common.addNameTag(dbSecurityGroup, dbSecurityGroupName);
-
-    // Database credential
-    const dbSecretExcludeCharacters = " % +~`#$&*()|[]{}:;<>?!'/@\"\\";
-    const dbSecret = new asm.Secret(this, "DBSecret", {
-      secretName: common.getResourceName(`${serviceName}-db-secret`),
-      description: `Credentials for ${serviceName} database`,
-      generateSecretString: {
-        generateStringKey: "password",
-        excludeCharacters: dbSecretExcludeCharacters,
-        passwordLength: 30,
-        secretStringTemplate: JSON.stringify({ username: dbUserName }),
-      },
+    // VPC, the shared VPC is in the primary region
+    this.network = new KeycloakNetwork(this, "Network", {
+      existingVpc: standby ? undefined : env.existingVpc,
     });
 
     // Aurora Serverless v2
-    const dbCluster = new rds.DatabaseCluster(this, "DBCluster", {
-      engine: mysqlEngine,
-      clusterIdentifier: common.getResourceName(`${serviceName}-db-cluster`),
-      instanceIdentifierBase: common.getResourceName(`${serviceName}-db-instance`),
-      instances: 2,
-      defaultDatabaseName: serviceName,
-      deletionProtection: false,
-      iamAuthentication: false,
-      credentials: rds.Credentials.fromSecret(dbSecret),
-      instanceProps: {
-        vpc: vpc,
-        vpcSubnets: vpcPrivateSubnets,
-        instanceType: new ec2.InstanceType("serverless"),
-        securityGroups: [dbSecurityGroup],
-        parameterGroup: dbInstanceParameterGroup,
-        enablePerformanceInsights: true,
-        allowMajorVersionUpgrade: false,
-        autoMinorVersionUpgrade: true,
-        deleteAutomatedBackups: false,
-        performanceInsightRetention: rds.PerformanceInsightRetention.DEFAULT,
-        publiclyAccessible: false,
-      },
-      subnetGroup: dbSubnetGroup,
-      parameterGroup: dbClusterParameterGroup,
-      backup: {
-        retention: common.getRdsParameter().backup.retentionDays,
-        preferredWindow: "17:00-17:30",
-      },
-      monitoringInterval: common.getRdsParameter().monitoringInterval,
-      preferredMaintenanceWindow: "Sat:18:00-Sat:18:30",
-      storageEncrypted: true,
-      removalPolicy: common.getRemovalPolicy(),
-      copyTagsToSnapshot: true,
-      cloudwatchLogsExports: ["error", "general", "slowquery", "audit"],
-      cloudwatchLogsRetention: common.getLogsRetentionDays(),
-    });
-    (dbCluster.node.defaultChild as rds.CfnDBCluster).serverlessV2ScalingConfiguration = {
-      minCapacity: common.getRdsParameter().scaling.minCapacity,
-      maxCapacity: common.getRdsParameter().scaling.maxCapacity,
-    };
-    const dbListenerPort = 3306;
-    dbCluster.connections.allowInternally(
-      ec2.Port.tcp(dbListenerPort),
-      "Allow resources with this security group connect to database"
-    );
-    dbCluster.connections.allowFrom(
-      ec2.Peer.ipv4(vpc.vpcCidrBlock),
-      ec2.Port.tcp(dbListenerPort),
-      "Allow resources in VPC connect to database"
-    );
-
-    // Database security group
-    const dbSecretRotationFunctionSecurityGroupName = common.getResourceName(`${serviceName}-db-secret-security-group`);
-    const dbSecretRotationFunctionSecurityGroup = new ec2.SecurityGroup(this, "DBSecretRotationFunctionSecurityGroup", {
-      securityGroupName: dbSecretRotationFunctionSecurityGroupName,
-      description: dbSecretRotationFunctionSecurityGroupName,
-      vpc: vpc,
-      allowAllOutbound: true,
-    });
-    common.addNameTag(dbSecretRotationFunctionSecurityGroup, dbSecretRotationFunctionSecurityGroupName);
-
-    // Database credential rotation
-    new asm.SecretRotation(this, "DBSecretRotation", {
-      application: asm.SecretRotationApplication.MYSQL_ROTATION_SINGLE_USER,
-      secret: dbSecret,
-      target: dbCluster,
-      vpc: vpc,
-      automaticallyAfter: common.getRdsParameter().secretRetentionDays,
-      excludeCharacters: dbSecretExcludeCharacters,
-      securityGroup: dbSecretRotationFunctionSecurityGroup,
-      vpcSubnets: vpcPrivateSubnets,
-    });
-
-    /*********
-     * ECS
-     *********/
-
-    // Create Dockerfile dynamically using parameters in 'cdk.json'
-    common.createDockerfile(serviceName);
-
-    // Get ECR repository
-    const containerRepository = ecr.Repository.fromRepositoryArn(
-      this,
-      "ContainerRepository",
-      `arn:aws:ecr:${env.region}:${env.account}:repository/${containerConfig.repositoryName}`
-    );
-
-    // Deploy container image
-    new DockerImageDeployment(this, "KeycloakImageDeploy", {
-      source: Source.directory(containerConfig.imagePath),
-      destination: Destination.ecr(containerRepository, { tag: containerConfig.tag }),
-    });
-
-    // Port settings
-    const containerPort = 8080;
-    const ecsPortSettings = [
-      {
-        Port: containerPort,
-        Protocol: ecs.Protocol.TCP,
-        Description: "keycloak: http",
-        ECSServiceConnection: false,
-      },
-      {
-        Port: 7800,
-        Protocol: ecs.Protocol.TCP,
-        Description: "keycloak: jgroups-tcp",
-        ECSServiceConnection: true,
-      },
-      {
-        Port: 57800,
-        Protocol: ecs.Protocol.TCP,
-        Description: "keycloak: jgroups-tcp-fd",
-        ECSServiceConnection: true,
-      },
-    ];
-
-    // ECS cluster
-    const ecsCluster = new ecs.Cluster(this, "ECSCluster", {
-      clusterName: common.getResourceName(`${serviceName}-cluster`),
-      vpc: vpc,
-      containerInsights: true,
-    });
-    ecsCluster.node.addDependency(dbCluster);
-
-    // ECS task execution role
-    const ecsTaskExecutionRole = new iam.Role(this, "ECSTaskExecutionRole", {
-      roleName: common.getResourceName(`${serviceName}-task-execution-role`),
-      assumedBy: new iam.CompositePrincipal(
-        new iam.ServicePrincipal("ecs.amazonaws.com"),
-        new iam.ServicePrincipal("ecs-tasks.amazonaws.com")
-      ),
-      managedPolicies: [iam.ManagedPolicy.fromAwsManagedPolicyName("AmazonEC2ContainerRegistryReadOnly")],
-    });
-
-    // ECS task role
-    const ecsTaskRole = new iam.Role(this, "ECSTaskRole", {
-      roleName: common.getResourceName(`${serviceName}-task-role`),
-      assumedBy: new iam.CompositePrincipal(new iam.ServicePrincipal("ecs-tasks.amazonaws.com")),
-    });
-
-    // ECS task definition
-    const ecsTaskDefinition = new ecs.FargateTaskDefinition(this, "ECSTaskDefinitionBase", {
-      family: common.getResourceName(`${serviceName}-task-definition`),
-      cpu: common.getEcsParameter().taskDefinition.cpu,
-      memoryLimitMiB: common.getEcsParameter().taskDefinition.memoryLimitMiB,
-      runtimePlatform: {
-        operatingSystemFamily: ecs.OperatingSystemFamily.LINUX,
-        cpuArchitecture: ecs.CpuArchitecture.X86_64,
-      },
-      executionRole: ecsTaskExecutionRole,
-      taskRole: ecsTaskRole,
-    });
-
-    // Keycloak credential
-    const userSecret = new asm.Secret(this, "UserSecret", {
-      secretName: common.getResourceName(`${serviceName}-user-secret`),
-      description: `Credentials for ${serviceName} user`,
-      generateSecretString: {
-        generateStringKey: "password",
-        excludePunctuation: true,
-        passwordLength: 12,
-        secretStringTemplate: JSON.stringify({ username: serviceName }),
-      },
-    });
-
-    // ECS log group
-    const ecsLogGroup = new logs.LogGroup(this, "ECSLogGroup", {
-      logGroupName: common.getResourceNamePath(`ecs/${serviceName}`),
-      retention: common.getLogsRetentionDays(),
-      removalPolicy: common.getRemovalPolicy(),
-    });
-
-    // ECS port mappings
-    const ecsPortMappings: ecs.PortMapping[] = [];
-    ecsPortSettings.map((param) => {
-      ecsPortMappings.push({
-        containerPort: param.Port,
-        protocol: param.Protocol,
+    this.database = new KeycloakDatabase(this, "Database", {
+      serviceName: serviceName,
+      vpc: this.network.vpc,
+      vpcSubnets: this.network.privateSubnets,
+      existingDatabase: env.existingDatabase,
+      globalDatabase: dr.region
+        ? {
+            globalClusterIdentifier: common.getResourceName(`${serviceName}-db-global-cluster`),
+            secondary: standby,
+            secondaryRegion: dr.region,
+          }
+        : undefined,
+    });
+
+    // ECS on Fargate
+    this.service = new KeycloakService(this, "Service", {
+      serviceName: serviceName,
+      vpc: this.network.vpc,
+      database: this.database,
+      domainName: domainName,
+      adminDomainName: admin.domainName,
+      standby: standby,
+    });
+
+    // Version check and database snapshot awaited before the tasks of a new Keycloak version run the migrations,
+    // the standby runs the version of the primary region on its replica
+    if (!standby) {
+      const upgrade = common.getUpgradeParameter(serviceName);
+      this.upgrade = new KeycloakUpgrade(this, "Upgrade", {
+        serviceName: serviceName,
+        version: upgrade.version,
+        parameterName: upgrade.parameterName,
+        databaseCluster: upgrade.snapshot ? this.database.cluster : undefined,
+        allowDowngrade: upgrade.allowDowngrade,
       });
-    });
-
-    // Task definition with container definition added
-    ecsTaskDefinition.addContainer("ECSTaskDefinition", {
-      containerName: serviceName,
-      image: ecs.ContainerImage.fromEcrRepository(containerRepository, containerConfig.tag),
-      command: common.getEcsParameter().taskDefinition.command,
-      secrets: {
-        KC_DB_PASSWORD: ecs.Secret.fromSecretsManager(dbCluster.secret!, "password"),
-        KEYCLOAK_ADMIN: ecs.Secret.fromSecretsManager(userSecret, "username"),
-        KEYCLOAK_ADMIN_PASSWORD: ecs.Secret.fromSecretsManager(userSecret, "password"),
-      },
-      logging: ecs.LogDrivers.awsLogs({
-        logGroup: ecsLogGroup,
-        streamPrefix: serviceName,
-      }),
-      environment: {
-        KC_CACHE_CONFIG_FILE: "cache-ispn-jdbc-ping.xml",
-        KC_DB: "mysql",
-        KC_DB_URL: `jdbc:mysql://${dbCluster.clusterEndpoint.hostname}:${dbListenerPort}/${serviceName}`,
-        KC_DB_URL_DATABASE: serviceName,
-        KC_DB_URL_HOST: dbCluster.clusterEndpoint.hostname,
-        KC_DB_URL_PORT: String(dbListenerPort),
-        KC_DB_USERNAME: dbUserName,
-        KC_HOSTNAME: domainName,
-        KC_HOSTNAME_STRICT_BACKCHANNEL: "true",
-        KC_PROXY: "edge",
-      },
-      portMappings: ecsPortMappings,
-    });
-
-    // Allow execution role to read the secrets
-    dbCluster.secret!.grantRead(ecsTaskDefinition.executionRole!);
-    userSecret.grantRead(ecsTaskDefinition.executionRole!);
-
-    // ECS service security group
-    const ecsServiceSecurityGroupName = common.getResourceName(`${serviceName}-ecs-service-security-group`);
-    const ecsServiceSecurityGroup = new ec2.SecurityGroup(this, "ECSServiceSecurityGroup", {
-      securityGroupName: ecsServiceSecurityGroupName,
-      description: ecsServiceSecurityGroupName,
-      vpc: vpc,
-      allowAllOutbound: true,
-    });
-    common.addNameTag(ecsServiceSecurityGroup, ecsServiceSecurityGroupName);
-
-    // ECS service
-    const ecsService = new ecs.FargateService(this, "ECSService", {
-      serviceName: common.getResourceName(`${serviceName}-service`),
-      cluster: ecsCluster,
-      taskDefinition: ecsTaskDefinition,
-      circuitBreaker: common.getEcsParameter().service.circuitBreaker,
-      desiredCount: common.getEcsParameter().service.nodeCount,
-      healthCheckGracePeriod: common.getEcsParameter().service.healthCheckGracePeriod,
-      securityGroups: [ecsServiceSecurityGroup],
-      enableECSManagedTags: true,
-      enableExecuteCommand: true,
-      //deploymentController: { type: ecs.DeploymentControllerType.CODE_DEPLOY },
-    });
-
-    // ECS allowed traffic
-    ecsPortSettings.map((param) => {
-      if (param.ECSServiceConnection) {
-        ecsService.connections.allowFrom(
-          ecsService.connections,
-          param.Protocol === ecs.Protocol.TCP ? ec2.Port.tcp(param.Port) : ec2.Port.udp(param.Port),
-          param.Description
+      this.service.service.node.addDependency(this.upgrade.resource);
+    }
+
+    // ALB and alias record
+    this.ingress = new KeycloakIngress(this, "Ingress", {
+      serviceName: serviceName,
+      vpc: this.network.vpc,
+      vpcSubnets: this.network.publicSubnets,
+      service: this.service.service,
+      containerPort: this.service.containerPort,
+      domainName: domainName,
+      hostedZoneDomain: env.domain,
+      // The NAT gateways are allowed on the internet-facing ALB as well, for the bastion host and the provisioning
+      // function
+      admin:
+        admin.access === "public"
+          ? undefined
+          : {
+              access: admin.access,
+              paths: admin.paths,
+              sourceIps:
+                admin.access === "allowList"
+                  ? [...admin.allowList, ...this.network.natPublicIps.map((ip) => `${ip}/32`)]
+                  : admin.allowList,
+              domainName: admin.domainName,
+              vpcSubnets: this.network.privateSubnets,
+            },
+      // The hook function reaches the test listener through the NAT gateways
+      blueGreen:
+        blueGreen.enabled && !standby
+          ? {
+              testListenerPort: blueGreen.testListenerPort,
+              sourceIps: [...blueGreen.testAllowList, ...this.network.natPublicIps.map((ip) => `${ip}/32`)],
+            }
+          : undefined,
+      // Records answered by the standby ALB while the primary one is unhealthy
+      failover: dr.enabled ? { role: standby ? "SECONDARY" : "PRIMARY", healthCheck: dr.healthCheck } : undefined,
+    });
+
+    // WAF web ACL of the ALB
+    if (common.getWafParameter().enabled) {
+      this.waf = new KeycloakWaf(this, "Waf", {
+        serviceName: serviceName,
+        loadBalancer: this.ingress.loadBalancer,
+      });
+    }
+
+    // Bastion host, optional since the database is reachable through ECS Exec as well
+    if (common.getEcsParameter().bastion.enabled) {
+      this.bastion = new KeycloakBastion(this, "Bastion", {
+        serviceName: serviceName,
+        vpc: this.network.vpc,
+        connectTo: [this.database],
+      });
+      this.ingress.adminListener?.connections.allowDefaultPortFrom(
+        this.bastion.host,
+        "Allow bastion host connect to admin console"
+      );
+    }
+
+    // Prometheus metrics published to CloudWatch by a collector sidecar
+    if (common.getMetricsParameter().enabled) {
+      this.metrics = new KeycloakMetrics(this, "Metrics", {
+        serviceName: serviceName,
+        cluster: this.service.cluster,
+        taskDefinition: this.service.taskDefinition,
+        containerPort: this.service.containerPort,
+        logGroup: this.service.logGroup,
+      });
+    }
+
+    // Dashboard and alarms notified through SNS
+    this.observability = new KeycloakObservability(this, "Observability", {
+      serviceName: serviceName,
+      loadBalancer: this.ingress.loadBalancer,
+      targetGroup: this.ingress.targetGroup,
+      service: this.service.service,
+      databaseCluster: this.database.cluster,
+    });
+
+    // Blue/green deployments rolled back on the alarms
+    if (blueGreen.enabled && !standby) {
+      this.deployment = new KeycloakDeployment(this, "Deployment", {
+        serviceName: serviceName,
+        vpc: this.network.vpc,
+        vpcSubnets: this.network.privateSubnets,
+        service: this.service.service,
+        taskDefinition: this.service.taskDefinition,
+        containerPort: this.service.containerPort,
+        listener: this.ingress.listener,
+        testListener: this.ingress.testListener!,
+        blueTargetGroup: this.ingress.targetGroup,
+        greenTargetGroup: this.ingress.greenTargetGroup!,
+        testUrl: `https://${domainName}:${blueGreen.testListenerPort}`,
+        alarms: this.observability.alarms,
+      });
+    }
+
+    // Realms, clients and users applied after the service is reachable through the ALB, the internal one when the
+    // admin console is served there. The standby has them from the replicated database.
+    const provisioningParameter = common.getProvisioningParameter();
+    if (provisioningParameter.realms.length && !standby) {
+      this.provisioning = new KeycloakProvisioning(this, "Provisioning", {
+        serviceName: serviceName,
+        vpc: this.network.vpc,
+        vpcSubnets: this.network.privateSubnets,
+        url: `https://${admin.domainName ?? domainName}${common.getHttpRelativePath()}`,
+        adminSecret: this.service.userSecret,
+        realms: provisioningParameter.realms,
+        retainOnDelete: provisioningParameter.retainOnDelete,
+      });
+      this.provisioning.resource.node.addDependency(this.service.service, this.ingress.listener, this.ingress.record);
+      if (this.ingress.adminListener) {
+        this.ingress.adminListener.connections.allowDefaultPortFrom(
+          this.provisioning.function,
+          "Allow provisioning function connect to admin console"
         );
+        this.provisioning.resource.node.addDependency(this.ingress.adminListener, this.ingress.adminRecord!);
       }
-    });
-
-    // Allow ECS service connect to database
-    dbCluster.connections.allowDefaultPortFrom(ecsService, "Allow ECS service connect to database");
-
-    // ECS auto scaling capacity
-    const ecsAutoScaling = ecsService.autoScaleTaskCount({
-      minCapacity: common.getEcsParameter().service.scaling.base.minCapacity,
-      maxCapacity: common.getEcsParameter().service.scaling.base.maxCapacity,
-    });
+    }
 
-    // ECS auto scaling by cpu utilization
-    ecsAutoScaling.scaleOnCpuUtilization("ECSCPUScaling", {
-      policyName: common.getResourceName(`${serviceName}-cpu-scaling-policy`),
-      targetUtilizationPercent: common.getEcsParameter().service.scaling.base.cpuUtilization,
-      scaleOutCooldown: common.getEcsParameter().service.scaling.base.scaleOutCooldown,
-      scaleInCooldown: common.getEcsParameter().service.scaling.base.scaleInCooldown,
-    });
-
-    // ECS auto scaling by schedule
-    ecsAutoScaling.scaleOnSchedule("ECSScalingOutBeforeOpening", {
-      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.beforeOpening.cron),
-      minCapacity: common.getEcsParameter().service.scaling.schedule.beforeOpening.minCapacity,
-      maxCapacity: common.getEcsParameter().service.scaling.schedule.beforeOpening.maxCapacity,
-    });
-    ecsAutoScaling.scaleOnSchedule("ECSScalingInAfterOpening", {
-      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.afterOpening.cron),
-      minCapacity: common.getEcsParameter().service.scaling.schedule.afterOpening.minCapacity,
-      maxCapacity: common.getEcsParameter().service.scaling.schedule.afterOpening.maxCapacity,
-    });
-    ecsAutoScaling.scaleOnSchedule("ECSScalingOutBeforeClosing", {
-      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.beforeClosing.cron),
-      minCapacity: common.getEcsParameter().service.scaling.schedule.beforeClosing.minCapacity,
-      maxCapacity: common.getEcsParameter().service.scaling.schedule.beforeClosing.maxCapacity,
-    });
-    ecsAutoScaling.scaleOnSchedule("ECSScalingInAfterClosing", {
-      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.afterClosing.cron),
-      minCapacity: common.getEcsParameter().service.scaling.schedule.afterClosing.minCapacity,
-      maxCapacity: common.getEcsParameter().service.scaling.schedule.afterClosing.maxCapacity,
-    });
-
-    // ALB security group
-    const albSecurityGroupName = common.getResourceName(`${serviceName}-alb-security-group`);
-    const albSecurityGroup = new ec2.SecurityGroup(this, "ALBSecurityGroup", {
-      securityGroupName: albSecurityGroupName,
-      description: albSecurityGroupName,
-      vpc: vpc,
-      allowAllOutbound: false,
-    });
-    common.addNameTag(albSecurityGroup, albSecurityGroupName);
-    albSecurityGroup.addIngressRule(ec2.Peer.ipv4("0.0.0.0/0"), ec2.Port.tcp(443), "Allow from anyone on port 443");
-
-    // ALB
-    const alb = new elbv2.ApplicationLoadBalancer(this, "ALB", {
-      loadBalancerName: common.getResourceName(`${serviceName}-alb`),
-      vpc: vpc,
-      vpcSubnets: vpcPublicSubnets,
-      internetFacing: true,
-      securityGroup: albSecurityGroup,
-    });
-
-    // ALB HTTPS listener
-    const albListener = alb.addListener("ALBListener", {
-      protocol: elbv2.ApplicationProtocol.HTTPS,
-      certificates: [
-        {
-          certificateArn: common.lazifyString(
-            ssm.StringParameter.valueForTypedStringParameterV2(
-              this,
-              common.getResourceNamePath("certificateArn"),
-              ssm.ParameterValueType.STRING
-            )
-          ),
-        },
-      ],
-    });
-
-    // ALB target group
-    albListener.addTargets("ALBTarget", {
-      targetGroupName: common.getResourceName(`${serviceName}-tg`),
-      targets: [ecsService],
-      healthCheck: {
-        healthyThresholdCount: common.getEcsParameter().alb.healthyThresholdCount,
-        interval: common.getEcsParameter().alb.interval,
-        timeout: common.getEcsParameter().alb.timeout,
-      },
-      slowStart: common.getEcsParameter().alb.slowStart,
-      stickinessCookieDuration: common.getEcsParameter().alb.stickinessCookieDuration,
-      port: containerPort,
-      protocol: elbv2.ApplicationProtocol.HTTP,
-    });
-
-    // Alias record for ALB
-    const albARecord = new route53.ARecord(this, "ALBARecord", {
-      recordName: domainName,
-      target: route53.RecordTarget.fromAlias(new route53targets.LoadBalancerTarget(alb)),
-      zone: route53.HostedZone.fromLookup(this, "HostedZone", {
-        domainName: env.domain,
-      }),
-    });
-    albARecord.node.addDependency(alb);
-
-    /*********
-     * EC2
-     *********/
-
-    // Bastion host security group
-    const bastionSecurityGroupName = common.getResourceName(`${serviceName}-bastion-security-group`);
-    const bastionSecurityGroup = new ec2.SecurityGroup(this, "BastionSecurityGroup", {
-      securityGroupName: bastionSecurityGroupName,
-      description: bastionSecurityGroupName,
-      vpc: vpc,
-      allowAllOutbound: true,
-    });
-    common.addNameTag(bastionSecurityGroup, bastionSecurityGroupName);
+    this.pinLegacyLogicalIds();
+    this.suppressFindings();
+  }
 
-    // Bastion host
-    const bastion = new ec2.BastionHostLinux(this, "Bastion", {
-      instanceName: common.getResourceName(`${serviceName}-bastion`),
-      instanceType: new ec2.InstanceType(common.getEcsParameter().bastion.instanceType),
-      vpc: vpc,
-      securityGroup: bastionSecurityGroup,
+  // Keep the logical IDs the resources had in the former flat stack layout, so that existing deployments update them
+  // in place instead of replacing them, which fails for the resources with physical names
+  private pinLegacyLogicalIds(): void {
+    const layers: IConstruct[] = [this.network, this.database, this.service, this.ingress];
+    if (this.bastion) {
+      layers.push(this.bastion);
+    }
+    // Path without the L3 constructs, which was the path in the flat layout
+    const legacyPath = (construct: IConstruct, from: number) =>
+      construct.node.scopes
+        .slice(from)
+        .filter((scope) => !layers.includes(scope))
+        .map((scope) => scope.node.id);
+    const constructs = layers.flatMap((layer) => layer.node.findAll());
+    // Rules embed the unique ID of their peer security group in their construct ID
+    const legacyUniqueIds = constructs
+      .filter((construct) => ec2.SecurityGroup.isSecurityGroup(construct))
+      .map((group) => [Names.nodeUniqueId(group.node), logicalIdOf(legacyPath(group, 1))]);
+    constructs.forEach((construct) => {
+      if (construct instanceof CfnElement) {
+        const components = legacyPath(construct, construct.node.scopes.indexOf(this) + 1).map((component) =>
+          legacyUniqueIds.reduce((id, [uniqueId, legacyUniqueId]) => id.replace(uniqueId, legacyUniqueId), component)
+        );
+        construct.overrideLogicalId(logicalIdOf(components));
+      }
     });
+  }
 
-    // Override role name
-    (bastion.role.node.defaultChild as iam.CfnRole).roleName = common.getResourceName(`${serviceName}-bastion-role`);
+  // Accept the compliance findings on resources added to the stack by several constructs
+  private suppressFindings(): void {
+    // Singleton functions of aws-cdk-lib setting the log retention and calling AWS APIs for custom resources
+    this.node.children
+      .filter((child) =>
+        ["LogRetention", "AWS679f53fac002430cb0da5b7982bd2287"].some((id) => child.node.id.startsWith(id))
+      )
+      .forEach((singleton) => {
+        NagSuppressions.addResourceSuppressions(
+          singleton,
+          [
+            ...customResourceSuppressions,
+            {
+              id: "AwsSolutions-IAM5",
+              reason: "Log groups of the functions are created by Lambda on first invocation",
+              appliesTo: ["Resource::*"],
+            },
+          ],
+          true
+        );
+      });
 
-    // Allow bastion host connect to database
-    dbCluster.connections.allowDefaultPortFrom(bastion, "Allow bastion host connect to database");
+    // Database ingress rules of the clients, from the endpoint port of the cluster that is resolved on deployment
+    if (this.database.cluster) {
+      NagSuppressions.addResourceSuppressions(
+        this.database.connections.securityGroups,
+        [
+          {
+            id: "CdkNagValidationFailure",
+            reason: "Port checks of HIPAA.Security fail on the endpoint port, the rules name the security groups only",
+          },
+        ],
+        true
+      );
+    }
   }
 }
@@ -0,0 +1,235 @@
+import {
+  CfnElement,
+  Stack,
+  StackProps,
+  aws_codebuild as codebuild,
+  aws_codecommit as codecommit,
+  aws_codepipeline as codepipeline,
+  aws_codepipeline_actions as actions,
+  aws_ecr as ecr,
+  aws_iam as iam,
+  aws_s3_assets as assets,
+} from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { buildDirectory } from "./build-context";
+import { Common } from "./common";
+import { IEnvironmentParameter } from "./config";
+
+// Checks of the CLI credentials that do not apply in the pipeline account, see `Preflight`
+const skipPreflight = "-c skipPreflight=callerAccount,branch,containerRepository";
+
+export interface PipelineStackProps extends StackProps {
+  // 'cdk.json' of the app, not tracked in the repository and handed to the builds as an asset
+  cdkJsonPath: string;
+}
+
+// Stack for the pipeline building `params.target.branch` and deploying it to the environments in `params.pipeline`.
+// Builds assume the roles of `cdk bootstrap --trust <pipeline account>` in each environment.
+export class PipelineStack extends Stack {
+  public readonly pipeline: codepipeline.Pipeline;
+
+  constructor(scope: Construct, id: string, props: PipelineStackProps) {
+    super(scope, id, props);
+
+    const common = Common.of(this);
+    const target = common.loadConfig().target;
+    const environments = common.getPipelineParameter().environments;
+    const cdkJson = new assets.Asset(this, "CdkJson", { path: props.cdkJsonPath });
+
+    // CodeBuild project running the commands on the source with 'cdk.json' in place, `privileged` for Docker builds
+    const createProject = (id: string, name: string, commands: string[], privileged = false) => {
+      const project = new codebuild.PipelineProject(this, id, {
+        projectName: common.getResourceName(`pipeline-${name}`),
+        environment: { buildImage: codebuild.LinuxBuildImage.STANDARD_7_0, privileged: privileged },
+        environmentVariables: { CDK_JSON_URL: { value: cdkJson.s3ObjectUrl } },
+        buildSpec: codebuild.BuildSpec.fromObject({
+          version: "0.2",
+          phases: {
+            install: { commands: ['aws s3 cp "$CDK_JSON_URL" cdk.json', "npm install"] },
+            build: { commands: commands },
+          },
+        }),
+      });
+      cdkJson.grantRead(project);
+      return project;
+    };
+
+    // Roles created by `cdk bootstrap` in the environment and its DR region, `lookup` for synth and every role for
+    // deploy
+    const assumeBootstrapRoles = (project: codebuild.PipelineProject, roles: string, env: IEnvironmentParameter) => {
+      project.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          resources: [env.region, ...(env.drRegion ? [env.drRegion] : [])].map(
+            (region) =>
+              `arn:${this.partition}:iam::${env.account}:role/cdk-hnb659fds-${roles}-role-${env.account}-${region}`
+          ),
+        })
+      );
+    };
+
+    // Source
+    const sourceOutput = new codepipeline.Artifact("Source");
+    const sourceAction = new actions.CodeCommitSourceAction({
+      actionName: "Source",
+      repository: codecommit.Repository.fromRepositoryName(this, "Repository", target.repository),
+      branch: target.branch,
+      trigger: common.getPipelineTrigger(),
+      output: sourceOutput,
+    });
+
+    // Unit tests and synth of every environment
+    const synthProject = createProject("SynthProject", "synth", [
+      "npm test",
+      ...environments.map((env) => `npx cdk synth -q -c targetEnvironment=${env.name} ${skipPreflight}`),
+    ]);
+    environments.forEach((env) => assumeBootstrapRoles(synthProject, "lookup", env));
+
+    // Images built once from the build contexts assembled by the synth of the first environment, tagged with the
+    // commit and pushed to the container repositories. The deploy stages run them with `-c imageTag`, so every
+    // environment runs the image deployed to the one before.
+    const imageEnvironment = environments[0];
+    const images = common.loadConfig().containers.map((container) => {
+      const repoEnv = common.getEnvironment(container.environment);
+      const registry = `${repoEnv.account}.dkr.ecr.${repoEnv.region}.amazonaws.com`;
+      return {
+        container: container,
+        region: repoEnv.region,
+        registry: registry,
+        uri: `${registry}/${container.repositoryName}:$IMAGE_TAG`,
+        repository: ecr.Repository.fromRepositoryArn(
+          this,
+          `${common.capitalizeString(container.name)}Repository`,
+          `arn:aws:ecr:${repoEnv.region}:${repoEnv.account}:repository/${container.repositoryName}`
+        ),
+      };
+    });
+    const imageProject = createProject(
+      "ImageProject",
+      "image",
+      [
+        `npx cdk synth -q -c targetEnvironment=${imageEnvironment.name} ${skipPreflight}`,
+        ...images.flatMap(({ container, region, registry, uri }) => [
+          `aws ecr get-login-password --region ${region} | ` +
+            `docker login --username AWS --password-stdin ${registry}`,
+          [
+            "docker build",
+            ...Object.entries(container.buildArgs ?? {}).map(
+              ([name, value]) => `--build-arg ${name}='${value.replace(/'/g, "'\\''")}'`
+            ),
+            `-t ${uri}`,
+            `${buildDirectory}/${container.name}`,
+          ].join(" "),
+          `docker push ${uri}`,
+        ]),
+      ],
+      true
+    );
+    images.forEach(({ repository }) => repository.grantPullPush(imageProject));
+    NagSuppressions.addResourceSuppressions(
+      imageProject,
+      [
+        { id: "AwsSolutions-CB3", reason: "Docker builds the images in privileged mode" },
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "`ecr:GetAuthorizationToken` of the Docker login has no resource-level permissions",
+          appliesTo: ["Resource::*"],
+        },
+      ],
+      true
+    );
+    assumeBootstrapRoles(imageProject, "lookup", imageEnvironment);
+    const imageTag = { IMAGE_TAG: { value: sourceAction.variables.commitId } };
+
+    // Pipeline
+    this.pipeline = new codepipeline.Pipeline(this, "Pipeline", {
+      pipelineName: common.getResourceName("pipeline"),
+      crossAccountKeys: false,
+      stages: [
+        { stageName: "Source", actions: [sourceAction] },
+        {
+          stageName: "Build",
+          actions: [new actions.CodeBuildAction({ actionName: "Synth", project: synthProject, input: sourceOutput })],
+        },
+        {
+          stageName: "Image",
+          actions: [
+            new actions.CodeBuildAction({
+              actionName: "Image",
+              project: imageProject,
+              input: sourceOutput,
+              environmentVariables: imageTag,
+            }),
+          ],
+        },
+      ],
+    });
+
+    // Deploy stages, one environment after the other
+    environments.forEach((env) => {
+      const deployProject = createProject(`Deploy${common.capitalizeString(env.name)}Project`, `deploy-${env.name}`, [
+        `npx cdk deploy --require-approval never -c targetEnvironment=${env.name} -c imageTag=$IMAGE_TAG ` +
+          `${skipPreflight} "*CertificateStack" "*KeycloakStack"`,
+      ]);
+      assumeBootstrapRoles(deployProject, "*", env);
+      this.pipeline.addStage({
+        stageName: `Deploy${common.capitalizeString(env.name)}`,
+        actions: [
+          ...(env.approval ? [new actions.ManualApprovalAction({ actionName: "Approve", runOrder: 1 })] : []),
+          new actions.CodeBuildAction({
+            actionName: "Deploy",
+            project: deployProject,
+            input: sourceOutput,
+            environmentVariables: imageTag,
+            runOrder: 2,
+          }),
+        ],
+      });
+    });
+
+    // Accepted compliance findings, the grants between pipeline, builds and artifacts are generated by aws-cdk-lib
+    const artifactBucketId = this.getLogicalId(this.pipeline.artifactBucket.node.defaultChild as CfnElement);
+    NagSuppressions.addStackSuppressions(this, [
+      {
+        id: "AwsSolutions-IAM5",
+        reason: "Read and write grants on the objects of the artifact bucket and of the bootstrap asset bucket",
+        appliesTo: [
+          "Action::s3:Abort*",
+          "Action::s3:DeleteObject*",
+          "Action::s3:GetBucket*",
+          "Action::s3:GetObject*",
+          "Action::s3:List*",
+          `Resource::<${artifactBucketId}.Arn>/*`,
+          { regex: "/^Resource::arn:<AWS::Partition>:s3:::cdk-hnb659fds-assets-\\d{12}-[a-z0-9-]+\\/\\*$/g" },
+        ],
+      },
+      {
+        id: "AwsSolutions-IAM5",
+        reason: "Bootstrap roles of the environments, `*` matches the lookup, deploy and publishing roles",
+        appliesTo: [
+          {
+            regex: "/^Resource::arn:<AWS::Partition>:iam::\\d{12}:role\\/cdk-hnb659fds-\\*-role-\\d{12}-[a-z0-9-]+$/g",
+          },
+        ],
+      },
+      {
+        id: "AwsSolutions-IAM5",
+        reason: "Log streams and reports CodeBuild creates for each build of the projects",
+        appliesTo: [
+          {
+            regex:
+              "/^Resource::arn:<AWS::Partition>:logs:[a-z0-9-]+:\\d{12}:log-group:\\/aws\\/codebuild\\/<\\w+>:\\*$/g",
+          },
+          { regex: "/^Resource::arn:<AWS::Partition>:codebuild:[a-z0-9-]+:\\d{12}:report-group\\/<\\w+>-\\*$/g" },
+        ],
+      },
+      { id: "AwsSolutions-CB4", reason: "Artifacts are encrypted with S3 managed keys, as `crossAccountKeys` is off" },
+      { id: "HIPAA.Security-CodeBuildProjectSourceRepoUrl", reason: "Builds take their source from the pipeline" },
+      { id: "AwsSolutions-S1", reason: "Artifacts bucket used by the pipeline only" },
+      { id: "HIPAA.Security-S3BucketLoggingEnabled", reason: "See AwsSolutions-S1" },
+      { id: "HIPAA.Security-S3BucketReplicationEnabled", reason: "Artifacts are rebuilt from the repository" },
+      { id: "HIPAA.Security-S3BucketVersioningEnabled", reason: "Artifacts are rebuilt from the repository" },
+    ]);
+  }
+}
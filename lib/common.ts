@@ -1,179 +1,342 @@
-import { CodeCommitClient, ListBranchesCommand, ListBranchesCommandOutput } from "@aws-sdk/client-codecommit";
-import { DescribeRepositoriesCommand, DescribeRepositoriesCommandOutput, ECRClient } from "@aws-sdk/client-ecr";
-import { GetCallerIdentityCommand, GetCallerIdentityCommandOutput, STSClient } from "@aws-sdk/client-sts";
 import {
   App,
   Duration,
   Lazy,
   RemovalPolicy,
+  Stack,
   Tags,
+  aws_codedeploy as codedeploy,
   aws_codepipeline_actions as actions,
+  aws_secretsmanager as asm,
   aws_ec2 as ec2,
   aws_ecr as ecr,
   aws_logs as logs,
+  aws_rds as rds,
   aws_s3 as s3,
   aws_ssm as ssm,
 } from "aws-cdk-lib";
-import { Construct } from "constructs";
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { Construct, IConstruct } from "constructs";
+import { existsSync, writeFileSync } from "fs";
+import { join } from "path";
+import { SslPolicy } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import {
+  AdminAccessMode,
+  EnvironmentName,
+  IConfigParameter,
+  IContainerParameter,
+  IEnvironmentParameter,
+  INotificationParameter,
+  ITargetParameter,
+  ConfigValidationError,
+  envs,
+  parseConfig,
+} from "./config";
+import { assembleBuildContext, fetchProviders } from "./build-context";
+import {
+  CacheMode,
+  ICacheDefinitions,
+  ICacheParameter,
+  IRemoteCacheParameter,
+  cacheConfigFile,
+  defaultJdbcPingTableName,
+  defaultRemoteCachePort,
+  infinispanSchemaVersion,
+  jgroupsPorts,
+  renderCacheConfig,
+  resolveCaches,
+} from "./cache";
+import { IComplianceOptions, compliancePacks } from "./compliance";
+import { IKeycloakOptions, resolveKeycloakOptions, toDockerEnv } from "./keycloak-options";
+import { defaultAllowList, defaultCollectorImage } from "./metrics";
+import { IEcsProfile, IProfile, deepMerge, resolveProfile } from "./profile";
+import { TemplateVariables, renderTemplates } from "./template";
+import { IManagedRuleGroupParameter, IRateLimits, defaultManagedRuleGroups, defaultRateLimits } from "./waf";
+import { buildRealmStates } from "./provisioning";
+import type { IRealmState } from "../src/lambda/provisioning/keycloak-admin";
+
+// Pipeline settings resolved from `params.pipeline`
+export interface IPipelineSettings {
+  enabled: boolean;
+  // Environments deployed one after the other, `approval` before the deployment
+  environments: (IEnvironmentParameter & { approval: boolean })[];
+}
 
-const app = new App();
+// Effective configuration of the target environment for review
+export interface IEffectiveConfig {
+  target: ITargetParameter;
+  environment: IEnvironmentParameter;
+  profile: IProfile;
+}
 
-// Environment name definition
-const envs = {
-  Development: "dev",
-  Staging: "stg",
-  Production: "prod",
-} as const;
+// VPC settings resolved from the profile
+export interface IVpcSettings {
+  ipAddresses: ec2.IIpAddresses;
+  natGateways: number;
+  maxAzs: number;
+  subnetCidrMask: number;
+}
 
-// Environment name type
-type EnvironmentName = (typeof envs)[keyof typeof envs];
+// S3 settings resolved from the profile
+export interface IS3Settings {
+  removalPolicy: RemovalPolicy;
+  autoDeleteObjects: boolean;
+  durationDays: Duration;
+}
 
-// Valid Environment name list
-const validEnvNames = Object.values(envs);
+// Engine settings of `params.database.engine`
+export interface IDatabaseSettings {
+  // Value of `KC_DB`
+  kcDb: string;
+  engine: rds.IClusterEngine;
+  parameterGroupSuffix: string;
+  clusterParameters: { [name: string]: string };
+  port: number;
+  username: string;
+  jdbcScheme: string;
+  jdbcDriver: string;
+  // Column type of the JDBC_PING table
+  pingDataType: string;
+  cloudwatchLogsExports: string[];
+  rotationApplication: asm.SecretRotationApplication;
+}
 
-// Interface for handling parameters
-interface ICommonParameter {
-  [key: string]: any;
+// Provisioning settings resolved from `params.provisioning`
+export interface IProvisioningSettings {
+  realms: IRealmState[];
+  retainOnDelete: boolean;
 }
 
-/**
- * Self-created class to be called from all stacks
- */
+// RDS settings resolved from the profile
+export interface IRdsSettings {
+  deletionProtection: boolean;
+  backup: {
+    retentionDays: Duration;
+  };
+  monitoringInterval: Duration;
+  scaling: {
+    minCapacity: number;
+    maxCapacity: number;
+  };
+  performanceInsightRetention: Duration;
+  secretRetentionDays: Duration;
+}
 
-export class Common {
-  private readonly params = this.loadConfig();
+// Alarm settings resolved from the profile and the notifications of the target environment
+export interface IMonitoringSettings {
+  period: Duration;
+  evaluationPeriods: number;
+  thresholds: {
+    http5xxCount: number;
+    targetResponseTime: number;
+    ecsCpuUtilization: number;
+    ecsMemoryUtilization: number;
+    rdsAcuUtilization: number;
+    rdsDeadlocks: number;
+  };
+  notifications: INotificationParameter;
+}
 
-  // Loading `context.params` from 'cdk.json'
-  public loadConfig(): ICommonParameter {
-    return app.node.tryGetContext("params");
-  }
+// Metrics settings resolved from `params.metrics`
+export interface IMetricsSettings {
+  enabled: boolean;
+  namespace: string;
+  // Seconds
+  scrapeInterval: number;
+  allowList: string[];
+  image: string;
+}
 
-  // Verify environment settings
-  public verifyEnvironment(): void {
-    try {
-      const isValidEnvironment = () => {
-        const targetEnv = this.params.target.environment;
-        const envNames = this.params.environments.map((obj: ICommonParameter) => obj.name);
-        const envNameUniqueLength = Array.from(new Set(envNames)).length;
-        let isValid = true;
-
-        // Is the environment name defined in `params.target.environment` valid
-        if (!validEnvNames.includes(targetEnv)) {
-          isValid = false;
-        }
+// HTTPS settings resolved from `params.https`
+export interface IHttpsSettings {
+  redirectHttp: boolean;
+  sslPolicy?: SslPolicy;
+  // Value of the `Strict-Transport-Security` header, the Keycloak default when undefined
+  strictTransportSecurity?: string;
+}
 
-        // Is each environment name defined in `params.environments` valid
-        envNames.forEach((value: EnvironmentName) => {
-          if (!validEnvNames.includes(value)) {
-            isValid = false;
-          }
-        });
+// Admin console settings resolved from `params.admin`
+export interface IAdminSettings {
+  access: AdminAccessMode;
+  allowList: string[];
+  domainName?: string;
+  paths: string[];
+}
 
-        // Are there any duplicate environment names in `params.environments`
-        if (envNames.length !== envNameUniqueLength) {
-          isValid = false;
-        }
+// WAF settings resolved from `params.waf`
+export interface IWafSettings {
+  enabled: boolean;
+  managedRuleGroups: Required<IManagedRuleGroupParameter>[];
+  rateLimits: IRateLimits;
+  allowList: string[];
+  denyList: string[];
+}
 
-        // Are there any duplicate environment accounts in `params.environments`
-        if (
-          envNameUniqueLength !==
-          Array.from(new Set(this.params.environments.map((obj: ICommonParameter) => obj.account))).length
-        ) {
-          isValid = false;
-        }
+// Blue/green deployment settings resolved from `params.blueGreen`
+export interface IBlueGreenSettings {
+  enabled: boolean;
+  deploymentConfig: codedeploy.IEcsDeploymentConfig;
+  testListenerPort: number;
+  testAllowList: string[];
+  terminationWaitTime: Duration;
+}
 
-        // Whether the environment name defined in `params.target.environment` is in `params.environments`
-        if (
-          envNames.filter((value: EnvironmentName) => {
-            return value === targetEnv;
-          }).length !== 1
-        ) {
-          isValid = false;
-        }
+// Upgrade settings of a container resolved from `params.upgrade`
+export interface IUpgradeSettings {
+  version: string;
+  snapshot: boolean;
+  allowDowngrade: boolean;
+  // SSM parameter holding the deployed Keycloak version
+  parameterName: string;
+}
 
-        return isValid;
+// cdk-nag settings resolved from `params.compliance`
+export interface IComplianceSettings extends IComplianceOptions {
+  enabled: boolean;
+}
+
+// Disaster recovery settings of the target environment
+export interface IDrSettings {
+  enabled: boolean;
+  region?: string;
+  healthCheck: {
+    path: string;
+    requestInterval: number;
+    failureThreshold: number;
+  };
+}
+
+// Clustering settings of a service resolved from `params.cache` and the target environment
+export interface ICacheSettings {
+  mode: CacheMode;
+  configFile: string;
+  ports: { port: number; description: string }[];
+  lockTimeout: number;
+  jdbcPingTableName: string;
+  schemaVersion: string;
+  caches: ICacheDefinitions;
+  // DNS_PING only
+  namespace?: string;
+  dnsQuery?: string;
+  // `remote` only
+  remote?: IRemoteCacheParameter & { port: number; tls: boolean };
+}
+
+// ECS, ALB and bastion settings resolved from the profile
+export interface IEcsSettings {
+  taskDefinition: {
+    cpu: number;
+    memoryLimitMiB: number;
+    command: string[];
+  };
+  service: {
+    nodeCount: number;
+    healthCheckGracePeriod: Duration;
+    containerHealthCheck: {
+      interval: Duration;
+      timeout: Duration;
+      retries: number;
+      startPeriod: Duration;
+    };
+    // Undefined with blue/green deployments or when disabled in the profile
+    circuitBreaker?: { rollback: boolean };
+    scaling: {
+      base: {
+        minCapacity: number;
+        maxCapacity: number;
+        cpuUtilization: number;
+        scaleOutCooldown: Duration;
+        scaleInCooldown: Duration;
       };
+      schedule: IEcsProfile["service"]["scaling"]["schedule"];
+    };
+  };
+  alb: {
+    healthyThresholdCount: number;
+    interval: Duration;
+    timeout: Duration;
+    slowStart: Duration;
+    stickinessCookieDuration: Duration;
+  };
+  bastion: {
+    enabled: boolean;
+    instanceType: string;
+  };
+}
 
-      if (!isValidEnvironment()) {
-        throw new Error(this.getConsoleMessage("Environment setting in 'cdk.json' not valid."));
-      }
-    } catch (e) {
-      throw e;
-    }
-  }
+// Where `Common` reads its configuration from
+export interface ICommonOptions {
+  // App whose context is read, `Common.of()` returns this instance for its constructs. When omitted, an App is created
+  // with the context of the CDK CLI.
+  app?: App;
+  // `params` used instead of the context, e.g. in tests
+  params?: object;
+}
 
-  // Get environment setting
-  public getEnvironment(environmentName?: EnvironmentName): ICommonParameter {
-    try {
-      const envName = environmentName ? environmentName : this.params.target.environment;
-      return this.params.environments.find((obj: ICommonParameter) => {
-        return obj.name === envName;
-      });
-    } catch (e) {
-      throw e;
+/**
+ * Self-created class to be called from all stacks
+ */
+
+export class Common {
+  // Instances by App, see `Common.of()`
+  private static readonly instances = new WeakMap<IConstruct, Common>();
+
+  private readonly app: App;
+  private readonly injectedParams?: object;
+  private readonly params: IConfigParameter;
+
+  constructor(options: ICommonOptions = {}) {
+    this.app = options.app ?? new App();
+    this.injectedParams = options.params;
+    this.params = this.loadConfig();
+    if (options.app) {
+      Common.instances.set(options.app, this);
     }
   }
 
-  // Get caller identity for verification
-  private async getCallerIdentity(): Promise<GetCallerIdentityCommandOutput> {
-    try {
-      const client = new STSClient({ region: this.getEnvironment().region });
-      return await client.send(new GetCallerIdentityCommand({}));
-    } catch (e) {
-      throw e;
-    }
+  // Instance for the App of the construct, the one created for it or else one reading its context
+  public static of(scope: IConstruct): Common {
+    const root = scope.node.root;
+    return Common.instances.get(root) ?? new Common({ app: App.isApp(root) ? root : undefined });
   }
 
-  // Verify if the caller account matches the account specified as the target of the CDK
-  public verifyCallerAccount(): void {
-    try {
-      const targetAccount = this.getEnvironment().account;
-      this.getCallerIdentity().then((obj) => {
-        if (obj.Account !== targetAccount) {
-          throw new Error(
-            this.getConsoleMessage(
-              `The caller account '${obj.Account}' does not match the account '${targetAccount}' specified as the target of the CDK.`
-            )
-          );
-        }
-      });
-    } catch (e) {
-      throw e;
-    }
+  // Loading `context.params` from 'cdk.json' unless injected, throws with every schema violation found.
+  // `-c targetEnvironment=<name>` replaces `params.target.environment`, e.g. for the deploy stages of the pipeline.
+  public loadConfig(): IConfigParameter {
+    const params = this.injectedParams ?? this.app.node.tryGetContext("params");
+    const targetEnvironment = this.app.node.tryGetContext("targetEnvironment");
+    return parseConfig(
+      targetEnvironment && params?.target
+        ? { ...params, target: { ...params.target, environment: targetEnvironment } }
+        : params
+    );
   }
 
-  // Get CodeCommit repository remote branche list
-  private async getCodeCommitRemoteBranches(): Promise<ListBranchesCommandOutput> {
-    try {
-      const client = new CodeCommitClient({ region: this.getEnvironment().region });
-      return await client.send(new ListBranchesCommand({ repositoryName: this.params.target.repository }));
-    } catch (e) {
-      throw e;
-    }
+  // Tag of the images the pipeline pushed to the container repositories, deployed with `-c imageTag=<tag>` instead
+  // of building them in each stack
+  public getImageTag(): string | undefined {
+    return this.app.node.tryGetContext("imageTag");
   }
 
-  // Verify the target branch exists in remote branches of the CodeCommit repository
-  public verifyBranch(): void {
+  // Get environment setting
+  public getEnvironment(environmentName?: EnvironmentName): IEnvironmentParameter {
     try {
-      this.getCodeCommitRemoteBranches().then((obj) => {
-        if (!obj.branches?.includes(this.params.target.branch)) {
-          throw new Error(
-            this.getConsoleMessage(
-              `Target branch does not exist in remote branches of the repository '${this.params.target.repository}'`
-            )
-          );
-        }
+      const envName = environmentName ? environmentName : this.params.target.environment;
+      const ret = this.params.environments.find((obj) => {
+        return obj.name === envName;
       });
+      if (!ret) {
+        throw new Error(this.getConsoleMessage(`Environment '${envName}' not found in 'cdk.json'`));
+      }
+      return ret;
     } catch (e) {
       throw e;
     }
   }
 
   // Get container setting
-  public getContainer(imageName: string): ICommonParameter {
+  public getContainer(imageName: string): IContainerParameter {
     try {
-      const ret = this.params.containers.find((obj: ICommonParameter) => {
+      const ret = this.params.containers.find((obj) => {
         return obj.name === imageName;
       });
       if (!ret) {
@@ -196,80 +359,56 @@ export class Common {
     );
   }
 
-  // Verify container setting and ECR repository exists
-  public verifyContainer(): void {
-    try {
-      const containerNames = this.params.containers.map((obj: ICommonParameter) => obj.name);
-      const containerNameUniqueLength = Array.from(new Set(containerNames)).length;
-
-      containerNames.map((imageName: string) => {
-        const config = this.getContainer(imageName);
-        let isValid = true;
-
-        const isValidConfig = () => {
-          // Is the environment name valid
-          if (!validEnvNames.includes(config.environment)) {
-            isValid = false;
-          }
-
-          // Is other parameters present
-          if (
-            !Object.keys(config.repositoryName).length ||
-            !Object.keys(config.imagePath).length ||
-            !Object.keys(config.version).length ||
-            !Object.keys(config.tag).length
-          ) {
-            isValid = false;
-          }
-
-          return isValid;
-        };
-        if (!isValidConfig()) {
-          throw new Error(this.getConsoleMessage(`Container settings '${imageName}' in 'cdk.json' not valid.`));
-        }
+  // Named variables of the image templates: user-defined `variables` in 'cdk.json', then the built-in ones
+  public getTemplateVariables(imageName: string): TemplateVariables {
+    const config = this.getContainer(imageName);
+    const db = this.getDatabaseParameter();
+    return {
+      ...config.variables,
+      ...Object.fromEntries(config.version.map((version, index) => [`VERSION_${index}`, version])),
+      KEYCLOAK_VERSION: config.version[0],
+      KC_DB: db.kcDb,
+      JDBC_PING_DRIVER: db.jdbcDriver,
+      JDBC_PING_DATA_TYPE: db.pingDataType,
+      THEMES: Boolean(config.themes?.length),
+      PROVIDERS: Boolean(config.providers?.length),
+      BUILD_OPTIONS: toDockerEnv(this.getKeycloakOptions().build),
+    };
+  }
 
-        // Does the template file exist
-        const templateFile = `${config.imagePath}/template`;
-        if (!existsSync(templateFile)) {
-          throw new Error(`Template file not found. Please check '${templateFile}' exists.`);
-        }
+  // Keycloak build options for the Dockerfile and runtime options for the container
+  public getKeycloakOptions(): IKeycloakOptions {
+    return resolveKeycloakOptions(this.params.keycloak);
+  }
 
-        // Check if the ECR repository exists
-        const repoEnv = this.getEnvironment(config.environment);
-        const getContainerRepositories = async (): Promise<DescribeRepositoriesCommandOutput> => {
-          const client = new ECRClient({ region: repoEnv.region });
-          return await client.send(new DescribeRepositoriesCommand({ registryId: repoEnv.Account }));
-        };
-        getContainerRepositories().then((obj) => {
-          if (
-            obj.repositories?.find((repo) => {
-              return repo.repositoryName === config.repositoryName;
-            }) === undefined
-          ) {
-            throw new Error(this.getConsoleMessage(`Container repository '${config.repositoryName}' not found.`));
-          }
-        });
-      });
+  // Path prefix of every Keycloak endpoint (`KC_HTTP_RELATIVE_PATH`) without trailing slash, "" for the root
+  public getHttpRelativePath(): string {
+    return (this.getKeycloakOptions().build.KC_HTTP_RELATIVE_PATH ?? "").replace(/\/+$/, "");
+  }
 
-      // Are there any duplicate container names in `params.containers`
-      if (containerNames.length !== containerNameUniqueLength) {
-        throw new Error(this.getConsoleMessage(`Container name duplicated in 'cdk.json'`));
-      }
-    } catch (e) {
-      throw e;
-    }
+  // Download Maven providers of the container, awaited before any stack is constructed
+  public async fetchProviders(imageName: string): Promise<void> {
+    await fetchProviders(this.getContainer(imageName));
   }
 
-  // Create Dockerfile with template and 'cdk.json' parameters
-  public createDockerfile(imageName: string): void {
+  // Assemble the image build context with themes and providers, render the Dockerfile and other templates into it and
+  // generate the cache configuration. The image directory in the source tree is left untouched. Returns the build
+  // context directory.
+  public createBuildContext(imageName: string): string {
     try {
       const config = this.getContainer(imageName);
-      const templateFile = `${config.imagePath}/template`;
-      let out = readFileSync(templateFile).toString();
-      config.version.forEach((element: string, index: number) => {
-        out = out.replaceAll(`\$\{VERSION_${index}\}`, element);
-      });
-      writeFileSync(`${config.imagePath}/Dockerfile`, out);
+      const outDirectory = assembleBuildContext(config);
+      renderTemplates(config.imagePath, outDirectory, this.getTemplateVariables(imageName));
+      const cacheConfigPath = join(outDirectory, this.getCacheParameter(imageName).configFile);
+      if (existsSync(cacheConfigPath)) {
+        throw new Error(
+          this.getConsoleMessage(
+            `'${config.imagePath}' provides '${cacheConfigFile}', which is generated from 'params.cache', remove it`
+          )
+        );
+      }
+      writeFileSync(cacheConfigPath, this.getCacheConfig(imageName));
+      return outDirectory;
     } catch (e) {
       throw e;
     }
@@ -345,6 +484,14 @@ export class Common {
     return `/${target.application}/${target.environment}/${target.branch}/${value}`;
   }
 
+  // Add prefix to the name of an account-wide resource, e.g. an IAM role, with the region of a DR stack appended
+  public getGlobalResourceName(scope: IConstruct, value: string): string {
+    const region = Stack.of(scope).region;
+    return region === this.getEnvironment().region
+      ? this.getResourceName(value)
+      : this.getResourceName(`${value}-${region}`);
+  }
+
   // Add prefix to console message
   public getConsoleMessage(value: string): string {
     return `[${this.params.target.application.toUpperCase()}] ${value}`;
@@ -373,21 +520,30 @@ export class Common {
     return this.isProductionOrStaging() ? Duration.days(30) : Duration.days(7);
   }
 
+  // Effective sizing profile: defaults for the target environment tier merged with its `overrides`
+  public getProfile(): IProfile {
+    const env = this.getEnvironment();
+    return resolveProfile(env.name, env.overrides);
+  }
+
+  // Effective configuration for review
+  public getEffectiveConfig(): IEffectiveConfig {
+    return {
+      target: this.params.target,
+      environment: this.getEnvironment(),
+      profile: this.getProfile(),
+    };
+  }
+
   // Default VPC settings
-  public getVpcParameter(): ICommonParameter {
-    return this.isProductionOrStaging()
-      ? {
-          ipAddresses: ec2.IpAddresses.cidr("10.0.0.0/16"),
-          natGateways: 2,
-          maxAzs: 2,
-          subnetCidrMask: 24,
-        }
-      : {
-          ipAddresses: ec2.IpAddresses.cidr("10.0.0.0/16"),
-          natGateways: 1,
-          maxAzs: 2,
-          subnetCidrMask: 24,
-        };
+  public getVpcParameter(): IVpcSettings {
+    const vpc = this.getProfile().vpc;
+    return {
+      ipAddresses: ec2.IpAddresses.cidr(vpc.cidr),
+      natGateways: vpc.natGateways,
+      maxAzs: vpc.maxAzs,
+      subnetCidrMask: vpc.subnetCidrMask,
+    };
   }
 
   // Default pipeline trigger
@@ -395,216 +551,361 @@ export class Common {
     return this.isProductionOrStaging() ? actions.CodeCommitTrigger.NONE : actions.CodeCommitTrigger.EVENTS;
   }
 
-  // Default S3 settings
-  public getS3Parameter(): ICommonParameter {
-    return this.isProductionOrStaging()
-      ? {
-          removalPolicy: RemovalPolicy.RETAIN,
-          autoDeleteObjects: false,
-          durationDays: Duration.days(90),
-        }
-      : {
-          removalPolicy: RemovalPolicy.DESTROY,
-          autoDeleteObjects: true,
-          durationDays: Duration.days(30),
-        };
+  // Pipeline settings, no pipeline when `params.pipeline` is omitted. `stg` and `prod` are deployed after approval.
+  public getPipelineParameter(): IPipelineSettings {
+    const pipeline = this.params.pipeline;
+    return {
+      enabled: pipeline?.enabled ?? false,
+      environments: (pipeline?.environments ?? this.params.environments.map((obj) => obj.name)).map((name) => ({
+        ...this.getEnvironment(name),
+        approval: name !== envs.Development,
+      })),
+    };
   }
 
-  // Default RDS settings (for mysql)
-  public getRdsParameter(): ICommonParameter {
-    return this.isProductionOrStaging()
+  // Default S3 settings
+  public getS3Parameter(): IS3Settings {
+    const s3Profile = this.getProfile().s3;
+    return {
+      removalPolicy: s3Profile.retain ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      autoDeleteObjects: s3Profile.autoDeleteObjects,
+      durationDays: Duration.days(s3Profile.expirationDays),
+    };
+  }
+
+  // Database engine settings
+  public getDatabaseParameter(): IDatabaseSettings {
+    return this.params.database?.engine === "postgres"
       ? {
-          deletionProtection: true,
-          backup: {
-            retentionDays: Duration.days(7),
-          },
-          monitoringInterval: Duration.minutes(1),
-          scaling: {
-            minCapacity: 2,
-            maxCapacity: 64,
+          kcDb: "postgres",
+          engine: rds.DatabaseClusterEngine.auroraPostgres({
+            version: rds.AuroraPostgresEngineVersion.VER_14_6,
+          }),
+          parameterGroupSuffix: "aurora-postgresql14",
+          clusterParameters: {
+            log_min_duration_statement: "1000",
           },
-          performanceInsightRetention: Duration.days(7),
-          secretRetentionDays: Duration.days(7),
+          port: 5432,
+          username: "postgres",
+          jdbcScheme: "postgresql",
+          jdbcDriver: "org.postgresql.Driver",
+          pingDataType: "BYTEA",
+          cloudwatchLogsExports: ["postgresql"],
+          rotationApplication: asm.SecretRotationApplication.POSTGRES_ROTATION_SINGLE_USER,
         }
       : {
-          deletionProtection: false,
-          backup: {
-            retentionDays: Duration.days(1),
+          kcDb: "mysql",
+          engine: rds.DatabaseClusterEngine.auroraMysql({
+            version: rds.AuroraMysqlEngineVersion.VER_3_02_0,
+          }),
+          parameterGroupSuffix: "aurora-mysql8",
+          clusterParameters: {
+            slow_query_log: "1",
           },
-          monitoringInterval: Duration.minutes(1),
-          scaling: {
-            minCapacity: 0.5,
-            maxCapacity: 2,
-          },
-          performanceInsightRetention: Duration.days(1),
-          secretRetentionDays: Duration.days(7),
+          port: 3306,
+          username: "admin",
+          jdbcScheme: "mysql",
+          jdbcDriver: "com.mysql.cj.jdbc.Driver",
+          pingDataType: "VARBINARY(255)",
+          cloudwatchLogsExports: ["error", "general", "slowquery", "audit"],
+          rotationApplication: asm.SecretRotationApplication.MYSQL_ROTATION_SINGLE_USER,
         };
   }
 
-  // Default ECS settings
-  public getEcsParameter(): ICommonParameter {
-    return this.isProductionOrStaging()
-      ? {
-          taskDefinition: {
-            cpu: 4096,
-            memoryLimitMiB: 8192,
-            command: ["start", "--optimized"],
-          },
-          service: {
-            nodeCount: 4,
-            healthCheckGracePeriod: Duration.minutes(5),
-            circuitBreaker: { rollback: true },
-            scaling: {
-              base: {
-                minCapacity: 2,
-                maxCapacity: 8,
-                cpuUtilization: 70,
-                scaleOutCoolDown: Duration.seconds(300),
-                scaleInCoolDown: Duration.seconds(300),
-              },
-              schedule: {
-                beforeOpening: {
-                  minCapacity: 4,
-                  maxCapacity: 24,
-                  cron: {
-                    minute: "30",
-                    hour: "23",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-                afterOpening: {
-                  minCapacity: 2,
-                  maxCapacity: 8,
-                  cron: {
-                    minute: "30",
-                    hour: "1",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-                beforeClosing: {
-                  minCapacity: 4,
-                  maxCapacity: 24,
-                  cron: {
-                    minute: "0",
-                    hour: "8",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-                afterClosing: {
-                  minCapacity: 2,
-                  maxCapacity: 4,
-                  cron: {
-                    minute: "0",
-                    hour: "10",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-              },
-            },
-          },
-          alb: {
-            healthyThresholdCount: 3,
-            interval: Duration.seconds(60),
-            timeout: Duration.seconds(30),
-            slowStart: Duration.seconds(60),
-            stickinessCookieDuration: Duration.days(1),
-          },
-          bastion: {
-            instanceType: "m5.large",
-          },
-        }
-      : {
-          taskDefinition: {
-            cpu: 1024,
-            memoryLimitMiB: 2048,
-            command: ["--verbose", "start"],
-          },
-          service: {
-            nodeCount: 1,
-            healthCheckGracePeriod: Duration.minutes(5),
-            circuitBreaker: undefined,
-            scaling: {
-              base: {
-                minCapacity: 1,
-                maxCapacity: 2,
-                cpuUtilization: 90,
-                scaleOutCoolDown: Duration.seconds(300),
-                scaleInCoolDown: Duration.seconds(300),
-              },
-              schedule: {
-                beforeOpening: {
-                  minCapacity: 2,
-                  maxCapacity: 4,
-                  cron: {
-                    minute: "30",
-                    hour: "23",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-                afterOpening: {
-                  minCapacity: 1,
-                  maxCapacity: 2,
-                  cron: {
-                    minute: "30",
-                    hour: "1",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-                beforeClosing: {
-                  minCapacity: 2,
-                  maxCapacity: 4,
-                  cron: {
-                    minute: "0",
-                    hour: "8",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-                afterClosing: {
-                  minCapacity: 1,
-                  maxCapacity: 2,
-                  cron: {
-                    minute: "0",
-                    hour: "10",
-                    weekDay: "MON-FRI",
-                    month: "*",
-                    year: "*",
-                  },
-                },
-              },
+  // Realms to provision, declared in 'cdk.json' and read from realm export files
+  public getRealmStates(): IRealmState[] {
+    const issues: string[] = [];
+    const realms = buildRealmStates(this.params.provisioning ?? {}, issues);
+    if (issues.length) {
+      throw new ConfigValidationError(issues);
+    }
+    const strictTransportSecurity = this.getHttpsParameter().strictTransportSecurity;
+    if (!strictTransportSecurity) {
+      return realms;
+    }
+    // Headers are updated one by one, the others keep their values
+    return realms.map((realm) => ({
+      ...realm,
+      attributes: {
+        ...realm.attributes,
+        browserSecurityHeaders: { ...realm.attributes.browserSecurityHeaders, strictTransportSecurity },
+      },
+    }));
+  }
+
+  // Provisioning settings
+  public getProvisioningParameter(): IProvisioningSettings {
+    return {
+      realms: this.getRealmStates(),
+      retainOnDelete: this.params.provisioning?.retainOnDelete ?? this.isProductionOrStaging(),
+    };
+  }
+
+  // Default RDS settings
+  public getRdsParameter(): IRdsSettings {
+    const rds = this.getProfile().rds;
+    return {
+      deletionProtection: rds.deletionProtection,
+      backup: {
+        retentionDays: Duration.days(rds.backupRetentionDays),
+      },
+      monitoringInterval: Duration.seconds(rds.monitoringIntervalSeconds),
+      scaling: {
+        minCapacity: rds.scaling.minCapacity,
+        maxCapacity: rds.scaling.maxCapacity,
+      },
+      performanceInsightRetention: Duration.days(rds.performanceInsightRetentionDays),
+      secretRetentionDays: Duration.days(rds.secretRotationDays),
+    };
+  }
+
+  // Alarm thresholds and notification target
+  public getMonitoringParameter(): IMonitoringSettings {
+    const monitoring = this.getProfile().monitoring;
+    return {
+      period: Duration.minutes(monitoring.periodMinutes),
+      evaluationPeriods: monitoring.evaluationPeriods,
+      thresholds: {
+        http5xxCount: monitoring.http5xxCount,
+        targetResponseTime: monitoring.targetResponseTimeSeconds,
+        ecsCpuUtilization: monitoring.ecsCpuUtilization,
+        ecsMemoryUtilization: monitoring.ecsMemoryUtilization,
+        rdsAcuUtilization: monitoring.rdsAcuUtilization,
+        rdsDeadlocks: monitoring.rdsDeadlocks,
+      },
+      notifications: this.getEnvironment().notifications ?? {},
+    };
+  }
+
+  // Metrics collector sidecar settings
+  public getMetricsParameter(): IMetricsSettings {
+    const metrics = this.params.metrics;
+    return {
+      enabled: metrics?.enabled ?? false,
+      namespace: metrics?.namespace ?? "Keycloak",
+      scrapeInterval: metrics?.scrapeIntervalSeconds ?? 60,
+      allowList: metrics?.allowList ?? [...defaultAllowList],
+      image: metrics?.image ?? defaultCollectorImage,
+    };
+  }
+
+  // Listeners of the ALB and the `Strict-Transport-Security` header of the provisioned realms
+  public getHttpsParameter(): IHttpsSettings {
+    const https = this.params.https;
+    const hsts = https?.hsts;
+    return {
+      redirectHttp: https?.redirectHttp ?? false,
+      sslPolicy: https?.sslPolicy,
+      strictTransportSecurity: hsts
+        ? [
+            `max-age=${hsts.maxAgeSeconds}`,
+            ...(hsts.includeSubDomains ? ["includeSubDomains"] : []),
+            ...(hsts.preload ? ["preload"] : []),
+          ].join("; ")
+        : undefined,
+    };
+  }
+
+  // Admin console access, `public` when `params.admin` is omitted
+  public getAdminParameter(): IAdminSettings {
+    const access = this.params.admin?.access ?? "public";
+    return {
+      access: access,
+      allowList: this.params.admin?.allowList ?? [],
+      // Host name of the internal ALB, also `KC_HOSTNAME_ADMIN`
+      domainName: access === "internal" ? `admin.${this.getDomain()}` : undefined,
+      // Admin console, Admin REST API and the master realm
+      paths: [`${this.getHttpRelativePath()}/admin/*`, `${this.getHttpRelativePath()}/realms/master/*`],
+    };
+  }
+
+  // WAF settings, disabled when `params.waf` is omitted
+  public getWafParameter(): IWafSettings {
+    const waf = this.params.waf;
+    return {
+      enabled: waf?.enabled ?? false,
+      managedRuleGroups: (waf?.managedRuleGroups ?? defaultManagedRuleGroups).map((group) => ({
+        name: group.name,
+        vendor: group.vendor ?? "AWS",
+        countRules: group.countRules ?? [],
+      })),
+      rateLimits: { ...defaultRateLimits, ...waf?.rateLimits },
+      allowList: waf?.allowList ?? [],
+      denyList: waf?.denyList ?? [],
+    };
+  }
+
+  // Blue/green deployments through CodeDeploy, rolling updates when `params.blueGreen` is omitted
+  public getBlueGreenParameter(): IBlueGreenSettings {
+    const blueGreen = this.params.blueGreen;
+    return {
+      enabled: blueGreen?.enabled ?? false,
+      deploymentConfig: {
+        AllAtOnce: codedeploy.EcsDeploymentConfig.ALL_AT_ONCE,
+        Canary10Percent5Minutes: codedeploy.EcsDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+        Canary10Percent15Minutes: codedeploy.EcsDeploymentConfig.CANARY_10PERCENT_15MINUTES,
+        Linear10PercentEvery1Minutes: codedeploy.EcsDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTES,
+        Linear10PercentEvery3Minutes: codedeploy.EcsDeploymentConfig.LINEAR_10PERCENT_EVERY_3MINUTES,
+      }[blueGreen?.deploymentConfig ?? "AllAtOnce"],
+      testListenerPort: blueGreen?.testListenerPort ?? 8443,
+      testAllowList: blueGreen?.testAllowList ?? [],
+      terminationWaitTime: Duration.minutes(blueGreen?.terminationWaitMinutes ?? 60),
+    };
+  }
+
+  // Upgrade safeguards of the container, the Keycloak version is the first of `version`
+  public getUpgradeParameter(imageName: string): IUpgradeSettings {
+    const upgrade = this.params.upgrade;
+    const container = this.getContainer(imageName);
+    return {
+      version: container.version[0],
+      snapshot: upgrade?.snapshot ?? true,
+      allowDowngrade: upgrade?.allowDowngrade ?? false,
+      parameterName: this.getResourceNamePath(`${imageName}/version`),
+    };
+  }
+
+  // cdk-nag settings, no checks when `params.compliance` is omitted. Only `prod` fails on unsuppressed errors by default.
+  public getComplianceParameter(): IComplianceSettings {
+    const compliance = this.params.compliance;
+    return {
+      enabled: compliance?.enabled ?? false,
+      packs: compliance?.packs ?? [...compliancePacks],
+      failOnError: compliance?.failOnError ?? this.isProduction(),
+      reports: true,
+    };
+  }
+
+  // Disaster recovery in `drRegion`, none when omitted. The standby stacks follow the primary ones until a failover.
+  public getDrParameter(): IDrSettings {
+    const drRegion = this.getEnvironment().drRegion;
+    return {
+      enabled: drRegion !== undefined,
+      region: drRegion,
+      // Route 53 health check of the primary ALB, failing over the records after 3 failed checks 30 seconds apart
+      healthCheck: {
+        path: `${this.getHttpRelativePath()}/health/ready`,
+        requestInterval: 30,
+        failureThreshold: 3,
+      },
+    };
+  }
+
+  // Infinispan clustering of the service, JDBC_PING when `params.cache` is omitted. The cache settings of the target
+  // environment are merged over `params.cache`, the caches over the ones of the schema of its Keycloak version.
+  public getCacheParameter(serviceName: string): ICacheSettings {
+    const cache = deepMerge(this.params.cache ?? ({} as ICacheParameter), this.getEnvironment().cache);
+    const keycloakVersion = this.getContainer(serviceName).version[0];
+    const schemaVersion = infinispanSchemaVersion(keycloakVersion);
+    if (!schemaVersion) {
+      throw new Error(this.getConsoleMessage(`Keycloak '${keycloakVersion}' has no known Infinispan schema`));
+    }
+    const mode = cache.mode ?? "jdbc-ping";
+    // Private DNS namespace of the ECS cluster, the tasks are registered as `<service name>.<namespace>`
+    const namespace = `${this.getResourceName(serviceName)}.local`.toLowerCase();
+    return {
+      mode: mode,
+      configFile: cacheConfigFile,
+      // Ports the tasks reach each other on
+      ports: jgroupsPorts.map((obj) => ({ ...obj })),
+      lockTimeout: cache.lockTimeout ?? 60000,
+      jdbcPingTableName: cache.jdbcPingTableName ?? defaultJdbcPingTableName,
+      schemaVersion: schemaVersion,
+      caches: resolveCaches(cache, schemaVersion),
+      namespace: mode === "dns-ping" ? namespace : undefined,
+      dnsQuery: mode === "dns-ping" ? `${serviceName}.${namespace}` : undefined,
+      remote:
+        mode === "remote"
+          ? {
+              ...cache.remote!,
+              port: cache.remote!.port ?? defaultRemoteCachePort,
+              tls: cache.remote!.tls ?? true,
+            }
+          : undefined,
+    };
+  }
+
+  // Infinispan configuration of the container, in the schema version of its Keycloak version
+  public getCacheConfig(imageName: string): string {
+    const cache = this.getCacheParameter(imageName);
+    const db = this.getDatabaseParameter();
+    return renderCacheConfig({
+      schemaVersion: cache.schemaVersion,
+      lockTimeout: cache.lockTimeout,
+      discovery:
+        cache.mode === "dns-ping"
+          ? { protocol: "DNS_PING", query: cache.dnsQuery! }
+          : {
+              protocol: "JDBC_PING",
+              driver: db.jdbcDriver,
+              tableName: cache.jdbcPingTableName,
+              dataType: db.pingDataType,
             },
+      caches: cache.caches,
+      remote: cache.remote && {
+        host: cache.remote.host,
+        port: cache.remote.port,
+        tls: cache.remote.tls,
+        authentication: cache.remote.secretArn !== undefined,
+      },
+      statistics: this.getMetricsParameter().enabled,
+    });
+  }
+
+  // Default ECS settings
+  public getEcsParameter(): IEcsSettings {
+    const ecs = this.getProfile().ecs;
+    const base = ecs.service.scaling.base;
+    return {
+      taskDefinition: {
+        cpu: ecs.taskDefinition.cpu,
+        memoryLimitMiB: ecs.taskDefinition.memoryLimitMiB,
+        command: ecs.taskDefinition.command,
+      },
+      service: {
+        nodeCount: ecs.service.nodeCount,
+        healthCheckGracePeriod: Duration.seconds(ecs.service.healthCheckGracePeriodSeconds),
+        containerHealthCheck: {
+          interval: Duration.seconds(ecs.service.containerHealthCheck.intervalSeconds),
+          timeout: Duration.seconds(ecs.service.containerHealthCheck.timeoutSeconds),
+          retries: ecs.service.containerHealthCheck.retries,
+          startPeriod: Duration.seconds(ecs.service.containerHealthCheck.startPeriodSeconds),
+        },
+        // The circuit breaker requires the ECS deployment controller, CodeDeploy rolls back blue/green deployments
+        circuitBreaker:
+          ecs.service.circuitBreaker.enabled && !this.getBlueGreenParameter().enabled
+            ? { rollback: ecs.service.circuitBreaker.rollback }
+            : undefined,
+        scaling: {
+          base: {
+            minCapacity: base.minCapacity,
+            maxCapacity: base.maxCapacity,
+            cpuUtilization: base.cpuUtilization,
+            scaleOutCooldown: Duration.seconds(base.scaleOutCooldownSeconds),
+            scaleInCooldown: Duration.seconds(base.scaleInCooldownSeconds),
           },
-          alb: {
-            healthyThresholdCount: 3,
-            interval: Duration.seconds(60),
-            timeout: Duration.seconds(30),
-            slowStart: Duration.seconds(60),
-            stickinessCookieDuration: Duration.days(1),
-          },
-          bastion: {
-            instanceType: "t3.micro",
-          },
-        };
+          schedule: ecs.service.scaling.schedule,
+        },
+      },
+      alb: {
+        healthyThresholdCount: ecs.alb.healthyThresholdCount,
+        interval: Duration.seconds(ecs.alb.intervalSeconds),
+        timeout: Duration.seconds(ecs.alb.timeoutSeconds),
+        slowStart: Duration.seconds(ecs.alb.slowStartSeconds),
+        stickinessCookieDuration: Duration.days(ecs.alb.stickinessCookieDurationDays),
+      },
+      bastion: {
+        enabled: ecs.bastion.enabled,
+        instanceType: ecs.bastion.instanceType,
+      },
+    };
   }
 
   // Tagging all resources
   public addTags(scope: Construct): void {
     const target = this.params.target;
-    Object.entries(target).map((param: ICommonParameter): void => {
-      Tags.of(scope).add(this.capitalizeString(param[0]), param[1]);
+    Object.entries(target).forEach(([key, value]) => {
+      Tags.of(scope).add(this.capitalizeString(key), value);
     });
   }
 
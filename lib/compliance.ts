@@ -0,0 +1,217 @@
+import { Aspects, CfnResource, IAspect, Stack, aws_ec2 as ec2, aws_ecs as ecs, aws_iam as iam } from "aws-cdk-lib";
+import {
+  AwsSolutionsChecks,
+  HIPAASecurityChecks,
+  IApplyRule,
+  NagMessageLevel,
+  NagPack,
+  NagPackProps,
+  NagPackSuppression,
+  NagRuleCompliance,
+  NagRuleResult,
+  NagSuppressions,
+} from "cdk-nag";
+import { IConstruct } from "constructs";
+import type { ConfigSchema } from "./config";
+
+/**
+ * Types
+ */
+
+// cdk-nag rule packs selectable in `params.compliance.packs`
+export const compliancePacks = ["AwsSolutions", "HIPAA.Security"] as const;
+
+export type CompliancePack = (typeof compliancePacks)[number];
+
+// `params.compliance`: cdk-nag rule packs checking the synthesized templates, none when omitted
+export interface IComplianceParameter {
+  enabled: boolean;
+  // Rule packs besides the project rules (`Keycloak`), every one in `compliancePacks` when omitted
+  packs?: CompliancePack[];
+  // Fail the synthesis on unsuppressed errors, only in `prod` when omitted. Errors are reported as warnings otherwise.
+  failOnError?: boolean;
+}
+
+// Settings the packs are applied with
+export interface IComplianceOptions {
+  packs: CompliancePack[];
+  failOnError: boolean;
+  // Write `<pack>-<stack>-NagReport.csv` to the cloud assembly
+  reports: boolean;
+}
+
+// Ports of the database engines, see `databaseEngines`
+const databasePorts = [3306, 5432];
+
+// Findings accepted in every stack, the others are suppressed on the resources they are found on
+const stackSuppressions: NagPackSuppression[] = [
+  {
+    id: "HIPAA.Security-IAMNoInlinePolicy",
+    reason:
+      "Grants of aws-cdk-lib are inline policies of the role they are granted to, scoped to the granted resources",
+  },
+  {
+    id: "AwsSolutions-IAM4",
+    reason: "Lambda functions write their logs with the AWS managed basic execution role",
+    appliesTo: ["Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole"],
+  },
+  {
+    id: "AwsSolutions-IAM4",
+    reason: "Lambda functions attach to the VPC with the AWS managed VPC access execution role",
+    appliesTo: ["Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole"],
+  },
+];
+
+// Findings on the functions of a custom resource provider, invoked by CloudFormation during deployments only
+export const customResourceSuppressions: NagPackSuppression[] = [
+  {
+    id: "AwsSolutions-IAM5",
+    reason: "The provider framework invokes the current version of its handler functions",
+    appliesTo: [{ regex: "/^Resource::<.*\\.Arn>:\\*$/g" }],
+  },
+  { id: "AwsSolutions-L1", reason: "The runtime of the provider framework functions is chosen by aws-cdk-lib" },
+  { id: "HIPAA.Security-LambdaDLQ", reason: "Invoked synchronously, failures are reported to CloudFormation" },
+  { id: "HIPAA.Security-LambdaConcurrency", reason: "Invoked once per resource and deployment" },
+  {
+    id: "HIPAA.Security-LambdaInsideVPC",
+    reason: "Calls AWS APIs and other functions only, functions reaching into the VPC are attached to it",
+  },
+];
+
+/**
+ * Schema definition
+ */
+
+export const complianceSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    enabled: { type: "boolean" },
+    packs: { type: "array", minItems: 1, items: { type: "string", enum: compliancePacks } },
+    failOnError: { type: "boolean" },
+  },
+  optional: ["packs", "failOnError"],
+};
+
+/**
+ * Functions
+ */
+
+// Project rules on the resources of this app
+export class KeycloakChecks extends NagPack {
+  constructor(props?: NagPackProps) {
+    super(props);
+    this.packName = "Keycloak";
+  }
+
+  public visit(node: IConstruct): void {
+    if (!(node instanceof CfnResource)) {
+      return;
+    }
+    this.applyRule({
+      ruleSuffixOverride: "DB1",
+      info: "The database port is open to a CIDR range.",
+      explanation:
+        "Clients of the database are allowed by their security group, so that nothing else in the VPC reaches it.",
+      level: NagMessageLevel.ERROR,
+      rule: databaseIngressBySecurityGroup,
+      node: node,
+    });
+    this.applyRule({
+      ruleSuffixOverride: "IAM1",
+      info: "The IAM role can be assumed by 'ecs.amazonaws.com'.",
+      explanation:
+        "ECS uses its service-linked role. Task and task execution roles trust 'ecs-tasks.amazonaws.com' only.",
+      level: NagMessageLevel.ERROR,
+      rule: noEcsServiceTrust,
+      node: node,
+    });
+    this.applyRule({
+      ruleSuffixOverride: "ECS1",
+      info: "A container environment variable looks like a credential.",
+      explanation:
+        "Passwords, secrets and keys are passed as `secrets` from Secrets Manager, not in the task definition.",
+      level: NagMessageLevel.ERROR,
+      rule: noCredentialInEnvironment,
+      node: node,
+    });
+  }
+}
+
+// Ingress rules to a database port name a source security group
+function databaseIngressBySecurityGroup(node: CfnResource): NagRuleResult {
+  const stack = Stack.of(node);
+  const rules: ec2.CfnSecurityGroup.IngressProperty[] =
+    node instanceof ec2.CfnSecurityGroup
+      ? stack.resolve(node.securityGroupIngress) ?? []
+      : node instanceof ec2.CfnSecurityGroupIngress
+      ? [node]
+      : [];
+  if (!rules.length) {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+  const open = rules.some((rule) => {
+    const [from, to] = [stack.resolve(rule.fromPort), stack.resolve(rule.toPort)];
+    // Every protocol ("-1") opens every port, its ports are -1 or left out
+    const allPorts = stack.resolve(rule.ipProtocol) === "-1";
+    return (
+      (rule.cidrIp ?? rule.cidrIpv6) !== undefined &&
+      (allPorts || databasePorts.some((port) => typeof from === "number" && from <= port && port <= to))
+    );
+  });
+  return open ? NagRuleCompliance.NON_COMPLIANT : NagRuleCompliance.COMPLIANT;
+}
+
+// Trust policies do not name the ECS service principal
+function noEcsServiceTrust(node: CfnResource): NagRuleResult {
+  if (!(node instanceof iam.CfnRole)) {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+  const document = JSON.stringify(Stack.of(node).resolve(node.assumeRolePolicyDocument));
+  return document.includes('"ecs.amazonaws.com"') ? NagRuleCompliance.NON_COMPLIANT : NagRuleCompliance.COMPLIANT;
+}
+
+// Environment variable names of containers do not look like credentials
+function noCredentialInEnvironment(node: CfnResource): NagRuleResult {
+  if (!(node instanceof ecs.CfnTaskDefinition)) {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+  const containers: ecs.CfnTaskDefinition.ContainerDefinitionProperty[] =
+    Stack.of(node).resolve(node.containerDefinitions) ?? [];
+  const names = containers.flatMap((container) =>
+    ((container.environment ?? []) as ecs.CfnTaskDefinition.KeyValuePairProperty[]).map(
+      (variable) => variable.name ?? ""
+    )
+  );
+  return names.some((name) => /PASSWORD|SECRET|(ACCESS|PRIVATE)_KEY/i.test(name))
+    ? NagRuleCompliance.NON_COMPLIANT
+    : NagRuleCompliance.COMPLIANT;
+}
+
+// Rule pack classes created by `applyCompliance()`
+type NagPackClass = new (props?: NagPackProps) => IAspect & NagPack;
+
+// Rule pack reporting its errors as warnings, so that the synthesis continues
+function reportingWarnings(Pack: NagPackClass): NagPackClass {
+  return class extends Pack {
+    protected applyRule(params: IApplyRule): void {
+      super.applyRule({ ...params, level: NagMessageLevel.WARN });
+    }
+  };
+}
+
+// Run the project rules and the selected packs on every resource in the scope when it is synthesized.
+// Call it after the stacks are created, the findings accepted in every stack are suppressed on them.
+export function applyCompliance(scope: IConstruct, options: IComplianceOptions): void {
+  scope.node
+    .findAll()
+    .filter((construct): construct is Stack => Stack.isStack(construct))
+    .forEach((stack) => NagSuppressions.addStackSuppressions(stack, stackSuppressions));
+  const props: NagPackProps = { verbose: true, reports: options.reports };
+  const packs = [
+    KeycloakChecks,
+    ...options.packs.map((pack) => ({ AwsSolutions: AwsSolutionsChecks, "HIPAA.Security": HIPAASecurityChecks }[pack])),
+  ];
+  packs.forEach((Pack) => {
+    Aspects.of(scope).add(new (options.failOnError ? Pack : reportingWarnings(Pack))(props));
+  });
+}
@@ -0,0 +1,708 @@
+import { SslPolicy } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { validateContainerAssets } from "./build-context";
+import { ICacheParameter, cacheSchema, infinispanSchemaVersion, validateCache, validateKeycloakVersion } from "./cache";
+import { IComplianceParameter, complianceSchema } from "./compliance";
+import { IKeycloakParameter, keycloakSchema, validateKeycloakOptions } from "./keycloak-options";
+import { IMetricsParameter, metricsSchema, validateMetrics } from "./metrics";
+import {
+  DeepPartial,
+  ProfileOverrides,
+  deepMerge,
+  partialSchema,
+  profileOverridesSchema,
+  resolveProfile,
+  validateProfile,
+} from "./profile";
+import { IProvisioningParameter, provisioningSchema } from "./provisioning";
+import { IWafParameter, cidrListSchema, cidrPattern, isCidr, validateWaf, wafSchema } from "./waf";
+
+// Environment name definition
+export const envs = {
+  Development: "dev",
+  Staging: "stg",
+  Production: "prod",
+} as const;
+
+// Environment name type
+export type EnvironmentName = (typeof envs)[keyof typeof envs];
+
+// Valid Environment name list
+export const validEnvNames: readonly string[] = Object.values(envs);
+
+// `params.target`: what is being deployed
+export interface ITargetParameter {
+  application: string;
+  environment: EnvironmentName;
+  owner?: string;
+  repository: string;
+  branch: string;
+}
+
+// `params.environments[]`: where each environment is deployed
+export interface IEnvironmentParameter {
+  name: EnvironmentName;
+  account: string;
+  region: string;
+  domain: string;
+  // Region of the standby stacks for disaster recovery, e.g. `ap-northeast-3`, none when omitted
+  drRegion?: string;
+  overrides?: ProfileOverrides;
+  existingVpc?: IExistingVpcParameter;
+  existingDatabase?: IExistingDatabaseParameter;
+  notifications?: INotificationParameter;
+  // Cache settings of the environment, deep-merged over `params.cache`
+  cache?: DeepPartial<ICacheParameter>;
+}
+
+// `params.environments[].notifications`: SNS topic the alarms are sent to
+export interface INotificationParameter {
+  // Existing topic, e.g. one subscribed by chat or paging tools. A topic is created when omitted.
+  topicArn?: string;
+  // Email addresses subscribed to the created topic
+  emails?: string[];
+}
+
+// `params.environments[].existingVpc`: shared VPC imported instead of creating one
+export interface IExistingVpcParameter {
+  // Either the VPC ID or the name of an SSM parameter holding it
+  vpcId?: string;
+  vpcIdParameterName?: string;
+  // Subnet groups (`aws-cdk:subnet-name` tag) for the load balancer and for ECS and the database,
+  // public and private subnets with egress when omitted
+  publicSubnetGroupName?: string;
+  privateSubnetGroupName?: string;
+  // Public addresses of the NAT gateways of the private subnets, allowed on the admin console and the test listener
+  // besides `allowList` and `testAllowList`. Required with admin access `allowList` and blue/green deployments.
+  natPublicIps?: string[];
+}
+
+// `params.environments[].existingDatabase`: database used instead of creating an Aurora cluster
+export interface IExistingDatabaseParameter {
+  hostname: string;
+  // Default port of `params.database.engine` when omitted
+  port?: number;
+  // `keycloak` when omitted
+  databaseName?: string;
+  // Secrets Manager secret holding `username` and `password`
+  secretArn: string;
+  // Security group of the database allowed to be reached from ECS and the bastion host, not wired when omitted
+  securityGroupId?: string;
+}
+
+// `params.containers[]`: container images built and pushed by the stacks
+export interface IContainerParameter {
+  name: string;
+  environment: EnvironmentName;
+  repositoryName: string;
+  imagePath: string;
+  version: string[];
+  tag: string;
+  // Theme directories copied to `/opt/keycloak/themes/<directory name>`
+  themes?: string[];
+  providers?: IProviderParameter[];
+  // Named variables of the image templates, e.g. `{ "JAVA_OPTS_APPEND": "-XX:MaxRAMPercentage=70" }` for `${JAVA_OPTS_APPEND}`
+  variables?: { [name: string]: string };
+  // Docker build args, referenced in the template as `ARG NAME` and `$${NAME}`
+  buildArgs?: { [name: string]: string };
+}
+
+// `params.containers[].providers[]`: provider (SPI) JAR copied to `/opt/keycloak/providers` before `kc.sh build`
+export interface IProviderParameter {
+  // Either a local JAR or Maven coordinates `groupId:artifactId:version`
+  path?: string;
+  maven?: string;
+  // Maven repository, Maven Central when omitted
+  repository?: string;
+  // SHA-256 of the JAR, required for Maven artifacts
+  sha256?: string;
+}
+
+// Template variables set by `Common.getTemplateVariables()`, together with `VERSION_<n>`
+export const builtinTemplateVariables: readonly string[] = [
+  "KEYCLOAK_VERSION",
+  "KC_DB",
+  "JDBC_PING_DRIVER",
+  "JDBC_PING_DATA_TYPE",
+  "THEMES",
+  "PROVIDERS",
+  "BUILD_OPTIONS",
+];
+
+// Database engines supported for Keycloak
+export const databaseEngines = ["mysql", "postgres"] as const;
+
+// Database engine type
+export type DatabaseEngineName = (typeof databaseEngines)[number];
+
+// `params.database`: Keycloak database, Aurora MySQL when omitted
+export interface IDatabaseParameter {
+  engine: DatabaseEngineName;
+}
+
+// Ways to reach the admin console
+export const adminAccessModes = ["public", "internal", "allowList"] as const;
+
+// Admin console access type
+export type AdminAccessMode = (typeof adminAccessModes)[number];
+
+// `params.admin`: where the admin console (`/admin`, `/realms/master`) is reachable, `public` when omitted
+export interface IAdminParameter {
+  // `public`: through the internet-facing ALB, `internal`: through an internal ALB at `admin.<domain>` only,
+  // `allowList`: through the internet-facing ALB from `allowList` only
+  access: AdminAccessMode;
+  // CIDR ranges allowed to reach the admin console, e.g. the VPN
+  allowList?: string[];
+}
+
+// `params.https`: listeners of the internet-facing ALB and HSTS of the provisioned realms
+export interface IHttpsParameter {
+  // Port 80 listener redirecting to HTTPS, requests to port 80 time out when omitted
+  redirectHttp?: boolean;
+  // Security policy of the HTTPS listeners, e.g. `ELBSecurityPolicy-TLS13-1-2-2021-06`, the ALB default when omitted
+  sslPolicy?: SslPolicy;
+  // `Strict-Transport-Security` header of the provisioned realms, the Keycloak default when omitted
+  hsts?: IHstsParameter;
+}
+
+// `params.https.hsts`: HSTS directives
+export interface IHstsParameter {
+  maxAgeSeconds: number;
+  includeSubDomains?: boolean;
+  // Requires `includeSubDomains` and a `maxAgeSeconds` of a year or more
+  preload?: boolean;
+}
+
+// CodeDeploy traffic shifting of the ECS service, `CodeDeployDefault.ECS<name>`
+export const blueGreenDeploymentConfigs = [
+  "AllAtOnce",
+  "Canary10Percent5Minutes",
+  "Canary10Percent15Minutes",
+  "Linear10PercentEvery1Minutes",
+  "Linear10PercentEvery3Minutes",
+] as const;
+
+// Traffic shifting type
+export type BlueGreenDeploymentConfig = (typeof blueGreenDeploymentConfigs)[number];
+
+// `params.blueGreen`: CodeDeploy blue/green deployments of the ECS service, rolling updates when omitted
+export interface IBlueGreenParameter {
+  enabled: boolean;
+  // `AllAtOnce` when omitted
+  deploymentConfig?: BlueGreenDeploymentConfig;
+  // Port of the HTTPS test listener serving the replacement tasks, 8443 when omitted
+  testListenerPort?: number;
+  // CIDR ranges allowed on the test listener besides the NAT gateways, e.g. the VPN
+  testAllowList?: string[];
+  // Minutes the original tasks are kept after the traffic is shifted, for a rollback, 60 when omitted
+  terminationWaitMinutes?: number;
+}
+
+// `params.pipeline`: CodePipeline deploying `params.target.branch` to the environments in order, none when omitted
+export interface IPipelineParameter {
+  enabled: boolean;
+  // Environments deployed one after the other, every one in `params.environments` in their order when omitted
+  environments?: EnvironmentName[];
+}
+
+// `params.upgrade`: safeguards of Keycloak version changes (`containers[].version[0]`), both on when omitted
+export interface IUpgradeParameter {
+  // Manual snapshot of the Aurora cluster before a new version is rolled out, true when omitted
+  snapshot?: boolean;
+  // Accept a lower version, e.g. after the cluster is restored from the snapshot, false when omitted
+  allowDowngrade?: boolean;
+}
+
+// `params` in 'cdk.json'
+export interface IConfigParameter {
+  target: ITargetParameter;
+  environments: IEnvironmentParameter[];
+  containers: IContainerParameter[];
+  database?: IDatabaseParameter;
+  provisioning?: IProvisioningParameter;
+  keycloak?: IKeycloakParameter;
+  metrics?: IMetricsParameter;
+  waf?: IWafParameter;
+  admin?: IAdminParameter;
+  https?: IHttpsParameter;
+  blueGreen?: IBlueGreenParameter;
+  pipeline?: IPipelineParameter;
+  upgrade?: IUpgradeParameter;
+  compliance?: IComplianceParameter;
+  cache?: ICacheParameter;
+}
+
+/**
+ * Schema definition
+ */
+
+// Schema node describing the expected shape of a configuration value
+export type ConfigSchema =
+  | { type: "string"; pattern?: RegExp; enum?: readonly string[] }
+  | { type: "number"; integer?: boolean; min?: number; max?: number; enum?: readonly number[] }
+  | { type: "boolean" }
+  | { type: "array"; items: ConfigSchema; minItems?: number; unique?: string[] }
+  | { type: "map"; values: ConfigSchema }
+  | { type: "object"; properties: { [key: string]: ConfigSchema }; optional?: string[] };
+
+const nameSchema: ConfigSchema = { type: "string", pattern: /^[a-z][a-z0-9-]*$/ };
+const envNameSchema: ConfigSchema = { type: "string", enum: validEnvNames };
+
+export const configSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    target: {
+      type: "object",
+      properties: {
+        application: nameSchema,
+        environment: envNameSchema,
+        owner: { type: "string" },
+        repository: { type: "string", pattern: /^[\w.-]+$/ },
+        branch: { type: "string", pattern: /^[A-Za-z0-9-]+$/ },
+      },
+      optional: ["owner"],
+    },
+    environments: {
+      type: "array",
+      minItems: 1,
+      unique: ["name", "account"],
+      items: {
+        type: "object",
+        properties: {
+          name: envNameSchema,
+          account: { type: "string", pattern: /^\d{12}$/ },
+          region: { type: "string", pattern: /^[a-z]{2}(-[a-z]+)+-\d$/ },
+          domain: { type: "string", pattern: /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/ },
+          drRegion: { type: "string", pattern: /^[a-z]{2}(-[a-z]+)+-\d$/ },
+          overrides: profileOverridesSchema,
+          existingVpc: {
+            type: "object",
+            properties: {
+              vpcId: { type: "string", pattern: /^vpc-[0-9a-f]+$/ },
+              vpcIdParameterName: { type: "string", pattern: /^\/?[\w.\/-]+$/ },
+              publicSubnetGroupName: { type: "string", pattern: /\S/ },
+              privateSubnetGroupName: { type: "string", pattern: /\S/ },
+              natPublicIps: {
+                type: "array",
+                minItems: 1,
+                items: { type: "string", pattern: /^(\d{1,3}\.){3}\d{1,3}$/ },
+              },
+            },
+            optional: [
+              "vpcId",
+              "vpcIdParameterName",
+              "publicSubnetGroupName",
+              "privateSubnetGroupName",
+              "natPublicIps",
+            ],
+          },
+          existingDatabase: {
+            type: "object",
+            properties: {
+              hostname: { type: "string", pattern: /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$/ },
+              port: { type: "number", integer: true, min: 1, max: 65535 },
+              databaseName: { type: "string", pattern: /^[A-Za-z_][\w$]*$/ },
+              secretArn: {
+                type: "string",
+                pattern: /^arn:aws[\w-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:.+-[A-Za-z0-9]{6}$/,
+              },
+              securityGroupId: { type: "string", pattern: /^sg-[0-9a-f]+$/ },
+            },
+            optional: ["port", "databaseName", "securityGroupId"],
+          },
+          notifications: {
+            type: "object",
+            properties: {
+              topicArn: { type: "string", pattern: /^arn:aws[\w-]*:sns:[a-z0-9-]+:\d{12}:[\w-]+$/ },
+              emails: { type: "array", items: { type: "string", pattern: /^[^@\s]+@[^@\s]+\.[^@\s]+$/ } },
+            },
+            optional: ["topicArn", "emails"],
+          },
+          cache: partialSchema(cacheSchema),
+        },
+        optional: ["drRegion", "overrides", "existingVpc", "existingDatabase", "notifications", "cache"],
+      },
+    },
+    containers: {
+      type: "array",
+      minItems: 1,
+      unique: ["name"],
+      items: {
+        type: "object",
+        properties: {
+          name: nameSchema,
+          environment: envNameSchema,
+          repositoryName: { type: "string", pattern: /^[a-z0-9][a-z0-9._\/-]*$/ },
+          imagePath: { type: "string", pattern: /\S/ },
+          version: { type: "array", minItems: 1, items: { type: "string", pattern: /\S/ } },
+          tag: { type: "string", pattern: /^[\w][\w.-]{0,127}$/ },
+          themes: { type: "array", items: { type: "string", pattern: /\S/ } },
+          providers: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                path: { type: "string", pattern: /\.jar$/ },
+                maven: { type: "string", pattern: /^[\w.-]+:[\w.-]+:[\w.-]+$/ },
+                repository: { type: "string", pattern: /^https:\/\/\S+[^/]$/ },
+                sha256: { type: "string", pattern: /^[0-9a-f]{64}$/ },
+              },
+              optional: ["path", "maven", "repository", "sha256"],
+            },
+          },
+          variables: { type: "map", values: { type: "string" } },
+          buildArgs: { type: "map", values: { type: "string" } },
+        },
+        optional: ["themes", "providers", "variables", "buildArgs"],
+      },
+    },
+    database: {
+      type: "object",
+      properties: {
+        engine: { type: "string", enum: databaseEngines },
+      },
+    },
+    provisioning: provisioningSchema,
+    keycloak: keycloakSchema,
+    metrics: metricsSchema,
+    waf: wafSchema,
+    admin: {
+      type: "object",
+      properties: {
+        access: { type: "string", enum: adminAccessModes },
+        allowList: cidrListSchema,
+      },
+      optional: ["allowList"],
+    },
+    https: {
+      type: "object",
+      properties: {
+        redirectHttp: { type: "boolean" },
+        sslPolicy: { type: "string", enum: Object.values(SslPolicy) },
+        hsts: {
+          type: "object",
+          properties: {
+            maxAgeSeconds: { type: "number", integer: true, min: 0 },
+            includeSubDomains: { type: "boolean" },
+            preload: { type: "boolean" },
+          },
+          optional: ["includeSubDomains", "preload"],
+        },
+      },
+      optional: ["redirectHttp", "sslPolicy", "hsts"],
+    },
+    blueGreen: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        deploymentConfig: { type: "string", enum: blueGreenDeploymentConfigs },
+        testListenerPort: { type: "number", integer: true, min: 1, max: 65535 },
+        testAllowList: cidrListSchema,
+        terminationWaitMinutes: { type: "number", integer: true, min: 0, max: 2880 },
+      },
+      optional: ["deploymentConfig", "testListenerPort", "testAllowList", "terminationWaitMinutes"],
+    },
+    pipeline: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        environments: { type: "array", minItems: 1, items: envNameSchema },
+      },
+      optional: ["environments"],
+    },
+    upgrade: {
+      type: "object",
+      properties: {
+        snapshot: { type: "boolean" },
+        allowDowngrade: { type: "boolean" },
+      },
+      optional: ["snapshot", "allowDowngrade"],
+    },
+    compliance: complianceSchema,
+    cache: cacheSchema,
+  },
+  optional: [
+    "database",
+    "provisioning",
+    "keycloak",
+    "metrics",
+    "waf",
+    "admin",
+    "https",
+    "blueGreen",
+    "pipeline",
+    "upgrade",
+    "compliance",
+    "cache",
+  ],
+};
+
+/**
+ * Validation
+ */
+
+// Error thrown when 'cdk.json' does not match the configuration schema
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Configuration in 'cdk.json' not valid:\n${issues.map((issue) => `  ${issue}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+// Human readable type name of a value
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+// Check a value against a schema node, pushing "<path>: <problem>" into `issues`
+export function validateSchema(schema: ConfigSchema, value: unknown, path: string, issues: string[]): void {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        issues.push(`${path}: expected string, got ${typeOf(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path}: '${value}' must be one of ${schema.enum.map((v) => `'${v}'`).join(", ")}`);
+      } else if (schema.pattern && !schema.pattern.test(value)) {
+        issues.push(`${path}: '${value}' does not match ${schema.pattern}`);
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        issues.push(`${path}: expected number, got ${typeOf(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path}: ${value} must be one of ${schema.enum.join(", ")}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        issues.push(`${path}: ${value} must be an integer`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        issues.push(`${path}: ${value} must be >= ${schema.min}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        issues.push(`${path}: ${value} must be <= ${schema.max}`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push(`${path}: expected boolean, got ${typeOf(value)}`);
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected array, got ${typeOf(value)}`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path}: must contain at least ${schema.minItems} item(s)`);
+      }
+      value.forEach((item, index) => validateSchema(schema.items, item, `${path}[${index}]`, issues));
+      (schema.unique ?? []).forEach((key) => {
+        const seen = new Set<unknown>();
+        value.forEach((item, index) => {
+          const v = item?.[key];
+          if (v === undefined) return;
+          if (seen.has(v)) {
+            issues.push(`${path}[${index}].${key}: duplicate '${v}'`);
+          }
+          seen.add(v);
+        });
+      });
+      return;
+    case "map":
+      if (typeOf(value) !== "object") {
+        issues.push(`${path}: expected object, got ${typeOf(value)}`);
+        return;
+      }
+      Object.entries(value as { [key: string]: unknown }).forEach(([key, item]) =>
+        validateSchema(schema.values, item, `${path}.${key}`, issues)
+      );
+      return;
+    case "object": {
+      if (typeOf(value) !== "object") {
+        issues.push(`${path}: expected object, got ${typeOf(value)}`);
+        return;
+      }
+      const obj = value as { [key: string]: unknown };
+      Object.entries(schema.properties).forEach(([key, child]) => {
+        if (obj[key] === undefined) {
+          if (!schema.optional?.includes(key)) {
+            issues.push(`${path}.${key}: required`);
+          }
+          return;
+        }
+        validateSchema(child, obj[key], `${path}.${key}`, issues);
+      });
+      Object.keys(obj)
+        .filter((key) => !(key in schema.properties))
+        .forEach((key) => issues.push(`${path}.${key}: unknown key`));
+      return;
+    }
+  }
+}
+
+// Validate `params` and return every problem found, an empty list means valid
+export function validateConfig(params: unknown): string[] {
+  const issues: string[] = [];
+  validateSchema(configSchema, params, "params", issues);
+
+  // Cross-reference checks, skipped for the parts whose shape is already reported
+  const config = params as Partial<IConfigParameter> | undefined;
+  if (!Array.isArray(config?.environments)) {
+    return issues;
+  }
+  const envNames = config!.environments.map((obj) => obj?.name);
+  // Infinispan schemas of the Keycloak versions, the cache settings are checked against each
+  const schemaVersions = (Array.isArray(config!.containers) ? config!.containers : [])
+    .map((container) =>
+      Array.isArray(container?.version) && typeof container.version[0] === "string"
+        ? infinispanSchemaVersion(container.version[0])
+        : undefined
+    )
+    .filter((version): version is string => version !== undefined);
+  config!.environments.forEach((obj, index) => {
+    const path = `params.environments[${index}]`;
+    if (validEnvNames.includes(obj?.name) && !issues.some((issue) => issue.startsWith(path))) {
+      issues.push(...validateProfile(resolveProfile(obj.name, obj.overrides), `${path}.overrides`));
+    }
+    const existingVpc = obj?.existingVpc;
+    if (
+      typeOf(existingVpc) === "object" &&
+      (existingVpc!.vpcId === undefined) === (existingVpc!.vpcIdParameterName === undefined)
+    ) {
+      issues.push(`${path}.existingVpc: exactly one of 'vpcId' and 'vpcIdParameterName' required`);
+    }
+    // The provisioning function, the bastion host and the tests of the replacement tasks reach the ALB through them
+    if (
+      typeOf(existingVpc) === "object" &&
+      existingVpc!.natPublicIps === undefined &&
+      (config!.admin?.access === "allowList" || config!.blueGreen?.enabled)
+    ) {
+      issues.push(
+        `${path}.existingVpc.natPublicIps: required with ` +
+          (config!.admin?.access === "allowList" ? "admin access 'allowList'" : "blue/green deployments")
+      );
+    }
+    if (obj?.drRegion !== undefined && obj.drRegion === obj.region) {
+      issues.push(`${path}.drRegion: must differ from region '${obj.region}'`);
+    } else if (obj?.drRegion !== undefined && obj.existingDatabase !== undefined) {
+      issues.push(
+        `${path}.drRegion: not allowed with 'existingDatabase', the Global Database requires the Aurora cluster`
+      );
+    }
+    const notifications = obj?.notifications;
+    if (notifications?.topicArn !== undefined && notifications?.emails !== undefined) {
+      issues.push(`${path}.notifications: 'emails' only allowed without 'topicArn'`);
+    }
+    if (typeOf(obj?.cache) === "object" && !issues.some((issue) => issue.startsWith(`${path}.cache`))) {
+      issues.push(
+        ...validateCache(
+          deepMerge(config!.cache ?? ({} as ICacheParameter), obj.cache),
+          `${path}.cache`,
+          schemaVersions
+        )
+      );
+    }
+  });
+  issues.push(...validateKeycloakOptions(config!.keycloak, "params.keycloak"));
+  issues.push(...validateMetrics(config!.metrics, "params.metrics", config!.keycloak));
+  issues.push(...validateWaf(config!.waf, "params.waf"));
+  const admin = config!.admin;
+  if (admin?.access === "allowList" && !admin.allowList?.length) {
+    issues.push("params.admin.allowList: required with access 'allowList'");
+  } else if (admin?.access === "public" && admin.allowList !== undefined) {
+    issues.push("params.admin.allowList: not allowed with access 'public'");
+  }
+  (Array.isArray(admin?.allowList) ? admin!.allowList! : []).forEach((cidr, index) => {
+    if (cidrPattern.test(cidr) && !isCidr(cidr)) {
+      issues.push(`params.admin.allowList[${index}]: '${cidr}' is not a valid CIDR range`);
+    }
+  });
+  const hsts = config!.https?.hsts;
+  if (hsts?.preload && (!hsts.includeSubDomains || hsts.maxAgeSeconds < 31536000)) {
+    issues.push("params.https.hsts.preload: requires 'includeSubDomains' and a 'maxAgeSeconds' of 31536000 or more");
+  }
+  const blueGreen = config!.blueGreen;
+  if (blueGreen?.enabled && admin?.access !== undefined && admin.access !== "public") {
+    issues.push(
+      `params.blueGreen.enabled: requires admin access 'public', the admin console of access '${admin.access}' ` +
+        "is served by the blue target group only"
+    );
+  }
+  if (blueGreen?.testListenerPort === 443 || blueGreen?.testListenerPort === 80) {
+    issues.push(`params.blueGreen.testListenerPort: ${blueGreen.testListenerPort} is used by the ALB listeners`);
+  }
+  (Array.isArray(blueGreen?.testAllowList) ? blueGreen!.testAllowList! : []).forEach((cidr, index) => {
+    if (cidrPattern.test(cidr) && !isCidr(cidr)) {
+      issues.push(`params.blueGreen.testAllowList[${index}]: '${cidr}' is not a valid CIDR range`);
+    }
+  });
+  issues.push(...validateCache(config!.cache, "params.cache", schemaVersions));
+  [
+    ["params.cache.mode", config!.cache?.mode],
+    ...config!.environments.map((obj, index) => [`params.environments[${index}].cache.mode`, obj?.cache?.mode]),
+  ]
+    .filter(([, mode]) => mode === "dns-ping" && blueGreen?.enabled)
+    .forEach(([path]) =>
+      issues.push(
+        `${path}: 'dns-ping' not allowed with blue/green deployments, ` +
+          "ECS registers tasks in Cloud Map with rolling updates only"
+      )
+    );
+  (Array.isArray(config!.pipeline?.environments) ? config!.pipeline!.environments! : []).forEach(
+    (name, index, names) => {
+      const path = `params.pipeline.environments[${index}]`;
+      if (names.indexOf(name) !== index) {
+        issues.push(`${path}: duplicate '${name}'`);
+      } else if (validEnvNames.includes(name) && !envNames.includes(name)) {
+        issues.push(`${path}: '${name}' not defined in params.environments`);
+      }
+    }
+  );
+  // The cache configuration is part of the image, which the pipeline builds once for every environment
+  if (config!.pipeline?.enabled) {
+    const pipelineEnvs = Array.isArray(config!.pipeline.environments) ? config!.pipeline.environments : envNames;
+    config!.environments.forEach((obj, index) => {
+      if (obj?.cache !== undefined && pipelineEnvs.includes(obj.name)) {
+        issues.push(
+          `params.environments[${index}].cache: not allowed with 'params.pipeline', ` +
+            "every environment runs the image built with the cache settings of 'params.cache'"
+        );
+      }
+    });
+  }
+  const targetEnv = config!.target?.environment;
+  if (validEnvNames.includes(targetEnv as string) && !envNames.includes(targetEnv!)) {
+    issues.push(`params.target.environment: '${targetEnv}' not defined in params.environments`);
+  }
+  (Array.isArray(config!.containers) ? config!.containers : []).forEach((container, index) => {
+    const containerEnv = container?.environment;
+    if (validEnvNames.includes(containerEnv) && !envNames.includes(containerEnv)) {
+      issues.push(`params.containers[${index}].environment: '${containerEnv}' not defined in params.environments`);
+    }
+    issues.push(...validateContainerAssets(container, `params.containers[${index}]`));
+    if (Array.isArray(container?.version) && typeof container.version[0] === "string") {
+      issues.push(...validateKeycloakVersion(container.version[0], `params.containers[${index}].version[0]`));
+    }
+    Object.keys(typeOf(container?.variables) === "object" ? container.variables! : {}).forEach((name) => {
+      const path = `params.containers[${index}].variables.${name}`;
+      if (!/^[A-Z][A-Z0-9_]*$/.test(name)) {
+        issues.push(`${path}: name must match /^[A-Z][A-Z0-9_]*$/`);
+      } else if (builtinTemplateVariables.includes(name) || /^VERSION_\d+$/.test(name)) {
+        issues.push(`${path}: built-in variable cannot be overridden`);
+      }
+    });
+    Object.keys(typeOf(container?.buildArgs) === "object" ? container.buildArgs! : {}).forEach((name) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        issues.push(`params.containers[${index}].buildArgs.${name}: name must match /^[A-Za-z_][A-Za-z0-9_]*$/`);
+      }
+    });
+  });
+  return issues;
+}
+
+// Validate `params` and return it typed, or throw with every problem found
+export function parseConfig(params: unknown): IConfigParameter {
+  const issues = validateConfig(params);
+  if (issues.length) {
+    throw new ConfigValidationError(issues);
+  }
+  return params as IConfigParameter;
+}
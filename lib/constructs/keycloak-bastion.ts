@@ -0,0 +1,73 @@
+import { aws_ec2 as ec2, aws_iam as iam } from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+
+export interface KeycloakBastionProps {
+  serviceName: string;
+  vpc: ec2.IVpc;
+  // Resources the bastion host is allowed to connect to on their default port, e.g. the database
+  connectTo?: ec2.IConnectable[];
+}
+
+// Bastion host for database maintenance
+export class KeycloakBastion extends Construct {
+  public readonly host: ec2.BastionHostLinux;
+
+  constructor(scope: Construct, id: string, props: KeycloakBastionProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+
+    // Bastion host security group
+    const bastionSecurityGroupName = common.getResourceName(`${serviceName}-bastion-security-group`);
+    const bastionSecurityGroup = new ec2.SecurityGroup(this, "BastionSecurityGroup", {
+      securityGroupName: bastionSecurityGroupName,
+      description: bastionSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: true,
+    });
+    common.addNameTag(bastionSecurityGroup, bastionSecurityGroupName);
+
+    // Bastion host
+    this.host = new ec2.BastionHostLinux(this, "Bastion", {
+      instanceName: common.getResourceName(`${serviceName}-bastion`),
+      instanceType: new ec2.InstanceType(common.getEcsParameter().bastion.instanceType),
+      vpc: props.vpc,
+      securityGroup: bastionSecurityGroup,
+    });
+
+    // Override role name
+    (this.host.role.node.defaultChild as iam.CfnRole).roleName = common.getGlobalResourceName(
+      this,
+      `${serviceName}-bastion-role`
+    );
+
+    // Allow bastion host connect to the given resources
+    (props.connectTo ?? []).forEach((target) => {
+      target.connections.allowDefaultPortFrom(this.host, "Allow bastion host connect to database");
+    });
+
+    // Accepted compliance findings, the host is reached through Session Manager only
+    NagSuppressions.addResourceSuppressions(
+      this.host,
+      [
+        { id: "AwsSolutions-EC28", reason: "Short-lived tunnel host, basic monitoring is sufficient" },
+        { id: "HIPAA.Security-EC2InstanceDetailedMonitoringEnabled", reason: "See AwsSolutions-EC28" },
+        { id: "AwsSolutions-EC29", reason: "The host holds no data and is replaced with the stack" },
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Session Manager permissions of BastionHostLinux, the host has no other permissions",
+          appliesTo: ["Action::ssmmessages:*", "Action::ec2messages:*", "Resource::*"],
+        },
+        { id: "HIPAA.Security-IAMPolicyNoStatementsWithFullAccess", reason: "See AwsSolutions-IAM5" },
+        {
+          id: "HIPAA.Security-EC2IMDSv2Enabled",
+          reason: "`requireImdsv2` names the launch template 'ResourceLaunchTemplate', which is not unique per branch",
+        },
+      ],
+      true
+    );
+  }
+}
@@ -0,0 +1,281 @@
+import { SecretValue, aws_secretsmanager as asm, aws_ec2 as ec2, aws_kms as kms, aws_rds as rds } from "aws-cdk-lib";
+import { NagPackSuppression, NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+import { IExistingDatabaseParameter } from "../config";
+
+export interface KeycloakDatabaseProps {
+  serviceName: string;
+  vpc: ec2.IVpc;
+  vpcSubnets: ec2.SubnetSelection;
+  // Database to connect to, an Aurora cluster is created when omitted
+  existingDatabase?: IExistingDatabaseParameter;
+  // Aurora Global Database the cluster is a member of, none when omitted
+  globalDatabase?: KeycloakGlobalDatabaseProps;
+}
+
+export interface KeycloakGlobalDatabaseProps {
+  globalClusterIdentifier: string;
+  // Read-only replica of the primary cluster in the DR region, the primary cluster creating the Global Database when
+  // false
+  secondary: boolean;
+  // Region of the secondary cluster, the credential is replicated there
+  secondaryRegion: string;
+}
+
+// Aurora Serverless v2 cluster (MySQL or PostgreSQL) with a rotated credential, or an existing database.
+// The secondary cluster of a Global Database uses the credential of the primary one, rotated in the primary region.
+export class KeycloakDatabase extends Construct implements ec2.IConnectable {
+  // Undefined for an existing database
+  public readonly cluster?: rds.DatabaseCluster;
+  public readonly secret: asm.ISecret;
+  public readonly connections: ec2.Connections;
+  public readonly hostname: string;
+  public readonly port: number;
+  // Undefined when the user name is read from the `username` key of the secret
+  public readonly username?: string;
+  public readonly databaseName: string;
+  // Value of `KC_DB`
+  public readonly kcDb: string;
+  // Value of `KC_DB_URL`
+  public readonly jdbcUrl: string;
+
+  constructor(scope: Construct, id: string, props: KeycloakDatabaseProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const dbParameter = common.getDatabaseParameter();
+    this.kcDb = dbParameter.kcDb;
+
+    const existingDatabase = props.existingDatabase;
+    if (existingDatabase) {
+      // Existing database credential
+      this.secret = asm.Secret.fromSecretCompleteArn(this, "DBSecret", existingDatabase.secretArn);
+
+      // Existing database security group, ingress rules are added to it when given
+      this.port = existingDatabase.port ?? dbParameter.port;
+      this.connections = new ec2.Connections({
+        securityGroups: existingDatabase.securityGroupId
+          ? [ec2.SecurityGroup.fromSecurityGroupId(this, "DBSecurityGroup", existingDatabase.securityGroupId)]
+          : [],
+        defaultPort: ec2.Port.tcp(this.port),
+      });
+
+      this.hostname = existingDatabase.hostname;
+      this.databaseName = existingDatabase.databaseName ?? serviceName;
+      this.jdbcUrl = `jdbc:${dbParameter.jdbcScheme}://${this.hostname}:${this.port}/${this.databaseName}`;
+      return;
+    }
+
+    // Database engine: Aurora MySQL or Aurora PostgreSQL
+    const dbEngine: rds.IClusterEngine = dbParameter.engine;
+
+    // Database cluster parameter group
+    const dbClusterParameterGroup = new rds.ParameterGroup(this, "DBClusterParameterGroup", {
+      engine: dbEngine,
+      description: `Cluster parameter group for ${serviceName}`,
+      parameters: dbParameter.clusterParameters,
+    });
+    dbClusterParameterGroup.bindToCluster({});
+    (dbClusterParameterGroup.node.defaultChild as rds.CfnDBClusterParameterGroup).dbClusterParameterGroupName =
+      common.getResourceName(`${serviceName}-db-cluster-pg-${dbParameter.parameterGroupSuffix}`);
+
+    // Database instance parameter group
+    const dbInstanceParameterGroup = new rds.ParameterGroup(this, "DBInstanceParameterGroup", {
+      engine: dbEngine,
+      description: `Instance parameter group for ${serviceName}`,
+    });
+    dbInstanceParameterGroup.bindToInstance({});
+    (dbInstanceParameterGroup.node.defaultChild as rds.CfnDBParameterGroup).dbParameterGroupName =
+      common.getResourceName(`${serviceName}-db-instance-pg-${dbParameter.parameterGroupSuffix}`);
+
+    // Database subnet group
+    const dbSubnetGroup = new rds.SubnetGroup(this, "DBSubnetGroup", {
+      subnetGroupName: common.getResourceName(`${serviceName}-db-subnet-group`),
+      description: common.getResourceName(`${serviceName}-db-subnet-group`),
+      removalPolicy: common.getRemovalPolicy(),
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets,
+    });
+
+    // Database security group
+    const dbSecurityGroupName = common.getResourceName(`${serviceName}-db-security-group`);
+    const dbSecurityGroup = new ec2.SecurityGroup(this, "DBSecurityGroup", {
+      securityGroupName: dbSecurityGroupName,
+      description: dbSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: true,
+    });
+    common.addNameTag(dbSecurityGroup, dbSecurityGroupName);
+
+    // Database credential, replicated to the region of the secondary cluster
+    const globalDatabase = props.globalDatabase;
+    const secondary = globalDatabase?.secondary ?? false;
+    const dbSecretName = common.getResourceName(`${serviceName}-db-secret`);
+    const dbSecretExcludeCharacters = " % +~`#$&*()|[]{}:;<>?!'/@\"\\";
+    const dbSecret = secondary
+      ? asm.Secret.fromSecretNameV2(this, "DBSecret", dbSecretName)
+      : new asm.Secret(this, "DBSecret", {
+          secretName: dbSecretName,
+          description: `Credentials for ${serviceName} database`,
+          generateSecretString: {
+            generateStringKey: "password",
+            excludeCharacters: dbSecretExcludeCharacters,
+            passwordLength: 30,
+            secretStringTemplate: JSON.stringify({ username: dbParameter.username }),
+          },
+          replicaRegions: globalDatabase ? [{ region: globalDatabase.secondaryRegion }] : undefined,
+        });
+
+    // Storage encryption key of the secondary cluster, the AWS managed key of RDS cannot be used across regions
+    const dbKey = secondary
+      ? new kms.Key(this, "DBKey", {
+          alias: common.getResourceName(`${serviceName}-db-key`),
+          description: `Storage encryption key for ${serviceName} database`,
+          enableKeyRotation: true,
+          pendingWindow: common.getKmsKeyPendingDays(),
+          removalPolicy: common.getRemovalPolicy(),
+        })
+      : undefined;
+
+    // Aurora Serverless v2
+    this.cluster = new rds.DatabaseCluster(this, "DBCluster", {
+      engine: dbEngine,
+      port: dbParameter.port,
+      clusterIdentifier: common.getResourceName(`${serviceName}-db-cluster`),
+      instanceIdentifierBase: common.getResourceName(`${serviceName}-db-instance`),
+      instances: 2,
+      defaultDatabaseName: secondary ? undefined : serviceName,
+      deletionProtection: common.getRdsParameter().deletionProtection,
+      iamAuthentication: false,
+      // Placeholder of the secondary cluster, removed below
+      credentials: secondary
+        ? rds.Credentials.fromPassword(dbParameter.username, SecretValue.unsafePlainText(""))
+        : rds.Credentials.fromSecret(dbSecret),
+      instanceProps: {
+        vpc: props.vpc,
+        vpcSubnets: props.vpcSubnets,
+        instanceType: new ec2.InstanceType("serverless"),
+        securityGroups: [dbSecurityGroup],
+        parameterGroup: dbInstanceParameterGroup,
+        enablePerformanceInsights: true,
+        allowMajorVersionUpgrade: false,
+        autoMinorVersionUpgrade: true,
+        deleteAutomatedBackups: false,
+        performanceInsightRetention: rds.PerformanceInsightRetention.DEFAULT,
+        publiclyAccessible: false,
+      },
+      subnetGroup: dbSubnetGroup,
+      parameterGroup: dbClusterParameterGroup,
+      backup: {
+        retention: common.getRdsParameter().backup.retentionDays,
+        preferredWindow: "17:00-17:30",
+      },
+      monitoringInterval: common.getRdsParameter().monitoringInterval,
+      preferredMaintenanceWindow: "Sat:18:00-Sat:18:30",
+      storageEncrypted: true,
+      storageEncryptionKey: dbKey,
+      removalPolicy: common.getRemovalPolicy(),
+      copyTagsToSnapshot: true,
+      cloudwatchLogsExports: dbParameter.cloudwatchLogsExports,
+      cloudwatchLogsRetention: common.getLogsRetentionDays(),
+    });
+    const cfnCluster = this.cluster.node.defaultChild as rds.CfnDBCluster;
+    cfnCluster.serverlessV2ScalingConfiguration = {
+      minCapacity: common.getRdsParameter().scaling.minCapacity,
+      maxCapacity: common.getRdsParameter().scaling.maxCapacity,
+    };
+
+    // Aurora Global Database: created from the primary cluster, joined by the secondary cluster without credentials
+    if (globalDatabase && secondary) {
+      cfnCluster.globalClusterIdentifier = globalDatabase.globalClusterIdentifier;
+      cfnCluster.addPropertyDeletionOverride("MasterUsername");
+      cfnCluster.addPropertyDeletionOverride("MasterUserPassword");
+    } else if (globalDatabase) {
+      const globalCluster = new rds.CfnGlobalCluster(this, "DBGlobalCluster", {
+        globalClusterIdentifier: globalDatabase.globalClusterIdentifier,
+        sourceDbClusterIdentifier: this.cluster.clusterIdentifier,
+        deletionProtection: common.getRdsParameter().deletionProtection,
+      });
+      globalCluster.applyRemovalPolicy(common.getRemovalPolicy());
+    }
+
+    const dbListenerPort: number = dbParameter.port;
+    this.cluster.connections.allowInternally(
+      ec2.Port.tcp(dbListenerPort),
+      "Allow resources with this security group connect to database"
+    );
+
+    // Credential rotation in the primary region only, the replica of the secondary cluster follows it
+    if (!secondary) {
+      // Secret rotation function security group
+      const dbSecretRotationFunctionSecurityGroupName = common.getResourceName(
+        `${serviceName}-db-secret-security-group`
+      );
+      const dbSecretRotationFunctionSecurityGroup = new ec2.SecurityGroup(
+        this,
+        "DBSecretRotationFunctionSecurityGroup",
+        {
+          securityGroupName: dbSecretRotationFunctionSecurityGroupName,
+          description: dbSecretRotationFunctionSecurityGroupName,
+          vpc: props.vpc,
+          allowAllOutbound: true,
+        }
+      );
+      common.addNameTag(dbSecretRotationFunctionSecurityGroup, dbSecretRotationFunctionSecurityGroupName);
+
+      // Database credential rotation
+      new asm.SecretRotation(this, "DBSecretRotation", {
+        application: dbParameter.rotationApplication,
+        secret: dbSecret,
+        target: this.cluster,
+        vpc: props.vpc,
+        automaticallyAfter: common.getRdsParameter().secretRetentionDays,
+        excludeCharacters: dbSecretExcludeCharacters,
+        securityGroup: dbSecretRotationFunctionSecurityGroup,
+        vpcSubnets: props.vpcSubnets,
+      });
+    }
+
+    // Accepted compliance findings
+    const clusterSuppressions: NagPackSuppression[] = [
+      { id: "AwsSolutions-RDS6", reason: "Keycloak authenticates with the rotated password, not with IAM tokens" },
+      { id: "AwsSolutions-RDS11", reason: "The engine port is only open to the security groups of the clients" },
+      {
+        id: "AwsSolutions-RDS14",
+        reason: "Restores use the automated backups and the snapshots taken before upgrades",
+      },
+      {
+        id: "AwsSolutions-IAM4",
+        reason: "Enhanced monitoring with the AWS managed role of RDS",
+        appliesTo: ["Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AmazonRDSEnhancedMonitoringRole"],
+      },
+      {
+        id: "HIPAA.Security-RDSInBackupPlan",
+        reason: "The cluster has automated backups, see `rds.backupRetentionDays`",
+      },
+    ];
+    if (!common.getRdsParameter().deletionProtection) {
+      clusterSuppressions.push(
+        { id: "AwsSolutions-RDS10", reason: "Deletion protection is disabled by the profile of the environment" },
+        { id: "HIPAA.Security-RDSInstanceDeletionProtectionEnabled", reason: "See AwsSolutions-RDS10" }
+      );
+    }
+    NagSuppressions.addResourceSuppressions(this.cluster, clusterSuppressions, true);
+    NagSuppressions.addResourceSuppressions(dbSecret, [
+      {
+        id: "HIPAA.Security-SecretsManagerUsingKMSKey",
+        reason: "Encrypted with the AWS managed key of Secrets Manager",
+      },
+    ]);
+
+    this.secret = secondary ? dbSecret : this.cluster.secret!;
+    this.connections = this.cluster.connections;
+    this.hostname = this.cluster.clusterEndpoint.hostname;
+    this.port = dbListenerPort;
+    this.username = dbParameter.username;
+    this.databaseName = serviceName;
+    this.jdbcUrl = `jdbc:${dbParameter.jdbcScheme}://${this.hostname}:${this.port}/${this.databaseName}`;
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  Duration,
+  Stack,
+  aws_cloudwatch as cw,
+  aws_codedeploy as codedeploy,
+  aws_ec2 as ec2,
+  aws_ecs as ecs,
+  aws_elasticloadbalancingv2 as elbv2,
+  aws_iam as iam,
+  aws_lambda as lambda,
+  aws_lambda_nodejs as nodejs,
+  custom_resources as cr,
+} from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import * as path from "path";
+import { Common } from "../common";
+
+export interface KeycloakDeploymentProps {
+  serviceName: string;
+  vpc: ec2.IVpc;
+  vpcSubnets: ec2.SubnetSelection;
+  service: ecs.FargateService;
+  taskDefinition: ecs.FargateTaskDefinition;
+  containerPort: number;
+  listener: elbv2.IApplicationListener;
+  testListener: elbv2.IApplicationListener;
+  blueTargetGroup: elbv2.IApplicationTargetGroup;
+  greenTargetGroup: elbv2.IApplicationTargetGroup;
+  // Base URL of the test listener checked before the traffic is shifted, e.g. `https://auth.example.com:8443`
+  testUrl: string;
+  // Alarms rolling back a deployment in progress
+  alarms: cw.IAlarm[];
+}
+
+// CodeDeploy blue/green deployments of the ECS service, started whenever the task definition changes
+export class KeycloakDeployment extends Construct {
+  public readonly deploymentGroup: codedeploy.EcsDeploymentGroup;
+  public readonly hook: nodejs.NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: KeycloakDeploymentProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const blueGreen = common.getBlueGreenParameter();
+
+    // CodeDeploy application and deployment group
+    const application = new codedeploy.EcsApplication(this, "Application", {
+      applicationName: common.getResourceName(`${serviceName}-deployment`),
+    });
+    this.deploymentGroup = new codedeploy.EcsDeploymentGroup(this, "DeploymentGroup", {
+      application: application,
+      deploymentGroupName: common.getResourceName(`${serviceName}-deployment-group`),
+      service: props.service,
+      deploymentConfig: blueGreen.deploymentConfig,
+      blueGreenDeploymentConfig: {
+        blueTargetGroup: props.blueTargetGroup,
+        greenTargetGroup: props.greenTargetGroup,
+        listener: props.listener,
+        testListener: props.testListener,
+        terminationWaitTime: blueGreen.terminationWaitTime,
+      },
+      alarms: props.alarms,
+      autoRollback: { failedDeployment: true, stoppedDeployment: true, deploymentInAlarm: true },
+    });
+
+    // Hook function security group
+    const hookSecurityGroupName = common.getResourceName(`${serviceName}-deployment-hook-security-group`);
+    const hookSecurityGroup = new ec2.SecurityGroup(this, "HookSecurityGroup", {
+      securityGroupName: hookSecurityGroupName,
+      description: hookSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: true,
+    });
+    common.addNameTag(hookSecurityGroup, hookSecurityGroupName);
+
+    // Hook function checking the replacement tasks through the test listener
+    this.hook = new nodejs.NodejsFunction(this, "HookFunction", {
+      functionName: common.getResourceName(`${serviceName}-deployment-hook`),
+      description: `Check the replacement tasks of ${serviceName} before the traffic is shifted`,
+      entry: path.join(__dirname, "../../src/lambda/deployment-hook/index.ts"),
+      handler: "handler",
+      // Lock files are not tracked, only the project root is derived from this path
+      depsLockFilePath: path.join(__dirname, "../../package.json"),
+      runtime: lambda.Runtime.NODEJS_18_X,
+      architecture: lambda.Architecture.ARM_64,
+      memorySize: 128,
+      timeout: Duration.minutes(15),
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets,
+      securityGroups: [hookSecurityGroup],
+      logRetention: common.getLogsRetentionDays(),
+      environment: {
+        HEALTH_CHECK_URL: `${props.testUrl}${common.getHttpRelativePath()}/health/ready`,
+        HEALTHY_THRESHOLD: String(common.getEcsParameter().alb.healthyThresholdCount),
+      },
+    });
+    this.hook.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["codedeploy:PutLifecycleEventHookExecutionStatus"],
+        resources: [this.deploymentGroup.deploymentGroupArn],
+      })
+    );
+    this.hook.grantInvoke(this.deploymentGroup.role);
+
+    // New task definition revisions are deployed with an AppSpec, the initial one is placed by CloudFormation
+    const appSpec = Stack.of(this).toJsonString({
+      version: 0.0,
+      Resources: [
+        {
+          TargetService: {
+            Type: "AWS::ECS::Service",
+            Properties: {
+              TaskDefinition: props.taskDefinition.taskDefinitionArn,
+              LoadBalancerInfo: {
+                ContainerName: props.taskDefinition.defaultContainer!.containerName,
+                ContainerPort: props.containerPort,
+              },
+            },
+          },
+        },
+      ],
+      Hooks: [{ BeforeAllowTraffic: this.hook.functionArn }],
+    });
+    const deploymentGroupParameters = {
+      applicationName: application.applicationName,
+      deploymentGroupName: this.deploymentGroup.deploymentGroupName,
+    };
+    const deployment = new cr.AwsCustomResource(this, "Deployment", {
+      onCreate: {
+        service: "CodeDeploy",
+        action: "getDeploymentGroup",
+        parameters: deploymentGroupParameters,
+        physicalResourceId: cr.PhysicalResourceId.of(deploymentGroupParameters.deploymentGroupName),
+        // Custom resource responses are limited to 4 KB
+        outputPaths: ["deploymentGroupInfo.deploymentGroupId"],
+      },
+      onUpdate: {
+        service: "CodeDeploy",
+        action: "createDeployment",
+        parameters: {
+          ...deploymentGroupParameters,
+          description: `Deploy ${props.taskDefinition.taskDefinitionArn}`,
+          revision: { revisionType: "AppSpecContent", appSpecContent: { content: appSpec } },
+        },
+        physicalResourceId: cr.PhysicalResourceId.fromResponse("deploymentId"),
+      },
+      policy: cr.AwsCustomResourcePolicy.fromStatements([
+        new iam.PolicyStatement({
+          actions: ["codedeploy:GetDeploymentGroup", "codedeploy:CreateDeployment"],
+          resources: [this.deploymentGroup.deploymentGroupArn],
+        }),
+        new iam.PolicyStatement({
+          actions: ["codedeploy:GetDeploymentConfig"],
+          resources: [this.deploymentGroup.deploymentConfig.deploymentConfigArn],
+        }),
+        new iam.PolicyStatement({
+          actions: ["codedeploy:RegisterApplicationRevision"],
+          resources: [application.applicationArn],
+        }),
+      ]),
+      logRetention: common.getLogsRetentionDays(),
+      installLatestAwsSdk: false,
+    });
+    deployment.node.addDependency(props.service);
+
+    // Accepted compliance findings
+    NagSuppressions.addResourceSuppressions(
+      this.deploymentGroup,
+      [
+        {
+          id: "AwsSolutions-IAM4",
+          reason: "CodeDeploy deploys ECS services with its AWS managed role",
+          appliesTo: ["Policy::arn:<AWS::Partition>:iam::aws:policy/AWSCodeDeployRoleForECS"],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "CodeDeploy invokes the current version of the hook function",
+          appliesTo: [{ regex: "/^Resource::<.*HookFunction.*\\.Arn>:\\*$/g" }],
+        },
+      ],
+      true
+    );
+    NagSuppressions.addResourceSuppressions(this.hook, [
+      { id: "HIPAA.Security-LambdaDLQ", reason: "CodeDeploy rolls the deployment back when the hook fails" },
+      { id: "HIPAA.Security-LambdaConcurrency", reason: "Invoked once per deployment" },
+    ]);
+  }
+}
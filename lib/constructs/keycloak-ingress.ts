@@ -0,0 +1,313 @@
+import {
+  Stack,
+  aws_ec2 as ec2,
+  aws_ecs as ecs,
+  aws_elasticloadbalancingv2 as elbv2,
+  aws_route53 as route53,
+  aws_route53_targets as route53targets,
+  aws_ssm as ssm,
+} from "aws-cdk-lib";
+import { NagPackSuppression, NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+
+// Split a list into lists of at most `size` items
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+export interface KeycloakIngressProps {
+  serviceName: string;
+  vpc: ec2.IVpc;
+  vpcSubnets: ec2.SubnetSelection;
+  service: ecs.FargateService;
+  containerPort: number;
+  // Record name pointing at the load balancer
+  domainName: string;
+  // Public hosted zone the record is created in
+  hostedZoneDomain: string;
+  // Admin console restricted to private networks, served to everyone when omitted
+  admin?: KeycloakAdminIngressProps;
+  // Test listener and the second target group of blue/green deployments, none when omitted
+  blueGreen?: KeycloakBlueGreenIngressProps;
+  // Failover records of the primary and the DR region instead of simple alias records, none when omitted
+  failover?: KeycloakFailoverIngressProps;
+}
+
+export interface KeycloakFailoverIngressProps {
+  // `PRIMARY`: records checked by a Route 53 health check of the ALB, `SECONDARY`: records of the standby ALB
+  role: "PRIMARY" | "SECONDARY";
+  // HTTPS health check of the primary ALB
+  healthCheck: { path: string; requestInterval: number; failureThreshold: number };
+}
+
+export interface KeycloakBlueGreenIngressProps {
+  // HTTPS port of the test listener, routed to the replacement tasks during a deployment
+  testListenerPort: number;
+  // CIDR ranges allowed on the test listener
+  sourceIps: string[];
+}
+
+export interface KeycloakAdminIngressProps {
+  // `internal`: served by an internal ALB only, `allowList`: served by the internet-facing ALB to `sourceIps` only
+  access: "internal" | "allowList";
+  // Path patterns of the admin console blocked on the internet-facing ALB
+  paths: string[];
+  // CIDR ranges allowed to reach the admin console
+  sourceIps: string[];
+  // Record name and subnets of the internal ALB
+  domainName?: string;
+  vpcSubnets?: ec2.SubnetSelection;
+}
+
+// Internet-facing ALB with the HTTPS listener and the Route 53 alias record for Keycloak, and the internal ALB
+// of the admin console. With failover, the records of both regions share their names and Route 53 answers with the
+// standby ALB while the health check of the primary one fails.
+export class KeycloakIngress extends Construct {
+  public readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+  public readonly listener: elbv2.ApplicationListener;
+  public readonly redirectListener?: elbv2.ApplicationListener;
+  public readonly targetGroup: elbv2.ApplicationTargetGroup;
+  public readonly testListener?: elbv2.ApplicationListener;
+  public readonly greenTargetGroup?: elbv2.ApplicationTargetGroup;
+  public readonly record: route53.ARecord;
+  public readonly adminLoadBalancer?: elbv2.ApplicationLoadBalancer;
+  public readonly adminListener?: elbv2.ApplicationListener;
+  public readonly adminTargetGroup?: elbv2.ApplicationTargetGroup;
+  public readonly adminRecord?: route53.ARecord;
+  public readonly healthCheck?: route53.CfnHealthCheck;
+
+  constructor(scope: Construct, id: string, props: KeycloakIngressProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+
+    // ALB security group
+    const albSecurityGroupName = common.getResourceName(`${serviceName}-alb-security-group`);
+    const albSecurityGroup = new ec2.SecurityGroup(this, "ALBSecurityGroup", {
+      securityGroupName: albSecurityGroupName,
+      description: albSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: false,
+    });
+    common.addNameTag(albSecurityGroup, albSecurityGroupName);
+    albSecurityGroup.addIngressRule(ec2.Peer.ipv4("0.0.0.0/0"), ec2.Port.tcp(443), "Allow from anyone on port 443");
+    const https = common.getHttpsParameter();
+    if (https.redirectHttp) {
+      albSecurityGroup.addIngressRule(ec2.Peer.ipv4("0.0.0.0/0"), ec2.Port.tcp(80), "Allow from anyone on port 80");
+    }
+    NagSuppressions.addResourceSuppressions(albSecurityGroup, [
+      { id: "AwsSolutions-EC23", reason: "Keycloak is served to the internet, on 443 and on 80 redirecting to it" },
+    ]);
+
+    // Accepted compliance findings of both ALBs
+    const albSuppressions: NagPackSuppression[] = [
+      { id: "AwsSolutions-ELB2", reason: "Access logs are not enabled, requests are logged by the WAF when enabled" },
+      { id: "HIPAA.Security-ELBLoggingEnabled", reason: "Access logs are not enabled, see AwsSolutions-ELB2" },
+      {
+        id: "HIPAA.Security-ELBDeletionProtectionEnabled",
+        reason: "The ALB holds no data, the stack has termination protection in stg and prod",
+      },
+    ];
+
+    // ALB
+    this.loadBalancer = new elbv2.ApplicationLoadBalancer(this, "ALB", {
+      loadBalancerName: common.getResourceName(`${serviceName}-alb`),
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets,
+      internetFacing: true,
+      securityGroup: albSecurityGroup,
+      dropInvalidHeaderFields: true,
+    });
+    NagSuppressions.addResourceSuppressions(this.loadBalancer, albSuppressions);
+
+    // ALB HTTPS listener
+    const certificateArn = common.lazifyString(
+      ssm.StringParameter.valueForTypedStringParameterV2(
+        this,
+        common.getResourceNamePath("certificateArn"),
+        ssm.ParameterValueType.STRING
+      )
+    );
+    this.listener = this.loadBalancer.addListener("ALBListener", {
+      protocol: elbv2.ApplicationProtocol.HTTPS,
+      certificates: [{ certificateArn: certificateArn }],
+      sslPolicy: https.sslPolicy,
+      open: false,
+    });
+
+    // ALB HTTP listener redirecting to HTTPS
+    if (https.redirectHttp) {
+      this.redirectListener = this.loadBalancer.addRedirect({
+        sourceProtocol: elbv2.ApplicationProtocol.HTTP,
+        sourcePort: 80,
+        targetProtocol: elbv2.ApplicationProtocol.HTTPS,
+        targetPort: 443,
+        open: false,
+      });
+      NagSuppressions.addResourceSuppressions(this.redirectListener, [
+        { id: "HIPAA.Security-ELBv2ACMCertificateRequired", reason: "The HTTP listener only redirects to HTTPS" },
+      ]);
+    }
+
+    // ALB target group
+    const targetProps: elbv2.AddApplicationTargetsProps = {
+      // Readiness includes the database connection, so a task without it receives no traffic
+      healthCheck: {
+        path: `${common.getHttpRelativePath()}/health/ready`,
+        healthyHttpCodes: "200",
+        healthyThresholdCount: common.getEcsParameter().alb.healthyThresholdCount,
+        interval: common.getEcsParameter().alb.interval,
+        timeout: common.getEcsParameter().alb.timeout,
+      },
+      slowStart: common.getEcsParameter().alb.slowStart,
+      stickinessCookieDuration: common.getEcsParameter().alb.stickinessCookieDuration,
+      port: props.containerPort,
+      protocol: elbv2.ApplicationProtocol.HTTP,
+    };
+    this.targetGroup = this.listener.addTargets("ALBTarget", {
+      targetGroupName: common.getResourceName(`${serviceName}-tg`),
+      targets: [props.service],
+      ...targetProps,
+    });
+
+    // Test listener and the target group of the replacement tasks, swapped with the blue one by CodeDeploy
+    const blueGreen = props.blueGreen;
+    if (blueGreen) {
+      blueGreen.sourceIps.forEach((cidr) => {
+        const peer = cidr.includes(":") ? ec2.Peer.ipv6(cidr) : ec2.Peer.ipv4(cidr);
+        albSecurityGroup.addIngressRule(
+          peer,
+          ec2.Port.tcp(blueGreen.testListenerPort),
+          `Allow from ${cidr} on port ${blueGreen.testListenerPort}`
+        );
+      });
+      NagSuppressions.addResourceSuppressions(albSecurityGroup, [
+        {
+          id: "CdkNagValidationFailure",
+          reason: "Port checks of HIPAA.Security fail on the NAT addresses allowed to the test listener",
+        },
+      ]);
+      this.greenTargetGroup = new elbv2.ApplicationTargetGroup(this, "ALBGreenTarget", {
+        targetGroupName: common.getResourceName(`${serviceName}-tg2`),
+        vpc: props.vpc,
+        targetType: elbv2.TargetType.IP,
+        ...targetProps,
+      });
+      this.testListener = this.loadBalancer.addListener("ALBTestListener", {
+        protocol: elbv2.ApplicationProtocol.HTTPS,
+        port: blueGreen.testListenerPort,
+        certificates: [{ certificateArn: certificateArn }],
+        sslPolicy: https.sslPolicy,
+        defaultTargetGroups: [this.greenTargetGroup],
+        open: false,
+      });
+    }
+
+    // Alias record for ALB
+    const zone = route53.HostedZone.fromLookup(this, "HostedZone", {
+      domainName: props.hostedZoneDomain,
+    });
+    this.record = new route53.ARecord(this, "ALBARecord", {
+      recordName: props.domainName,
+      target: route53.RecordTarget.fromAlias(new route53targets.LoadBalancerTarget(this.loadBalancer)),
+      zone: zone,
+    });
+    this.record.node.addDependency(this.loadBalancer);
+
+    // Failover routing, the records of the region are identified by it. The primary ALB is checked directly, Route 53
+    // does not verify its certificate.
+    const failover = props.failover;
+    if (failover?.role === "PRIMARY") {
+      this.healthCheck = new route53.CfnHealthCheck(this, "ALBHealthCheck", {
+        healthCheckConfig: {
+          type: "HTTPS",
+          fullyQualifiedDomainName: this.loadBalancer.loadBalancerDnsName,
+          port: 443,
+          resourcePath: failover.healthCheck.path,
+          requestInterval: failover.healthCheck.requestInterval,
+          failureThreshold: failover.healthCheck.failureThreshold,
+        },
+        healthCheckTags: [{ key: "Name", value: common.getResourceName(`${serviceName}-alb-health-check`) }],
+      });
+    }
+    const routeOnFailover = (record: route53.ARecord) => {
+      if (!failover) {
+        return;
+      }
+      const cfnRecord = record.node.defaultChild as route53.CfnRecordSet;
+      cfnRecord.failover = failover.role;
+      cfnRecord.setIdentifier = Stack.of(this).region;
+      cfnRecord.healthCheckId = this.healthCheck?.attrHealthCheckId;
+    };
+    routeOnFailover(this.record);
+
+    // Admin console blocked on the internet-facing ALB, except for the allow-listed sources
+    const admin = props.admin;
+    if (!admin) {
+      return;
+    }
+    const allowRules = admin.access === "allowList" ? chunk(admin.sourceIps, 5 - admin.paths.length) : [];
+    allowRules.forEach((sourceIps, index) => {
+      this.listener.addAction(`AdminAllow${index + 1}`, {
+        priority: index + 1,
+        conditions: [elbv2.ListenerCondition.pathPatterns(admin.paths), elbv2.ListenerCondition.sourceIps(sourceIps)],
+        action: elbv2.ListenerAction.forward([this.targetGroup]),
+      });
+    });
+    this.listener.addAction("AdminDeny", {
+      priority: allowRules.length + 1,
+      conditions: [elbv2.ListenerCondition.pathPatterns(admin.paths)],
+      action: elbv2.ListenerAction.fixedResponse(403, { contentType: "text/plain", messageBody: "Forbidden" }),
+    });
+    if (admin.access !== "internal") {
+      return;
+    }
+
+    // Internal ALB security group
+    const adminSecurityGroupName = common.getResourceName(`${serviceName}-admin-alb-security-group`);
+    const adminSecurityGroup = new ec2.SecurityGroup(this, "AdminALBSecurityGroup", {
+      securityGroupName: adminSecurityGroupName,
+      description: adminSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: false,
+    });
+    common.addNameTag(adminSecurityGroup, adminSecurityGroupName);
+    admin.sourceIps.forEach((cidr) => {
+      const peer = cidr.includes(":") ? ec2.Peer.ipv6(cidr) : ec2.Peer.ipv4(cidr);
+      adminSecurityGroup.addIngressRule(peer, ec2.Port.tcp(443), `Allow from ${cidr} on port 443`);
+    });
+
+    // Internal ALB serving every path, names are limited to 32 characters
+    this.adminLoadBalancer = new elbv2.ApplicationLoadBalancer(this, "AdminALB", {
+      loadBalancerName: common.getResourceName(`${serviceName}-int-alb`),
+      vpc: props.vpc,
+      vpcSubnets: admin.vpcSubnets,
+      internetFacing: false,
+      securityGroup: adminSecurityGroup,
+      dropInvalidHeaderFields: true,
+    });
+    NagSuppressions.addResourceSuppressions(this.adminLoadBalancer, albSuppressions);
+    this.adminListener = this.adminLoadBalancer.addListener("AdminALBListener", {
+      protocol: elbv2.ApplicationProtocol.HTTPS,
+      certificates: [{ certificateArn: certificateArn }],
+      sslPolicy: https.sslPolicy,
+      open: false,
+    });
+    this.adminTargetGroup = this.adminListener.addTargets("AdminALBTarget", {
+      targetGroupName: common.getResourceName(`${serviceName}-int-tg`),
+      targets: [props.service],
+      ...targetProps,
+    });
+
+    // Alias record for the internal ALB, resolving to private addresses
+    this.adminRecord = new route53.ARecord(this, "AdminALBARecord", {
+      recordName: admin.domainName,
+      target: route53.RecordTarget.fromAlias(new route53targets.LoadBalancerTarget(this.adminLoadBalancer)),
+      zone: zone,
+    });
+    this.adminRecord.node.addDependency(this.adminLoadBalancer);
+    // Failed over together with the public record
+    routeOnFailover(this.adminRecord);
+  }
+}
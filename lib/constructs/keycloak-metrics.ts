@@ -0,0 +1,72 @@
+import { aws_ecs as ecs, aws_iam as iam, aws_logs as logs } from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+import { renderCollectorConfig } from "../metrics";
+
+export interface KeycloakMetricsProps {
+  serviceName: string;
+  cluster: ecs.ICluster;
+  taskDefinition: ecs.TaskDefinition;
+  containerPort: number;
+  // Log group of the collector's own logs
+  logGroup: logs.ILogGroup;
+}
+
+// ADOT collector sidecar publishing the allow-listed Keycloak Prometheus metrics as CloudWatch custom metrics
+export class KeycloakMetrics extends Construct {
+  public readonly container: ecs.ContainerDefinition;
+  public readonly metricsLogGroup: logs.LogGroup;
+
+  constructor(scope: Construct, id: string, props: KeycloakMetricsProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const metrics = common.getMetricsParameter();
+
+    // Log group receiving the embedded metric format records
+    this.metricsLogGroup = new logs.LogGroup(this, "LogGroup", {
+      logGroupName: common.getResourceNamePath(`ecs/${serviceName}/metrics`),
+      retention: common.getLogsRetentionDays(),
+      removalPolicy: common.getRemovalPolicy(),
+    });
+    NagSuppressions.addResourceSuppressions(this.metricsLogGroup, [
+      { id: "HIPAA.Security-CloudWatchLogGroupEncrypted", reason: "Metric records only, encrypted by CloudWatch Logs" },
+    ]);
+    this.metricsLogGroup.grantWrite(props.taskDefinition.taskRole);
+    props.taskDefinition.taskRole.addToPrincipalPolicy(
+      new iam.PolicyStatement({
+        actions: ["logs:DescribeLogStreams", "logs:DescribeLogGroups"],
+        resources: [this.metricsLogGroup.logGroupArn],
+      })
+    );
+
+    // Collector sidecar, not essential so that a collector failure does not stop Keycloak
+    this.container = props.taskDefinition.addContainer("MetricsCollector", {
+      containerName: `${serviceName}-metrics-collector`,
+      image: ecs.ContainerImage.fromRegistry(metrics.image),
+      essential: false,
+      memoryReservationMiB: 128,
+      environment: {
+        AOT_CONFIG_CONTENT: renderCollectorConfig({
+          namespace: metrics.namespace,
+          scrapeInterval: metrics.scrapeInterval,
+          allowList: metrics.allowList,
+          target: `localhost:${props.containerPort}`,
+          metricsPath: `${common.getHttpRelativePath()}/metrics`,
+          logGroupName: this.metricsLogGroup.logGroupName,
+          dimensions: {
+            ClusterName: props.cluster.clusterName,
+            // Name of the service, referencing the service itself would be a circular dependency
+            ServiceName: common.getResourceName(`${serviceName}-service`),
+          },
+        }),
+      },
+      logging: ecs.LogDrivers.awsLogs({
+        logGroup: props.logGroup,
+        streamPrefix: `${serviceName}-metrics-collector`,
+      }),
+    });
+  }
+}
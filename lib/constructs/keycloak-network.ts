@@ -0,0 +1,95 @@
+import { aws_ec2 as ec2, aws_ssm as ssm } from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+import { IExistingVpcParameter } from "../config";
+
+export interface KeycloakNetworkProps {
+  // Shared VPC to import, a new VPC is created when omitted
+  existingVpc?: IExistingVpcParameter;
+}
+
+// VPC with public subnets for the load balancer and private subnets for ECS and the database
+export class KeycloakNetwork extends Construct {
+  public readonly vpc: ec2.IVpc;
+  public readonly publicSubnets: ec2.SelectedSubnets;
+  public readonly privateSubnets: ec2.SelectedSubnets;
+  // Public addresses of the NAT gateways, the configured ones of a shared VPC
+  public readonly natPublicIps: string[];
+
+  constructor(scope: Construct, id: string, props: KeycloakNetworkProps = {}) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const existingVpc = props.existingVpc;
+    if (existingVpc) {
+      // Shared Vpc looked up by ID, or by the ID stored in SSM parameter store
+      this.vpc = ec2.Vpc.fromLookup(this, "VPC", {
+        vpcId:
+          existingVpc.vpcId ??
+          common.sanitizeString(ssm.StringParameter.valueFromLookup(this, existingVpc.vpcIdParameterName!)),
+      });
+      this.publicSubnets = this.vpc.selectSubnets(
+        existingVpc.publicSubnetGroupName
+          ? { subnetGroupName: existingVpc.publicSubnetGroupName }
+          : { subnetType: ec2.SubnetType.PUBLIC }
+      );
+      this.privateSubnets = this.vpc.selectSubnets(
+        existingVpc.privateSubnetGroupName
+          ? { subnetGroupName: existingVpc.privateSubnetGroupName }
+          : { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS }
+      );
+      this.natPublicIps = existingVpc.natPublicIps ?? [];
+      return;
+    }
+
+    // Base Vpc
+    this.vpc = new ec2.Vpc(this, "VPC", {
+      ipAddresses: common.getVpcParameter().ipAddresses,
+      enableDnsHostnames: true,
+      enableDnsSupport: true,
+      natGateways: common.getVpcParameter().natGateways,
+      maxAzs: common.getVpcParameter().maxAzs,
+      subnetConfiguration: [
+        {
+          name: "Public",
+          subnetType: ec2.SubnetType.PUBLIC,
+          cidrMask: common.getVpcParameter().subnetCidrMask,
+        },
+        {
+          name: "Private",
+          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+          cidrMask: common.getVpcParameter().subnetCidrMask,
+        },
+      ],
+    });
+    this.publicSubnets = this.vpc.selectSubnets({ subnetType: ec2.SubnetType.PUBLIC });
+    this.privateSubnets = this.vpc.selectSubnets({ subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS });
+    this.natPublicIps = this.vpc.publicSubnets.flatMap((subnet) => {
+      const eip = subnet.node.tryFindChild("EIP") as ec2.CfnEIP | undefined;
+      return eip ? [eip.ref] : [];
+    });
+
+    // Accepted compliance findings
+    NagSuppressions.addResourceSuppressions(
+      this.vpc,
+      [
+        {
+          id: "AwsSolutions-VPC7",
+          reason: "Flow logs are not enabled, requests to Keycloak are logged by the WAF when enabled",
+        },
+        { id: "HIPAA.Security-VPCFlowLogsEnabled", reason: "Flow logs are not enabled, see AwsSolutions-VPC7" },
+        {
+          id: "HIPAA.Security-VPCNoUnrestrictedRouteToIGW",
+          reason: "Public subnets hold the internet-facing ALB and the NAT gateways only",
+        },
+        {
+          id: "HIPAA.Security-VPCSubnetAutoAssignPublicIpDisabled",
+          reason: "Public subnets hold the internet-facing ALB and the NAT gateways only",
+        },
+        { id: "HIPAA.Security-VPCDefaultSecurityGroupClosed", reason: "No resource uses the default security group" },
+      ],
+      true
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import {
+  Duration,
+  aws_cloudwatch as cw,
+  aws_cloudwatch_actions as cw_actions,
+  aws_ecs as ecs,
+  aws_elasticloadbalancingv2 as elbv2,
+  aws_rds as rds,
+  aws_sns as sns,
+  aws_sns_subscriptions as subscriptions,
+} from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+
+export interface KeycloakObservabilityProps {
+  serviceName: string;
+  loadBalancer: elbv2.ApplicationLoadBalancer;
+  targetGroup: elbv2.ApplicationTargetGroup;
+  service: ecs.FargateService;
+  // Aurora cluster, no database widgets and alarms for an existing database
+  databaseCluster?: rds.DatabaseCluster;
+}
+
+// CloudWatch dashboard and alarms for the ALB, the ECS service and Aurora, notified through SNS
+export class KeycloakObservability extends Construct {
+  public readonly topic: sns.ITopic;
+  public readonly dashboard: cw.Dashboard;
+  public readonly alarms: cw.Alarm[] = [];
+
+  constructor(scope: Construct, id: string, props: KeycloakObservabilityProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const monitoring = common.getMonitoringParameter();
+    const thresholds = monitoring.thresholds;
+    const period: Duration = monitoring.period;
+
+    // Alarm topic, either an existing one or one with email subscriptions
+    if (monitoring.notifications.topicArn) {
+      this.topic = sns.Topic.fromTopicArn(this, "AlarmTopic", monitoring.notifications.topicArn);
+    } else {
+      const topicName = common.getResourceName(`${serviceName}-alarm-topic`);
+      const topic = new sns.Topic(this, "AlarmTopic", {
+        topicName: topicName,
+        displayName: topicName,
+      });
+      (monitoring.notifications.emails ?? []).forEach((email: string) => {
+        topic.addSubscription(new subscriptions.EmailSubscription(email));
+      });
+      NagSuppressions.addResourceSuppressions(topic, [
+        { id: "AwsSolutions-SNS2", reason: "Alarm notifications carry alarm names and states only" },
+        { id: "HIPAA.Security-SNSEncryptedKMS", reason: "See AwsSolutions-SNS2" },
+        { id: "AwsSolutions-SNS3", reason: "Published by CloudWatch alarms and delivered by email only" },
+      ]);
+      this.topic = topic;
+    }
+
+    // Metrics
+    const alb = props.loadBalancer.metrics;
+    const target = props.targetGroup.metrics;
+    const http5xx = new cw.MathExpression({
+      expression: "FILL(elb, 0) + FILL(target, 0)",
+      usingMetrics: {
+        elb: alb.httpCodeElb(elbv2.HttpCodeElb.ELB_5XX_COUNT, { period: period }),
+        target: alb.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period: period }),
+      },
+      label: "5xx responses",
+      period: period,
+    });
+    const responseTime = target.targetResponseTime({ statistic: "p99", period: period });
+    const unhealthyHosts = target.unhealthyHostCount({ statistic: "Maximum", period: period });
+    const healthyHosts = target.healthyHostCount({ statistic: "Minimum", period: period });
+    const cpu = props.service.metricCpuUtilization({ period: period });
+    const memory = props.service.metricMemoryUtilization({ period: period });
+    const runningTasks = new cw.Metric({
+      namespace: "ECS/ContainerInsights",
+      metricName: "RunningTaskCount",
+      dimensionsMap: {
+        ClusterName: props.service.cluster.clusterName,
+        ServiceName: props.service.serviceName,
+      },
+      statistic: "Minimum",
+      period: period,
+    });
+
+    // Alarms sent to the topic on state changes in both directions
+    const addAlarm = (
+      id: string,
+      name: string,
+      metric: cw.Metric | cw.MathExpression,
+      options: Omit<cw.CreateAlarmOptions, "evaluationPeriods">
+    ) => {
+      const alarm = metric.createAlarm(this, `${id}Alarm`, {
+        alarmName: common.getResourceName(`${serviceName}-${name}-alarm`),
+        evaluationPeriods: monitoring.evaluationPeriods,
+        treatMissingData: cw.TreatMissingData.NOT_BREACHING,
+        ...options,
+      });
+      alarm.addAlarmAction(new cw_actions.SnsAction(this.topic));
+      alarm.addOkAction(new cw_actions.SnsAction(this.topic));
+      this.alarms.push(alarm);
+      return alarm;
+    };
+    addAlarm("Http5xx", "http-5xx", http5xx, {
+      alarmDescription: "ALB and target 5xx responses",
+      threshold: thresholds.http5xxCount,
+      comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    addAlarm("TargetResponseTime", "target-response-time", responseTime, {
+      alarmDescription: "p99 response time of Keycloak in seconds",
+      threshold: thresholds.targetResponseTime,
+      comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    addAlarm("UnhealthyHosts", "unhealthy-hosts", unhealthyHosts, {
+      alarmDescription: "Targets failing the ALB health check",
+      threshold: 1,
+      comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    addAlarm("EcsCpuUtilization", "ecs-cpu-utilization", cpu, {
+      alarmDescription: "CPU utilization of the ECS service in percent",
+      threshold: thresholds.ecsCpuUtilization,
+      comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    addAlarm("EcsMemoryUtilization", "ecs-memory-utilization", memory, {
+      alarmDescription: "Memory utilization of the ECS service in percent",
+      threshold: thresholds.ecsMemoryUtilization,
+      comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    if (common.getEcsParameter().service.nodeCount > 0) {
+      addAlarm("RunningTasks", "running-tasks", runningTasks, {
+        alarmDescription: "No running task in the ECS service",
+        threshold: 1,
+        comparisonOperator: cw.ComparisonOperator.LESS_THAN_THRESHOLD,
+        treatMissingData: cw.TreatMissingData.BREACHING,
+      });
+    }
+
+    // Dashboard
+    this.dashboard = new cw.Dashboard(this, "Dashboard", {
+      dashboardName: common.getGlobalResourceName(this, `${serviceName}-dashboard`),
+    });
+    const graph = (title: string, left: cw.IMetric[], leftAnnotations?: cw.HorizontalAnnotation[]) =>
+      new cw.GraphWidget({ title: title, left: left, leftAnnotations: leftAnnotations, width: 8, height: 6 });
+    this.dashboard.addWidgets(
+      graph("ALB 5xx responses", [http5xx], [{ value: thresholds.http5xxCount, label: "Alarm" }]),
+      graph(
+        "ALB target response time (p99)",
+        [responseTime],
+        [{ value: thresholds.targetResponseTime, label: "Alarm" }]
+      ),
+      graph("ALB target health", [healthyHosts, unhealthyHosts])
+    );
+    this.dashboard.addWidgets(
+      graph("ECS CPU utilization", [cpu], [{ value: thresholds.ecsCpuUtilization, label: "Alarm" }]),
+      graph("ECS memory utilization", [memory], [{ value: thresholds.ecsMemoryUtilization, label: "Alarm" }]),
+      graph("ECS running tasks", [runningTasks])
+    );
+
+    // Aurora widgets and alarms
+    const cluster = props.databaseCluster;
+    if (cluster) {
+      const capacity = cluster.metric("ServerlessDatabaseCapacity", { statistic: "Maximum", period: period });
+      const acuUtilization = cluster.metric("ACUUtilization", { statistic: "Maximum", period: period });
+      const connections = cluster.metricDatabaseConnections({ statistic: "Maximum", period: period });
+      const deadlocks = cluster.metricDeadlocks({ statistic: "Average", period: period });
+      addAlarm("RdsAcuUtilization", "rds-acu-utilization", acuUtilization, {
+        alarmDescription: "ACU utilization of the Aurora cluster in percent of the maximum capacity",
+        threshold: thresholds.rdsAcuUtilization,
+        comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      });
+      addAlarm("RdsDeadlocks", "rds-deadlocks", deadlocks, {
+        alarmDescription: "Deadlocks per second in the Aurora cluster",
+        threshold: thresholds.rdsDeadlocks,
+        comparisonOperator: cw.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      });
+      this.dashboard.addWidgets(
+        new cw.GraphWidget({
+          title: "Aurora capacity",
+          left: [capacity],
+          right: [acuUtilization],
+          rightAnnotations: [{ value: thresholds.rdsAcuUtilization, label: "Alarm" }],
+          width: 8,
+          height: 6,
+        }),
+        graph("Aurora connections", [connections]),
+        graph("Aurora deadlocks", [deadlocks], [{ value: thresholds.rdsDeadlocks, label: "Alarm" }])
+      );
+    }
+
+    this.dashboard.addWidgets(new cw.AlarmStatusWidget({ title: "Alarms", alarms: this.alarms, width: 24, height: 4 }));
+  }
+}
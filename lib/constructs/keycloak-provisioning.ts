@@ -0,0 +1,91 @@
+import {
+  CustomResource,
+  Duration,
+  aws_secretsmanager as asm,
+  aws_ec2 as ec2,
+  aws_lambda as lambda,
+  aws_lambda_nodejs as nodejs,
+  custom_resources as cr,
+} from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import * as path from "path";
+import type { IRealmState } from "../../src/lambda/provisioning/keycloak-admin";
+import { Common } from "../common";
+import { customResourceSuppressions } from "../compliance";
+
+export interface KeycloakProvisioningProps {
+  serviceName: string;
+  vpc: ec2.IVpc;
+  vpcSubnets: ec2.SubnetSelection;
+  // Base URL of Keycloak, e.g. `https://auth.example.com`
+  url: string;
+  // Master realm administrator with `username` and `password`
+  adminSecret: asm.ISecret;
+  realms: IRealmState[];
+  // Keep the realms when they are removed from the declaration or the resource is deleted
+  retainOnDelete: boolean;
+}
+
+// Custom resource applying realms, clients, roles, groups, identity providers and users through the Admin REST API
+export class KeycloakProvisioning extends Construct {
+  public readonly function: nodejs.NodejsFunction;
+  public readonly resource: CustomResource;
+
+  constructor(scope: Construct, id: string, props: KeycloakProvisioningProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+
+    // Provisioning function security group
+    const provisioningSecurityGroupName = common.getResourceName(`${serviceName}-provisioning-security-group`);
+    const provisioningSecurityGroup = new ec2.SecurityGroup(this, "ProvisioningSecurityGroup", {
+      securityGroupName: provisioningSecurityGroupName,
+      description: provisioningSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: true,
+    });
+    common.addNameTag(provisioningSecurityGroup, provisioningSecurityGroupName);
+
+    // Provisioning function
+    this.function = new nodejs.NodejsFunction(this, "ProvisioningFunction", {
+      functionName: common.getResourceName(`${serviceName}-provisioning`),
+      description: `Apply realms to ${serviceName} through the Admin REST API`,
+      entry: path.join(__dirname, "../../src/lambda/provisioning/index.ts"),
+      handler: "handler",
+      // Lock files are not tracked, only the project root is derived from this path
+      depsLockFilePath: path.join(__dirname, "../../package.json"),
+      runtime: lambda.Runtime.NODEJS_18_X,
+      architecture: lambda.Architecture.ARM_64,
+      memorySize: 256,
+      timeout: Duration.minutes(15),
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets,
+      securityGroups: [provisioningSecurityGroup],
+      logRetention: common.getLogsRetentionDays(),
+    });
+    props.adminSecret.grantRead(this.function);
+
+    // Custom resource provider
+    const provider = new cr.Provider(this, "ProvisioningProvider", {
+      onEventHandler: this.function,
+      logRetention: common.getLogsRetentionDays(),
+    });
+
+    // Realms are passed as a single JSON string since CloudFormation turns every property value into a string
+    this.resource = new CustomResource(this, "Provisioning", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::KeycloakProvisioning",
+      properties: {
+        Url: props.url,
+        AdminSecretArn: props.adminSecret.secretArn,
+        Realms: JSON.stringify(props.realms),
+        RetainOnDelete: String(props.retainOnDelete),
+      },
+    });
+
+    // Accepted compliance findings
+    NagSuppressions.addResourceSuppressions(this, customResourceSuppressions, true);
+  }
+}
@@ -0,0 +1,360 @@
+import {
+  Duration,
+  Stack,
+  aws_applicationautoscaling as aas,
+  aws_secretsmanager as asm,
+  aws_ec2 as ec2,
+  aws_ecr as ecr,
+  aws_ecs as ecs,
+  aws_iam as iam,
+  aws_logs as logs,
+  aws_servicediscovery as servicediscovery,
+} from "aws-cdk-lib";
+import { Destination, DockerImageDeployment, Source } from "cdk-docker-image-deployment";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+import { customResourceSuppressions } from "../compliance";
+import { KeycloakDatabase } from "./keycloak-database";
+
+export interface KeycloakServiceProps {
+  serviceName: string;
+  vpc: ec2.IVpc;
+  database: KeycloakDatabase;
+  // Public host name of Keycloak (`KC_HOSTNAME`)
+  domainName: string;
+  // Host name of the admin console (`KC_HOSTNAME_ADMIN`), the public host name when omitted
+  adminDomainName?: string;
+  // Standby in the DR region: runs the image pushed to the repository of its region, scaled to zero until a failover
+  standby?: boolean;
+}
+
+// Keycloak container image, ECS cluster and Fargate service with auto scaling
+export class KeycloakService extends Construct {
+  public readonly cluster: ecs.Cluster;
+  public readonly taskDefinition: ecs.FargateTaskDefinition;
+  public readonly service: ecs.FargateService;
+  public readonly userSecret: asm.Secret;
+  public readonly logGroup: logs.LogGroup;
+  public readonly containerPort: number;
+
+  constructor(scope: Construct, id: string, props: KeycloakServiceProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const database = props.database;
+    const env = common.getEnvironment();
+    const containerConfig = common.getContainer(serviceName);
+
+    // Image pushed by the pipeline to the container repository, or else built and pushed by the stack to the
+    // repository in its region, the standby pushes it to the one of the DR region
+    const pipelineImageTag = common.getImageTag();
+    const containerRepository = pipelineImageTag
+      ? common.getContainerRepository(this, serviceName)
+      : ecr.Repository.fromRepositoryArn(
+          this,
+          "ContainerRepository",
+          `arn:aws:ecr:${Stack.of(this).region}:${env.account}:repository/${containerConfig.repositoryName}`
+        );
+    if (!pipelineImageTag) {
+      // Render Dockerfile and cache config into the build context using parameters in 'cdk.json'
+      const buildContext = common.createBuildContext(serviceName);
+
+      // Deploy container image
+      const imageDeployment = new DockerImageDeployment(this, "KeycloakImageDeploy", {
+        source: Source.directory(buildContext, { buildArgs: containerConfig.buildArgs }),
+        destination: Destination.ecr(containerRepository, { tag: containerConfig.tag }),
+      });
+      NagSuppressions.addResourceSuppressions(
+        imageDeployment,
+        [
+          ...customResourceSuppressions,
+          { id: "AwsSolutions-IAM5", reason: "Build and push permissions of cdk-docker-image-deployment" },
+          {
+            id: "AwsSolutions-CB4",
+            reason: "Builds the image from the asset during deployments, no build output is kept",
+          },
+          { id: "AwsSolutions-SF1", reason: "Step Functions orchestration of cdk-docker-image-deployment" },
+          { id: "AwsSolutions-SF2", reason: "Step Functions orchestration of cdk-docker-image-deployment" },
+        ],
+        true
+      );
+    }
+
+    // Port settings, the JGroups ports of the Infinispan cluster are opened between the tasks
+    const cache = common.getCacheParameter(serviceName);
+    this.containerPort = 8080;
+    const ecsPortSettings = [
+      {
+        Port: this.containerPort,
+        Protocol: ecs.Protocol.TCP,
+        Description: "keycloak: http",
+        ECSServiceConnection: false,
+      },
+      ...cache.ports.map((obj) => ({
+        Port: obj.port,
+        Protocol: ecs.Protocol.TCP,
+        Description: `keycloak: ${obj.description}`,
+        ECSServiceConnection: true,
+      })),
+    ];
+
+    // ECS cluster
+    this.cluster = new ecs.Cluster(this, "ECSCluster", {
+      clusterName: common.getResourceName(`${serviceName}-cluster`),
+      vpc: props.vpc,
+      containerInsights: true,
+      // Private DNS namespace DNS_PING queries for the tasks
+      defaultCloudMapNamespace: cache.namespace
+        ? { name: cache.namespace, type: servicediscovery.NamespaceType.DNS_PRIVATE, vpc: props.vpc }
+        : undefined,
+    });
+    if (database.cluster) {
+      this.cluster.node.addDependency(database.cluster);
+    }
+
+    // ECS task execution role
+    const ecsTaskExecutionRole = new iam.Role(this, "ECSTaskExecutionRole", {
+      roleName: common.getGlobalResourceName(this, `${serviceName}-task-execution-role`),
+      assumedBy: new iam.CompositePrincipal(new iam.ServicePrincipal("ecs-tasks.amazonaws.com")),
+      managedPolicies: [iam.ManagedPolicy.fromAwsManagedPolicyName("AmazonEC2ContainerRegistryReadOnly")],
+    });
+
+    // ECS task role
+    const ecsTaskRole = new iam.Role(this, "ECSTaskRole", {
+      roleName: common.getGlobalResourceName(this, `${serviceName}-task-role`),
+      assumedBy: new iam.CompositePrincipal(new iam.ServicePrincipal("ecs-tasks.amazonaws.com")),
+    });
+
+    // ECS task definition
+    this.taskDefinition = new ecs.FargateTaskDefinition(this, "ECSTaskDefinitionBase", {
+      family: common.getResourceName(`${serviceName}-task-definition`),
+      cpu: common.getEcsParameter().taskDefinition.cpu,
+      memoryLimitMiB: common.getEcsParameter().taskDefinition.memoryLimitMiB,
+      runtimePlatform: {
+        operatingSystemFamily: ecs.OperatingSystemFamily.LINUX,
+        cpuArchitecture: ecs.CpuArchitecture.X86_64,
+      },
+      executionRole: ecsTaskExecutionRole,
+      taskRole: ecsTaskRole,
+    });
+
+    // Keycloak credential
+    this.userSecret = new asm.Secret(this, "UserSecret", {
+      secretName: common.getResourceName(`${serviceName}-user-secret`),
+      description: `Credentials for ${serviceName} user`,
+      generateSecretString: {
+        generateStringKey: "password",
+        excludePunctuation: true,
+        passwordLength: 12,
+        secretStringTemplate: JSON.stringify({ username: serviceName }),
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(this.userSecret, [
+      { id: "AwsSolutions-SMG4", reason: "Initial admin password, Keycloak keeps the password in its database" },
+      { id: "HIPAA.Security-SecretsManagerRotationEnabled", reason: "See AwsSolutions-SMG4" },
+      {
+        id: "HIPAA.Security-SecretsManagerUsingKMSKey",
+        reason: "Encrypted with the AWS managed key of Secrets Manager",
+      },
+    ]);
+
+    // ECS log group
+    this.logGroup = new logs.LogGroup(this, "ECSLogGroup", {
+      logGroupName: common.getResourceNamePath(`ecs/${serviceName}`),
+      retention: common.getLogsRetentionDays(),
+      removalPolicy: common.getRemovalPolicy(),
+    });
+    NagSuppressions.addResourceSuppressions(this.logGroup, [
+      { id: "HIPAA.Security-CloudWatchLogGroupEncrypted", reason: "Keycloak does not log credentials or tokens" },
+    ]);
+
+    // ECS port mappings
+    const ecsPortMappings: ecs.PortMapping[] = [];
+    ecsPortSettings.map((param) => {
+      ecsPortMappings.push({
+        containerPort: param.Port,
+        protocol: param.Protocol,
+      });
+    });
+
+    // Credentials of the remote Infinispan server
+    const remoteCacheSecret = cache.remote?.secretArn
+      ? asm.Secret.fromSecretCompleteArn(this, "RemoteCacheSecret", cache.remote.secretArn)
+      : undefined;
+
+    // Task definition with container definition added
+    this.taskDefinition.addContainer("ECSTaskDefinition", {
+      containerName: serviceName,
+      image: ecs.ContainerImage.fromEcrRepository(containerRepository, pipelineImageTag ?? containerConfig.tag),
+      command: common.getEcsParameter().taskDefinition.command,
+      secrets: {
+        ...(database.username ? {} : { KC_DB_USERNAME: ecs.Secret.fromSecretsManager(database.secret, "username") }),
+        KC_DB_PASSWORD: ecs.Secret.fromSecretsManager(database.secret, "password"),
+        KEYCLOAK_ADMIN: ecs.Secret.fromSecretsManager(this.userSecret, "username"),
+        KEYCLOAK_ADMIN_PASSWORD: ecs.Secret.fromSecretsManager(this.userSecret, "password"),
+        ...(remoteCacheSecret
+          ? {
+              KC_REMOTE_CACHE_USERNAME: ecs.Secret.fromSecretsManager(remoteCacheSecret, "username"),
+              KC_REMOTE_CACHE_PASSWORD: ecs.Secret.fromSecretsManager(remoteCacheSecret, "password"),
+            }
+          : {}),
+      },
+      logging: ecs.LogDrivers.awsLogs({
+        logGroup: this.logGroup,
+        streamPrefix: serviceName,
+      }),
+      environment: {
+        KC_CACHE_CONFIG_FILE: cache.configFile,
+        KC_DB: database.kcDb,
+        KC_DB_URL: database.jdbcUrl,
+        KC_DB_URL_DATABASE: database.databaseName,
+        KC_DB_URL_HOST: database.hostname,
+        KC_DB_URL_PORT: String(database.port),
+        ...(database.username ? { KC_DB_USERNAME: database.username } : {}),
+        KC_HOSTNAME: props.domainName,
+        ...(props.adminDomainName ? { KC_HOSTNAME_ADMIN: props.adminDomainName } : {}),
+        ...common.getKeycloakOptions().runtime,
+      },
+      portMappings: ecsPortMappings,
+      // Liveness only, so that a database outage does not get every task replaced. The image has no curl, bash opens
+      // the connection itself.
+      healthCheck: {
+        command: [
+          "CMD-SHELL",
+          `exec 3<>/dev/tcp/127.0.0.1/${this.containerPort} && ` +
+            `printf 'GET ${common.getHttpRelativePath()}/health/live HTTP/1.1\\r\\nHost: localhost\\r\\nConnection: close\\r\\n\\r\\n' >&3 && ` +
+            `head -n 1 <&3 | grep -q ' 200'`,
+        ],
+        ...common.getEcsParameter().service.containerHealthCheck,
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(this.taskDefinition, [
+      { id: "AwsSolutions-ECS2", reason: "Settings only, credentials are passed as secrets, see Keycloak-ECS1" },
+    ]);
+
+    // Allow execution role to read the secrets
+    database.secret.grantRead(this.taskDefinition.executionRole!);
+    this.userSecret.grantRead(this.taskDefinition.executionRole!);
+    remoteCacheSecret?.grantRead(this.taskDefinition.executionRole!);
+
+    // ECS service security group
+    const ecsServiceSecurityGroupName = common.getResourceName(`${serviceName}-ecs-service-security-group`);
+    const ecsServiceSecurityGroup = new ec2.SecurityGroup(this, "ECSServiceSecurityGroup", {
+      securityGroupName: ecsServiceSecurityGroupName,
+      description: ecsServiceSecurityGroupName,
+      vpc: props.vpc,
+      allowAllOutbound: true,
+    });
+    common.addNameTag(ecsServiceSecurityGroup, ecsServiceSecurityGroupName);
+
+    // ECS service, task definition updates are deployed by CodeDeploy with blue/green deployments except in the standby
+    const blueGreen = common.getBlueGreenParameter().enabled && !props.standby;
+    this.service = new ecs.FargateService(this, "ECSService", {
+      serviceName: common.getResourceName(`${serviceName}-service`),
+      cluster: this.cluster,
+      taskDefinition: this.taskDefinition,
+      circuitBreaker: common.getEcsParameter().service.circuitBreaker,
+      desiredCount: props.standby ? 0 : common.getEcsParameter().service.nodeCount,
+      healthCheckGracePeriod: common.getEcsParameter().service.healthCheckGracePeriod,
+      securityGroups: [ecsServiceSecurityGroup],
+      enableECSManagedTags: true,
+      enableExecuteCommand: true,
+      deploymentController: blueGreen ? { type: ecs.DeploymentControllerType.CODE_DEPLOY } : undefined,
+      // A records of the tasks resolved by DNS_PING, short-lived so that new tasks join quickly
+      cloudMapOptions: cache.namespace
+        ? { name: serviceName, dnsRecordType: servicediscovery.DnsRecordType.A, dnsTtl: Duration.seconds(10) }
+        : undefined,
+    });
+    NagSuppressions.addResourceSuppressions(
+      ecsTaskExecutionRole,
+      [
+        { id: "AwsSolutions-IAM4", reason: "Image pulls from ECR with the AWS managed read-only policy" },
+        { id: "AwsSolutions-IAM5", reason: "ecr:GetAuthorizationToken has no resource-level permissions" },
+      ],
+      true
+    );
+    NagSuppressions.addResourceSuppressions(
+      ecsTaskRole,
+      [{ id: "AwsSolutions-IAM5", reason: "ECS Exec session permissions, which have no resource-level permissions" }],
+      true
+    );
+    if (blueGreen) {
+      // CloudFormation cannot update the task definition of a CodeDeploy service, the family refers to the latest
+      // revision and stays the same
+      const cfnService = this.service.node.defaultChild as ecs.CfnService;
+      cfnService.taskDefinition = this.taskDefinition.family;
+      cfnService.addDependency(this.taskDefinition.node.defaultChild as ecs.CfnTaskDefinition);
+    }
+
+    // ECS allowed traffic
+    ecsPortSettings.map((param) => {
+      if (param.ECSServiceConnection) {
+        this.service.connections.allowFrom(
+          this.service.connections,
+          param.Protocol === ecs.Protocol.TCP ? ec2.Port.tcp(param.Port) : ec2.Port.udp(param.Port),
+          param.Description
+        );
+      }
+    });
+
+    // Allow ECS service connect to database
+    database.connections.allowDefaultPortFrom(this.service, "Allow ECS service connect to database");
+
+    // Allow ECS service connect to the remote Infinispan server
+    if (cache.remote?.securityGroupId) {
+      const remoteCacheSecurityGroup = ec2.SecurityGroup.fromSecurityGroupId(
+        this,
+        "RemoteCacheSecurityGroup",
+        cache.remote.securityGroupId
+      );
+      remoteCacheSecurityGroup.connections.allowFrom(
+        this.service,
+        ec2.Port.tcp(cache.remote.port),
+        "Allow ECS service connect to remote cache"
+      );
+    }
+
+    // ECS auto scaling capacity, the standby is scaled out by raising its minimum capacity on a failover
+    const ecsAutoScaling = this.service.autoScaleTaskCount({
+      minCapacity: props.standby ? 0 : common.getEcsParameter().service.scaling.base.minCapacity,
+      maxCapacity: common.getEcsParameter().service.scaling.base.maxCapacity,
+    });
+
+    // ECS auto scaling by cpu utilization
+    ecsAutoScaling.scaleOnCpuUtilization("ECSCPUScaling", {
+      policyName: common.getResourceName(`${serviceName}-cpu-scaling-policy`),
+      targetUtilizationPercent: common.getEcsParameter().service.scaling.base.cpuUtilization,
+      scaleOutCooldown: common.getEcsParameter().service.scaling.base.scaleOutCooldown,
+      scaleInCooldown: common.getEcsParameter().service.scaling.base.scaleInCooldown,
+    });
+
+    // ECS auto scaling by schedule, none in the standby
+    if (props.standby) {
+      return;
+    }
+    ecsAutoScaling.scaleOnSchedule("ECSScalingOutBeforeOpening", {
+      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.beforeOpening.cron),
+      minCapacity: common.getEcsParameter().service.scaling.schedule.beforeOpening.minCapacity,
+      maxCapacity: common.getEcsParameter().service.scaling.schedule.beforeOpening.maxCapacity,
+    });
+    ecsAutoScaling.scaleOnSchedule("ECSScalingInAfterOpening", {
+      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.afterOpening.cron),
+      minCapacity: common.getEcsParameter().service.scaling.schedule.afterOpening.minCapacity,
+      maxCapacity: common.getEcsParameter().service.scaling.schedule.afterOpening.maxCapacity,
+    });
+    ecsAutoScaling.scaleOnSchedule("ECSScalingOutBeforeClosing", {
+      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.beforeClosing.cron),
+      minCapacity: common.getEcsParameter().service.scaling.schedule.beforeClosing.minCapacity,
+      maxCapacity: common.getEcsParameter().service.scaling.schedule.beforeClosing.maxCapacity,
+    });
+    ecsAutoScaling.scaleOnSchedule("ECSScalingInAfterClosing", {
+      schedule: aas.Schedule.cron(common.getEcsParameter().service.scaling.schedule.afterClosing.cron),
+      minCapacity: common.getEcsParameter().service.scaling.schedule.afterClosing.minCapacity,
+      maxCapacity: common.getEcsParameter().service.scaling.schedule.afterClosing.maxCapacity,
+    });
+  }
+}
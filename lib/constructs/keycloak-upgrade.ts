@@ -0,0 +1,150 @@
+import {
+  ArnFormat,
+  CustomResource,
+  Duration,
+  Stack,
+  aws_iam as iam,
+  aws_lambda as lambda,
+  aws_lambda_nodejs as nodejs,
+  aws_rds as rds,
+  custom_resources as cr,
+} from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import * as path from "path";
+import { Common } from "../common";
+import { customResourceSuppressions } from "../compliance";
+
+export interface KeycloakUpgradeProps {
+  serviceName: string;
+  // Keycloak version of the image, e.g. `21.0.2`
+  version: string;
+  // SSM parameter of the version record, e.g. `/app/dev/feature/keycloak/version`
+  parameterName: string;
+  // Cluster snapshotted before an upgrade, none when omitted
+  databaseCluster?: rds.IDatabaseCluster;
+  // Accept a version lower than the recorded one
+  allowDowngrade: boolean;
+}
+
+// Custom resource guarding Keycloak version changes: refuses downgrades, snapshots the database before an upgrade
+// and records the current and previous version in SSM. The service depends on it, so that no task of the new
+// version runs its database migrations before the snapshot is available.
+export class KeycloakUpgrade extends Construct {
+  public readonly resource: CustomResource;
+
+  constructor(scope: Construct, id: string, props: KeycloakUpgradeProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const stack = Stack.of(this);
+
+    // Upgrade function role, shared by both handlers
+    const role = new iam.Role(this, "UpgradeRole", {
+      assumedBy: new iam.ServicePrincipal("lambda.amazonaws.com"),
+      managedPolicies: [iam.ManagedPolicy.fromAwsManagedPolicyName("service-role/AWSLambdaBasicExecutionRole")],
+    });
+    role.addToPolicy(
+      new iam.PolicyStatement({
+        actions: ["ssm:GetParameter", "ssm:PutParameter", "ssm:DeleteParameter"],
+        resources: [
+          stack.formatArn({ service: "ssm", resource: "parameter", resourceName: props.parameterName.substring(1) }),
+        ],
+      })
+    );
+    role.addToPolicy(
+      new iam.PolicyStatement({
+        actions: ["cloudformation:DescribeStacks"],
+        resources: [stack.stackId],
+      })
+    );
+    if (props.databaseCluster) {
+      const snapshotArn = stack.formatArn({
+        service: "rds",
+        resource: "cluster-snapshot",
+        resourceName: `${props.databaseCluster.clusterIdentifier}-v*`,
+        arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+      });
+      role.addToPolicy(
+        new iam.PolicyStatement({
+          actions: ["rds:CreateDBClusterSnapshot", "rds:AddTagsToResource"],
+          resources: [
+            stack.formatArn({
+              service: "rds",
+              resource: "cluster",
+              resourceName: props.databaseCluster.clusterIdentifier,
+              arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+            }),
+            snapshotArn,
+          ],
+        })
+      );
+      role.addToPolicy(
+        new iam.PolicyStatement({
+          actions: ["rds:DescribeDBClusterSnapshots"],
+          resources: [snapshotArn],
+        })
+      );
+    }
+
+    // Upgrade functions starting the snapshot and waiting for it
+    const functionProps = {
+      entry: path.join(__dirname, "../../src/lambda/upgrade/index.ts"),
+      // Lock files are not tracked, only the project root is derived from this path
+      depsLockFilePath: path.join(__dirname, "../../package.json"),
+      runtime: lambda.Runtime.NODEJS_18_X,
+      architecture: lambda.Architecture.ARM_64,
+      memorySize: 128,
+      timeout: Duration.minutes(1),
+      role: role,
+      logRetention: common.getLogsRetentionDays(),
+    };
+    const onEventFunction = new nodejs.NodejsFunction(this, "UpgradeFunction", {
+      ...functionProps,
+      functionName: common.getResourceName(`${serviceName}-upgrade`),
+      description: `Check the version of ${serviceName} and snapshot the database before an upgrade`,
+      handler: "onEvent",
+    });
+    const isCompleteFunction = new nodejs.NodejsFunction(this, "UpgradeCompleteFunction", {
+      ...functionProps,
+      functionName: common.getResourceName(`${serviceName}-upgrade-complete`),
+      description: `Wait for the database snapshot before ${serviceName} is upgraded`,
+      handler: "isComplete",
+    });
+
+    // Custom resource provider, CloudFormation waits for custom resources up to an hour
+    const provider = new cr.Provider(this, "UpgradeProvider", {
+      onEventHandler: onEventFunction,
+      isCompleteHandler: isCompleteFunction,
+      queryInterval: Duration.minutes(1),
+      totalTimeout: Duration.minutes(55),
+      logRetention: common.getLogsRetentionDays(),
+    });
+
+    this.resource = new CustomResource(this, "Upgrade", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::KeycloakUpgrade",
+      properties: {
+        Version: props.version,
+        ParameterName: props.parameterName,
+        DbClusterIdentifier: props.databaseCluster?.clusterIdentifier ?? "",
+        AllowDowngrade: String(props.allowDowngrade),
+      },
+    });
+
+    // Accepted compliance findings
+    NagSuppressions.addResourceSuppressions(this, customResourceSuppressions, true);
+    NagSuppressions.addResourceSuppressions(
+      role,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Snapshots are named after the version at deployment time, all share the prefix of the cluster",
+          appliesTo: [{ regex: "/^Resource::arn:<AWS::Partition>:rds:.*:cluster-snapshot:.*-v\\*$/g" }],
+        },
+      ],
+      true
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Stack,
+  aws_elasticloadbalancingv2 as elbv2,
+  aws_iam as iam,
+  aws_s3 as s3,
+  aws_wafv2 as wafv2,
+} from "aws-cdk-lib";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { Common } from "../common";
+import { IManagedRuleGroupParameter, rateLimitedPaths, splitCidrs } from "../waf";
+
+export interface KeycloakWafProps {
+  serviceName: string;
+  loadBalancer: elbv2.ApplicationLoadBalancer;
+}
+
+// WAF web ACL of the ALB: IP allow and deny lists, rate limits on the login endpoints and managed rule groups,
+// with the requests logged to S3
+export class KeycloakWaf extends Construct {
+  public readonly webAcl: wafv2.CfnWebACL;
+  public readonly logBucket: s3.Bucket;
+
+  constructor(scope: Construct, id: string, props: KeycloakWafProps) {
+    super(scope, id);
+
+    const common = Common.of(this);
+    const serviceName = props.serviceName;
+    const waf = common.getWafParameter();
+    const rules: wafv2.CfnWebACL.RuleProperty[] = [];
+
+    // Rules are evaluated in the order they are added
+    const visibilityConfig = (name: string): wafv2.CfnWebACL.VisibilityConfigProperty => ({
+      cloudWatchMetricsEnabled: true,
+      metricName: common.getResourceName(`${serviceName}-${name}`),
+      sampledRequestsEnabled: true,
+    });
+    const addRule = (
+      name: string,
+      rule: Omit<wafv2.CfnWebACL.RuleProperty, "name" | "priority" | "visibilityConfig">
+    ) => {
+      rules.push({ name: name, priority: rules.length, visibilityConfig: visibilityConfig(name), ...rule });
+    };
+
+    // IP sets, one per address version
+    const ipSetStatement = (name: string, cidrs: string[]): wafv2.CfnWebACL.StatementProperty | undefined => {
+      const statements = Object.entries(splitCidrs(cidrs))
+        .filter(([, addresses]) => addresses.length)
+        .map(([version, addresses]) => {
+          const ipSetName = common.getResourceName(`${serviceName}-${name}-${version}`);
+          const ipSet = new wafv2.CfnIPSet(this, `${common.capitalizeString(name)}${version.toUpperCase()}IPSet`, {
+            name: ipSetName,
+            description: ipSetName,
+            scope: "REGIONAL",
+            ipAddressVersion: version.toUpperCase(),
+            addresses: addresses,
+          });
+          return { ipSetReferenceStatement: { arn: ipSet.attrArn } };
+        });
+      return statements.length > 1 ? { orStatement: { statements: statements } } : statements[0];
+    };
+    const allowStatement = ipSetStatement("allow", waf.allowList);
+    if (allowStatement) {
+      addRule("allow-list", { statement: allowStatement, action: { allow: {} } });
+    }
+    const denyStatement = ipSetStatement("deny", waf.denyList);
+    if (denyStatement) {
+      addRule("deny-list", { statement: denyStatement, action: { block: {} } });
+    }
+
+    // Rate limits per client IP, on the decoded path since Keycloak decodes it as well
+    const paths = rateLimitedPaths(common.getHttpRelativePath());
+    const addRateLimit = (name: string, limit: number, path: string) => {
+      addRule(name, {
+        statement: {
+          rateBasedStatement: {
+            limit: limit,
+            aggregateKeyType: "IP",
+            scopeDownStatement: {
+              regexMatchStatement: {
+                regexString: path,
+                fieldToMatch: { uriPath: {} },
+                textTransformations: [{ priority: 0, type: "URL_DECODE" }],
+              },
+            },
+          },
+        },
+        action: { block: {} },
+      });
+    };
+    addRateLimit("token-rate-limit", waf.rateLimits.token, paths.token);
+    addRateLimit("login-actions-rate-limit", waf.rateLimits.loginActions, paths.loginActions);
+
+    // Managed rule groups
+    waf.managedRuleGroups.forEach((group: Required<IManagedRuleGroupParameter>) => {
+      addRule(group.name, {
+        statement: {
+          managedRuleGroupStatement: {
+            vendorName: group.vendor,
+            name: group.name,
+            ruleActionOverrides: group.countRules.length
+              ? group.countRules.map((rule) => ({ name: rule, actionToUse: { count: {} } }))
+              : undefined,
+          },
+        },
+        overrideAction: { none: {} },
+      });
+    });
+
+    // Web ACL
+    const webAclName = common.getResourceName(`${serviceName}-web-acl`);
+    this.webAcl = new wafv2.CfnWebACL(this, "WebACL", {
+      name: webAclName,
+      description: webAclName,
+      scope: "REGIONAL",
+      defaultAction: { allow: {} },
+      rules: rules,
+      visibilityConfig: visibilityConfig("web-acl"),
+    });
+    new wafv2.CfnWebACLAssociation(this, "WebACLAssociation", {
+      resourceArn: props.loadBalancer.loadBalancerArn,
+      webAclArn: this.webAcl.attrArn,
+    });
+
+    // Log bucket, WAF requires the `aws-waf-logs-` prefix
+    this.logBucket = common.createBucket(this, "LogBucket", {
+      bucketName: `aws-waf-logs-${common.getGlobalResourceName(this, serviceName)}-${Stack.of(this).account}`,
+      lifecycle: true,
+      parameterStore: false,
+    });
+    NagSuppressions.addResourceSuppressions(this.logBucket, [
+      { id: "AwsSolutions-S1", reason: "Log bucket written by the log delivery service only" },
+      { id: "HIPAA.Security-S3BucketLoggingEnabled", reason: "See AwsSolutions-S1" },
+      {
+        id: "HIPAA.Security-S3BucketReplicationEnabled",
+        reason: "Request logs expire with the lifecycle of the bucket",
+      },
+      { id: "HIPAA.Security-S3BucketVersioningEnabled", reason: "Log objects are written once and never updated" },
+      {
+        id: "HIPAA.Security-S3DefaultEncryptionKMS",
+        reason: "Encrypted with S3 managed keys, credentials are redacted",
+      },
+    ]);
+    const logPrefix = this.logBucket.arnForObjects(`AWSLogs/${Stack.of(this).account}/*`);
+    const sourceConditions = {
+      StringEquals: { "aws:SourceAccount": Stack.of(this).account },
+      ArnLike: { "aws:SourceArn": Stack.of(this).formatArn({ service: "logs", resource: "*" }) },
+    };
+    this.logBucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        principals: [new iam.ServicePrincipal("delivery.logs.amazonaws.com")],
+        actions: ["s3:PutObject"],
+        resources: [logPrefix],
+        conditions: {
+          ...sourceConditions,
+          StringEquals: { ...sourceConditions.StringEquals, "s3:x-amz-acl": "bucket-owner-full-control" },
+        },
+      })
+    );
+    this.logBucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        principals: [new iam.ServicePrincipal("delivery.logs.amazonaws.com")],
+        actions: ["s3:GetBucketAcl"],
+        resources: [this.logBucket.bucketArn],
+        conditions: sourceConditions,
+      })
+    );
+
+    // Request logs without credentials and session cookies
+    const logging = new wafv2.CfnLoggingConfiguration(this, "LoggingConfiguration", {
+      resourceArn: this.webAcl.attrArn,
+      logDestinationConfigs: [this.logBucket.bucketArn],
+      redactedFields: [{ singleHeader: { Name: "authorization" } }, { singleHeader: { Name: "cookie" } }],
+    });
+    logging.node.addDependency(this.logBucket.policy!);
+  }
+}
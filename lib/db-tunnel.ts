@@ -0,0 +1,198 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+// Host the SSM session is opened on, which forwards the local port to the database
+export type DbTunnelVia = "ecs" | "bastion";
+
+export interface IDbTunnelOptions {
+  via: DbTunnelVia;
+  // Port of the database when omitted
+  localPort?: number;
+}
+
+// Names of the deployed resources, resolved with `Common.getResourceName()`
+export interface IDbTunnelNames {
+  region: string;
+  clusterName: string;
+  serviceName: string;
+  containerName: string;
+  bastionName: string;
+  dbClusterIdentifier: string;
+  dbSecretName: string;
+  // Used as is instead of looking up the Aurora cluster
+  existingDatabase?: { hostname: string; port: number; secretArn: string };
+}
+
+// Session target and the remote host it forwards to
+export interface IDbTunnel {
+  target: string;
+  host: string;
+  port: number;
+  localPort: number;
+  secretId: string;
+}
+
+// Runs `aws` with the arguments and returns the parsed JSON output, so that stubs can be injected
+export type AwsCli = (args: string[]) => Promise<unknown>;
+
+// Parts of the AWS CLI outputs the tunnel is resolved from
+interface IDescribeDbClustersOutput {
+  DBClusters?: { Endpoint?: string; Port: number }[];
+}
+
+interface IListTasksOutput {
+  taskArns?: string[];
+}
+
+interface IDescribeTasksOutput {
+  tasks?: {
+    taskArn: string;
+    enableExecuteCommand?: boolean;
+    containers?: { name: string; runtimeId?: string; managedAgents?: { name: string; lastStatus?: string }[] }[];
+  }[];
+}
+
+interface IDescribeInstancesOutput {
+  Reservations?: { Instances?: { InstanceId: string }[] }[];
+}
+
+// AWS CLI used outside of tests, the Session Manager plugin is required for the port forwarding anyway
+export const defaultAwsCli: AwsCli = async (args) => {
+  const { stdout } = await promisify(execFile)("aws", [...args, "--output", "json"], { maxBuffer: 16 * 1024 * 1024 });
+  return JSON.parse(stdout);
+};
+
+/**
+ * SSM port forwarding to the database through a running Keycloak task (ECS Exec) or the bastion host
+ */
+
+export class DbTunnel {
+  constructor(private readonly names: IDbTunnelNames, private readonly aws: AwsCli = defaultAwsCli) {}
+
+  // Parse `--via ecs|bastion` and `--local-port <port>`
+  public static parseArgs(argv: string[]): IDbTunnelOptions {
+    const options: IDbTunnelOptions = { via: "ecs" };
+    for (let index = 0; index < argv.length; index += 2) {
+      const [name, value] = [argv[index], argv[index + 1]];
+      if (name === "--via" && (value === "ecs" || value === "bastion")) {
+        options.via = value;
+      } else if (name === "--local-port" && /^\d+$/.test(value ?? "") && Number(value) >= 1 && Number(value) <= 65535) {
+        options.localPort = Number(value);
+      } else {
+        throw new Error(`Invalid argument '${[name, value].filter((arg) => arg !== undefined).join(" ")}'`);
+      }
+    }
+    return options;
+  }
+
+  // Arguments of `aws ssm start-session` forwarding the local port to the database
+  public static startSessionArgs(tunnel: IDbTunnel, region: string): string[] {
+    return [
+      "ssm",
+      "start-session",
+      "--region",
+      region,
+      "--target",
+      tunnel.target,
+      "--document-name",
+      "AWS-StartPortForwardingSessionToRemoteHost",
+      "--parameters",
+      JSON.stringify({
+        host: [tunnel.host],
+        portNumber: [String(tunnel.port)],
+        localPortNumber: [String(tunnel.localPort)],
+      }),
+    ];
+  }
+
+  // Resolve the session target and the database endpoint
+  public async resolve(options: IDbTunnelOptions): Promise<IDbTunnel> {
+    const database = await this.resolveDatabase();
+    return {
+      target: options.via === "bastion" ? await this.resolveBastionTarget() : await this.resolveEcsExecTarget(),
+      ...database,
+      localPort: options.localPort ?? database.port,
+    };
+  }
+
+  // Endpoint of the Aurora cluster, or of the existing database
+  private async resolveDatabase(): Promise<Pick<IDbTunnel, "host" | "port" | "secretId">> {
+    const existingDatabase = this.names.existingDatabase;
+    if (existingDatabase) {
+      return { host: existingDatabase.hostname, port: existingDatabase.port, secretId: existingDatabase.secretArn };
+    }
+    const output = await this.cli<IDescribeDbClustersOutput>([
+      "rds",
+      "describe-db-clusters",
+      "--db-cluster-identifier",
+      this.names.dbClusterIdentifier,
+    ]);
+    const cluster = output.DBClusters?.[0];
+    if (!cluster?.Endpoint) {
+      throw new Error(`Database cluster '${this.names.dbClusterIdentifier}' not found`);
+    }
+    return { host: cluster.Endpoint, port: cluster.Port, secretId: this.names.dbSecretName };
+  }
+
+  // `ecs:<cluster>_<task id>_<runtime id>` of the Keycloak container in a running task with ECS Exec enabled
+  private async resolveEcsExecTarget(): Promise<string> {
+    const { clusterName, serviceName, containerName } = this.names;
+    const list = await this.cli<IListTasksOutput>([
+      "ecs",
+      "list-tasks",
+      "--cluster",
+      clusterName,
+      "--service-name",
+      serviceName,
+    ]);
+    if (!list.taskArns?.length) {
+      throw new Error(`No running task in service '${serviceName}'`);
+    }
+    const output = await this.cli<IDescribeTasksOutput>([
+      "ecs",
+      "describe-tasks",
+      "--cluster",
+      clusterName,
+      "--tasks",
+      ...list.taskArns,
+    ]);
+    const task = (output.tasks ?? []).find(
+      (task) =>
+        task.enableExecuteCommand &&
+        task.containers?.some(
+          (container) =>
+            container.name === containerName &&
+            container.runtimeId &&
+            container.managedAgents?.some(
+              (agent) => agent.name === "ExecuteCommandAgent" && agent.lastStatus === "RUNNING"
+            )
+        )
+    );
+    if (!task) {
+      throw new Error(`No task in service '${serviceName}' with a running ECS Exec agent`);
+    }
+    const container = task.containers!.find((container) => container.name === containerName)!;
+    return `ecs:${clusterName}_${task.taskArn.split("/").pop()}_${container.runtimeId}`;
+  }
+
+  // Instance ID of the running bastion host
+  private async resolveBastionTarget(): Promise<string> {
+    const output = await this.cli<IDescribeInstancesOutput>([
+      "ec2",
+      "describe-instances",
+      "--filters",
+      `Name=tag:Name,Values=${this.names.bastionName}`,
+      "Name=instance-state-name,Values=running",
+    ]);
+    const instance = (output.Reservations ?? []).flatMap((reservation) => reservation.Instances ?? [])[0];
+    if (!instance) {
+      throw new Error(`No running bastion host '${this.names.bastionName}', enable 'ecs.bastion' or use '--via ecs'`);
+    }
+    return instance.InstanceId;
+  }
+
+  // Call the AWS CLI in the target region
+  private async cli<T>(args: string[]): Promise<T> {
+    return (await this.aws([...args, "--region", this.names.region])) as T;
+  }
+}
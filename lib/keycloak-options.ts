@@ -0,0 +1,160 @@
+import type { ConfigSchema } from "./config";
+
+/**
+ * Types
+ */
+
+// `params.keycloak`: Keycloak server configuration, routed to the image build or to the container
+export interface IKeycloakParameter {
+  // Features enabled and disabled with `kc.sh build`, e.g. `token-exchange` or `admin-fine-grained-authz`
+  features?: string[];
+  featuresDisabled?: string[];
+  // Build options written to the Dockerfile, e.g. `{ "KC_HTTP_RELATIVE_PATH": "/auth" }`
+  buildOptions?: { [name: string]: string };
+  // Runtime options set on the container, e.g. `{ "KC_SPI_EVENTS_LISTENER_JBOSS_LOGGING_SUCCESS_LEVEL": "info" }`
+  runtimeOptions?: { [name: string]: string };
+  // Root log level and categories, e.g. `INFO,org.keycloak.events:debug`
+  logLevel?: string;
+}
+
+// Options resolved from `params.keycloak` and the defaults
+export interface IKeycloakOptions {
+  build: { [name: string]: string };
+  runtime: { [name: string]: string };
+}
+
+/**
+ * Option definitions
+ */
+
+// Options that only take effect with `kc.sh build`. The container runs `start --optimized`, so setting them at
+// runtime requires a rebuild of the image.
+export const buildTimeOptions: readonly string[] = [
+  "KC_CACHE",
+  "KC_CACHE_CONFIG_FILE",
+  "KC_CACHE_STACK",
+  "KC_DB",
+  "KC_FEATURES",
+  "KC_FEATURES_DISABLED",
+  "KC_FIPS_MODE",
+  "KC_HEALTH_ENABLED",
+  "KC_HTTP_RELATIVE_PATH",
+  "KC_METRICS_ENABLED",
+  "KC_STORAGE",
+  "KC_TRANSACTION_XA_ENABLED",
+  "KC_VAULT",
+];
+
+// Options set by the stack from the database, domain and cache settings
+export const managedOptions: readonly string[] = [
+  "KC_CACHE_CONFIG_FILE",
+  "KC_DB",
+  "KC_DB_PASSWORD",
+  "KC_DB_URL",
+  "KC_DB_URL_DATABASE",
+  "KC_DB_URL_HOST",
+  "KC_DB_URL_PORT",
+  "KC_DB_USERNAME",
+  "KC_HOSTNAME",
+  "KC_HOSTNAME_ADMIN",
+];
+
+// Defaults kept unless overridden in `buildOptions` or `runtimeOptions`
+const defaultBuildOptions = {
+  KC_HEALTH_ENABLED: "true",
+  KC_METRICS_ENABLED: "true",
+};
+const defaultRuntimeOptions = {
+  KC_HOSTNAME_STRICT_BACKCHANNEL: "true",
+  KC_PROXY: "edge",
+};
+
+/**
+ * Schema definition
+ */
+
+const featureList: ConfigSchema = {
+  type: "array",
+  items: { type: "string", pattern: /^[a-z][a-z0-9-]*(:v\d+)?$/ },
+};
+const optionMap: ConfigSchema = { type: "map", values: { type: "string" } };
+
+export const keycloakSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    features: featureList,
+    featuresDisabled: featureList,
+    buildOptions: optionMap,
+    runtimeOptions: optionMap,
+    logLevel: { type: "string", pattern: /^[A-Za-z]+(,[\w.$-]+:[A-Za-z]+)*$/ },
+  },
+  optional: ["features", "featuresDisabled", "buildOptions", "runtimeOptions", "logLevel"],
+};
+
+/**
+ * Functions
+ */
+
+// Check option names and their routing, returns "<path>: <problem>" for each issue
+export function validateKeycloakOptions(keycloak: IKeycloakParameter | undefined, path: string): string[] {
+  const issues: string[] = [];
+  const disabled = Array.isArray(keycloak?.featuresDisabled) ? keycloak!.featuresDisabled : [];
+  (Array.isArray(keycloak?.features) ? keycloak!.features : []).forEach((feature, index) => {
+    if (disabled.includes(feature)) {
+      issues.push(`${path}.features[${index}]: '${feature}' also in featuresDisabled`);
+    }
+  });
+  const checkOptions = (key: "buildOptions" | "runtimeOptions") => {
+    const options = keycloak?.[key];
+    Object.keys(typeof options === "object" && options !== null ? options : {}).forEach((name) => {
+      const optionPath = `${path}.${key}.${name}`;
+      if (!/^KC_[A-Z0-9_]+$/.test(name)) {
+        issues.push(`${optionPath}: name must match /^KC_[A-Z0-9_]+$/`);
+      } else if (managedOptions.includes(name)) {
+        issues.push(`${optionPath}: set by the stack`);
+      } else if (name === "KC_FEATURES" || name === "KC_FEATURES_DISABLED") {
+        issues.push(`${optionPath}: use 'features' and 'featuresDisabled'`);
+      } else if (name === "KC_LOG_LEVEL") {
+        issues.push(`${optionPath}: use 'logLevel'`);
+      } else if (key === "runtimeOptions" && buildTimeOptions.includes(name)) {
+        issues.push(`${optionPath}: build option, changing it requires a rebuild of the image, set in 'buildOptions'`);
+      } else if (key === "buildOptions" && !buildTimeOptions.includes(name)) {
+        issues.push(`${optionPath}: runtime option, set in 'runtimeOptions'`);
+      } else if (name === "KC_HTTP_RELATIVE_PATH" && !/^\/[\w.~/-]*$/.test(options![name])) {
+        issues.push(`${optionPath}: '${options![name]}' must be a path starting with '/'`);
+      } else if (name === "KC_HEALTH_ENABLED" && options![name] !== "true") {
+        issues.push(`${optionPath}: required by the ALB and container health checks`);
+      }
+    });
+  };
+  checkOptions("buildOptions");
+  checkOptions("runtimeOptions");
+  return issues;
+}
+
+// Resolve build and runtime options from `params.keycloak` and the defaults
+export function resolveKeycloakOptions(keycloak: IKeycloakParameter = {}): IKeycloakOptions {
+  return {
+    build: {
+      ...(keycloak.features?.length ? { KC_FEATURES: keycloak.features.join(",") } : {}),
+      ...(keycloak.featuresDisabled?.length ? { KC_FEATURES_DISABLED: keycloak.featuresDisabled.join(",") } : {}),
+      ...defaultBuildOptions,
+      ...keycloak.buildOptions,
+    },
+    runtime: {
+      ...defaultRuntimeOptions,
+      ...(keycloak.logLevel ? { KC_LOG_LEVEL: keycloak.logLevel } : {}),
+      ...keycloak.runtimeOptions,
+    },
+  };
+}
+
+// Dockerfile `ENV` instructions, values with special characters are quoted and `$` is not expanded
+export function toDockerEnv(options: { [name: string]: string }): string {
+  return Object.entries(options)
+    .map(([name, value]) => {
+      const quoted = /^[\w.,:/@+-]*$/.test(value) ? value : JSON.stringify(value).replace(/\$/g, "\\$");
+      return `ENV ${name}=${quoted}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,145 @@
+import type { ConfigSchema } from "./config";
+import type { IKeycloakParameter } from "./keycloak-options";
+
+/**
+ * Types
+ */
+
+// `params.metrics`: AWS Distro for OpenTelemetry (ADOT) collector sidecar scraping the Keycloak `/metrics` endpoint
+export interface IMetricsParameter {
+  enabled: boolean;
+  // CloudWatch namespace of the custom metrics, `Keycloak` when omitted
+  namespace?: string;
+  // 60 when omitted
+  scrapeIntervalSeconds?: number;
+  // Regular expressions of the Prometheus metric names published to CloudWatch, `defaultAllowList` when omitted
+  allowList?: string[];
+  // Collector image, `defaultCollectorImage` when omitted
+  image?: string;
+}
+
+// Settings the collector configuration is rendered from
+export interface ICollectorOptions {
+  namespace: string;
+  scrapeInterval: number;
+  allowList: string[];
+  // Scrape target in the task, e.g. `localhost:8080`
+  target: string;
+  metricsPath: string;
+  logGroupName: string;
+  // Static dimensions of every metric
+  dimensions: { [name: string]: string };
+}
+
+export const defaultCollectorImage = "public.ecr.aws/aws-observability/aws-otel-collector:v0.29.0";
+
+// Metrics Keycloak 21 exposes with `KC_METRICS_ENABLED`: HTTP requests, database connection pool, JVM memory and
+// threads, and the entries of the Infinispan caches, the active user sessions being the entries of `sessions`
+export const defaultAllowList: readonly string[] = [
+  "^http_server_requests_seconds_(count|sum)$",
+  "^agroal_(active|available|awaiting)_count$",
+  "^jvm_memory_used_bytes$",
+  "^jvm_threads_live_threads$",
+  "^vendor_statistics_(approximate_entries|hit_ratio)$",
+];
+
+// Label of the Infinispan cache statistics, published as an additional dimension
+const cacheLabel = "cache";
+
+/**
+ * Schema definition
+ */
+
+export const metricsSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    enabled: { type: "boolean" },
+    namespace: { type: "string", pattern: /^[\w.\-/#:]{1,255}$/ },
+    scrapeIntervalSeconds: { type: "number", integer: true, min: 10, max: 300 },
+    allowList: { type: "array", minItems: 1, items: { type: "string", pattern: /\S/ } },
+    image: { type: "string", pattern: /^\S+:\S+$/ },
+  },
+  optional: ["namespace", "scrapeIntervalSeconds", "allowList", "image"],
+};
+
+/**
+ * Functions
+ */
+
+// Check that every allow-list entry is a valid regular expression and that Keycloak exposes its metrics, returns
+// "<path>: <problem>" for each issue
+export function validateMetrics(
+  metrics: IMetricsParameter | undefined,
+  path: string,
+  keycloak?: IKeycloakParameter
+): string[] {
+  const issues: string[] = [];
+  const metricsEnabled = keycloak?.buildOptions?.KC_METRICS_ENABLED;
+  if (metrics?.enabled === true && metricsEnabled !== undefined && metricsEnabled !== "true") {
+    issues.push(`${path}.enabled: requires 'KC_METRICS_ENABLED' of 'true' in 'params.keycloak.buildOptions'`);
+  }
+  (Array.isArray(metrics?.allowList) ? metrics!.allowList : []).forEach((pattern, index) => {
+    try {
+      new RegExp(pattern);
+    } catch (e) {
+      issues.push(`${path}.allowList[${index}]: '${pattern}' is not a valid regular expression`);
+    }
+  });
+  return issues;
+}
+
+// ADOT collector configuration: Prometheus receiver keeping the allow-listed metrics, exported as CloudWatch
+// embedded metric format. Rendered as JSON, which is valid YAML.
+export function renderCollectorConfig(options: ICollectorOptions): string {
+  const interval = `${options.scrapeInterval}s`;
+  const config = {
+    extensions: {
+      health_check: {},
+    },
+    receivers: {
+      prometheus: {
+        config: {
+          global: { scrape_interval: interval, scrape_timeout: "10s" },
+          scrape_configs: [
+            {
+              job_name: "keycloak",
+              metrics_path: options.metricsPath,
+              static_configs: [{ targets: [options.target], labels: options.dimensions }],
+              metric_relabel_configs: [
+                {
+                  source_labels: ["__name__"],
+                  regex: options.allowList.map((pattern) => `(?:${pattern.replace(/^\^|\$$/g, "")})`).join("|"),
+                  action: "keep",
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    processors: {
+      batch: { timeout: interval },
+    },
+    exporters: {
+      awsemf: {
+        namespace: options.namespace,
+        log_group_name: options.logGroupName,
+        dimension_rollup_option: "NoDimensionRollup",
+        // Metrics with the cache label are published per cache as well
+        metric_declarations: [
+          {
+            dimensions: [Object.keys(options.dimensions), [...Object.keys(options.dimensions), cacheLabel]],
+            metric_name_selectors: options.allowList,
+          },
+        ],
+      },
+    },
+    service: {
+      extensions: ["health_check"],
+      pipelines: {
+        metrics: { receivers: ["prometheus"], processors: ["batch"], exporters: ["awsemf"] },
+      },
+    },
+  };
+  return JSON.stringify(config);
+}
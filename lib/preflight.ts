@@ -0,0 +1,231 @@
+import {
+  CodeCommitClient,
+  ListBranchesCommand,
+  ListBranchesCommandInput,
+  ListBranchesCommandOutput,
+} from "@aws-sdk/client-codecommit";
+import {
+  DescribeRepositoriesCommand,
+  DescribeRepositoriesCommandInput,
+  DescribeRepositoriesCommandOutput,
+  ECRClient,
+} from "@aws-sdk/client-ecr";
+import {
+  GetCallerIdentityCommand,
+  GetCallerIdentityCommandInput,
+  GetCallerIdentityCommandOutput,
+  STSClient,
+} from "@aws-sdk/client-sts";
+import { existsSync } from "fs";
+import { verifyContainerAssets } from "./build-context";
+import { IConfigParameter, IContainerParameter, IEnvironmentParameter } from "./config";
+
+// Result of a single check
+export type PreflightStatus = "pass" | "fail" | "skip";
+
+export interface IPreflightResult {
+  check: string;
+  status: PreflightStatus;
+  reason: string;
+}
+
+// Aggregated results of all checks
+export interface IPreflightReport {
+  ok: boolean;
+  results: IPreflightResult[];
+}
+
+// The part of an AWS SDK v3 client used by the checks, typed by the input and output of the command sent, so that
+// stubs can be injected
+export interface IPreflightClient<Input extends object, Output extends object> {
+  send(command: { readonly input: Input }): Promise<Output>;
+}
+
+// Client factories per region
+export interface IPreflightClients {
+  sts: (region: string) => IPreflightClient<GetCallerIdentityCommandInput, GetCallerIdentityCommandOutput>;
+  codecommit: (region: string) => IPreflightClient<ListBranchesCommandInput, ListBranchesCommandOutput>;
+  ecr: (region: string) => IPreflightClient<DescribeRepositoriesCommandInput, DescribeRepositoriesCommandOutput>;
+}
+
+export interface IPreflightOptions {
+  clients?: IPreflightClients;
+  // Check names (or name prefixes such as `containerRepository`) to skip
+  skip?: string[];
+}
+
+// AWS SDK clients used outside of tests
+export const defaultPreflightClients: IPreflightClients = {
+  sts: (region) => new STSClient({ region: region }),
+  codecommit: (region) => new CodeCommitClient({ region: region }),
+  ecr: (region) => new ECRClient({ region: region }),
+};
+
+// Check name and its implementation
+type PreflightCheck = [string, () => Promise<IPreflightResult>];
+
+/**
+ * Pre-deploy verification ("accident prevention") run before any stack is constructed
+ */
+
+export class Preflight {
+  private readonly clients: IPreflightClients;
+  private readonly skip: string[];
+
+  constructor(private readonly config: IConfigParameter, options: IPreflightOptions = {}) {
+    this.clients = options.clients ?? defaultPreflightClients;
+    this.skip = options.skip ?? [];
+  }
+
+  // Run every check and collect the results, never rejects because of a failing check
+  public async run(): Promise<IPreflightReport> {
+    const account = await this.guard("callerAccount", () => this.checkCallerAccount());
+
+    // Checks against AWS, skipped when run from the wrong account because their results would be misleading
+    const awsChecks: PreflightCheck[] = [
+      ["branch", () => this.checkBranch()],
+      ...this.config.containers.map(
+        (container): PreflightCheck => [
+          `containerRepository:${container.name}`,
+          () => this.checkContainerRepository(container),
+        ]
+      ),
+    ];
+
+    // Checks against the local file system
+    const localChecks: PreflightCheck[] = this.config.containers.flatMap((container): PreflightCheck[] => [
+      [`containerTemplate:${container.name}`, async () => this.checkContainerTemplate(container)],
+      ...(container.themes?.length || container.providers?.length
+        ? [[`containerAssets:${container.name}`, async () => this.checkContainerAssets(container)] as PreflightCheck]
+        : []),
+    ]);
+
+    const results = [
+      account,
+      ...(await Promise.all([
+        ...awsChecks.map(([check, fn]) =>
+          account.status === "fail"
+            ? Promise.resolve(this.result(check, "skip", "caller account check failed"))
+            : this.guard(check, fn)
+        ),
+        ...localChecks.map(([check, fn]) => this.guard(check, fn)),
+      ])),
+    ];
+
+    return {
+      ok: results.every((result) => result.status !== "fail"),
+      results: results,
+    };
+  }
+
+  // Render the report as a table
+  public static format(report: IPreflightReport): string {
+    const width = Math.max(...report.results.map((result) => result.check.length));
+    return report.results
+      .map((result) => `  ${result.status.toUpperCase().padEnd(4)}  ${result.check.padEnd(width)}  ${result.reason}`)
+      .join("\n");
+  }
+
+  // Apply skip list and turn exceptions into failures
+  private async guard(check: string, fn: () => Promise<IPreflightResult>): Promise<IPreflightResult> {
+    if (this.skip.some((value) => check === value || check.startsWith(`${value}:`))) {
+      return this.result(check, "skip", "skipped by request");
+    }
+    try {
+      return await fn();
+    } catch (e) {
+      return this.result(check, "fail", e instanceof Error ? `${e.name}: ${e.message}` : String(e));
+    }
+  }
+
+  private result(check: string, status: PreflightStatus, reason: string): IPreflightResult {
+    return { check: check, status: status, reason: reason };
+  }
+
+  private getEnvironment(name: string): IEnvironmentParameter {
+    const ret = this.config.environments.find((obj) => obj.name === name);
+    if (!ret) {
+      throw new Error(`Environment '${name}' not found in 'cdk.json'`);
+    }
+    return ret;
+  }
+
+  // Verify if the caller account matches the account specified as the target of the CDK
+  private async checkCallerAccount(): Promise<IPreflightResult> {
+    const check = "callerAccount";
+    const env = this.getEnvironment(this.config.target.environment);
+    const identity: GetCallerIdentityCommandOutput = await this.clients
+      .sts(env.region)
+      .send(new GetCallerIdentityCommand({}));
+    return identity.Account === env.account
+      ? this.result(check, "pass", `caller account '${identity.Account}' is the target account`)
+      : this.result(
+          check,
+          "fail",
+          `caller account '${identity.Account}' does not match the target account '${env.account}'`
+        );
+  }
+
+  // Verify the target branch exists in remote branches of the CodeCommit repository
+  private async checkBranch(): Promise<IPreflightResult> {
+    const check = "branch";
+    const { repository, branch } = this.config.target;
+    const client = this.clients.codecommit(this.getEnvironment(this.config.target.environment).region);
+    let nextToken: string | undefined = undefined;
+    do {
+      const ret: ListBranchesCommandOutput = await client.send(
+        new ListBranchesCommand({ repositoryName: repository, nextToken: nextToken })
+      );
+      if (ret.branches?.includes(branch)) {
+        return this.result(check, "pass", `branch '${branch}' exists in repository '${repository}'`);
+      }
+      nextToken = ret.nextToken;
+    } while (nextToken);
+    return this.result(check, "fail", `branch '${branch}' does not exist in repository '${repository}'`);
+  }
+
+  // Verify the ECR repository of the container exists, in the DR region as well since the standby pushes its image there
+  private async checkContainerRepository(container: IContainerParameter): Promise<IPreflightResult> {
+    const check = `containerRepository:${container.name}`;
+    const repoEnv = this.getEnvironment(container.environment);
+    for (const region of [repoEnv.region, ...(repoEnv.drRegion ? [repoEnv.drRegion] : [])]) {
+      try {
+        await this.clients.ecr(region).send(
+          new DescribeRepositoriesCommand({
+            registryId: repoEnv.account,
+            repositoryNames: [container.repositoryName],
+          })
+        );
+      } catch (e) {
+        if (e instanceof Error && e.name === "RepositoryNotFoundException") {
+          const where = region === repoEnv.region ? "" : ` in DR region '${region}'`;
+          return this.result(check, "fail", `repository '${container.repositoryName}' not found${where}`);
+        }
+        throw e;
+      }
+    }
+    return this.result(check, "pass", `repository '${container.repositoryName}' exists`);
+  }
+
+  // Verify the Dockerfile template of the container exists
+  private checkContainerTemplate(container: IContainerParameter): IPreflightResult {
+    const check = `containerTemplate:${container.name}`;
+    const templateFile = `${container.imagePath}/template`;
+    return existsSync(templateFile)
+      ? this.result(check, "pass", `'${templateFile}' exists`)
+      : this.result(check, "fail", `'${templateFile}' not found`);
+  }
+
+  // Verify the themes and local providers packaged into the image exist and match their checksum
+  private checkContainerAssets(container: IContainerParameter): IPreflightResult {
+    const check = `containerAssets:${container.name}`;
+    const issues = verifyContainerAssets(container);
+    return issues.length
+      ? this.result(check, "fail", issues.join(", "))
+      : this.result(
+          check,
+          "pass",
+          `${container.themes?.length ?? 0} theme(s) and ${container.providers?.length ?? 0} provider(s) found`
+        );
+  }
+}
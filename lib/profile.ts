@@ -0,0 +1,519 @@
+import { ConfigSchema, EnvironmentName } from "./config";
+
+// Cron fields for scheduled scaling
+export interface ICronProfile {
+  minute: string;
+  hour: string;
+  weekDay: string;
+  month: string;
+  year: string;
+}
+
+// Scheduled scaling capacity
+export interface IScheduleProfile {
+  minCapacity: number;
+  maxCapacity: number;
+  cron: ICronProfile;
+}
+
+// VPC sizing
+export interface IVpcProfile {
+  cidr: string;
+  natGateways: number;
+  maxAzs: number;
+  subnetCidrMask: number;
+}
+
+// S3 bucket lifecycle
+export interface IS3Profile {
+  retain: boolean;
+  autoDeleteObjects: boolean;
+  expirationDays: number;
+}
+
+// Aurora Serverless v2 sizing
+export interface IRdsProfile {
+  deletionProtection: boolean;
+  backupRetentionDays: number;
+  monitoringIntervalSeconds: number;
+  scaling: {
+    minCapacity: number;
+    maxCapacity: number;
+  };
+  performanceInsightRetentionDays: number;
+  secretRotationDays: number;
+}
+
+// ECS on Fargate, ALB and bastion sizing
+export interface IEcsProfile {
+  taskDefinition: {
+    cpu: number;
+    memoryLimitMiB: number;
+    command: string[];
+  };
+  service: {
+    nodeCount: number;
+    healthCheckGracePeriodSeconds: number;
+    // Container health check against `/health/live`
+    containerHealthCheck: {
+      intervalSeconds: number;
+      timeoutSeconds: number;
+      retries: number;
+      startPeriodSeconds: number;
+    };
+    circuitBreaker: {
+      enabled: boolean;
+      rollback: boolean;
+    };
+    scaling: {
+      base: {
+        minCapacity: number;
+        maxCapacity: number;
+        cpuUtilization: number;
+        scaleOutCooldownSeconds: number;
+        scaleInCooldownSeconds: number;
+      };
+      schedule: {
+        beforeOpening: IScheduleProfile;
+        afterOpening: IScheduleProfile;
+        beforeClosing: IScheduleProfile;
+        afterClosing: IScheduleProfile;
+      };
+    };
+  };
+  alb: {
+    healthyThresholdCount: number;
+    intervalSeconds: number;
+    timeoutSeconds: number;
+    slowStartSeconds: number;
+    stickinessCookieDurationDays: number;
+  };
+  // EC2 bastion host, the database is reached through ECS Exec with `bin/db-tunnel.ts` without it
+  bastion: {
+    enabled: boolean;
+    instanceType: string;
+  };
+}
+
+// CloudWatch alarm thresholds
+export interface IMonitoringProfile {
+  periodMinutes: number;
+  evaluationPeriods: number;
+  // Sum of ALB and target 5xx responses per period
+  http5xxCount: number;
+  // p99 of the target response time
+  targetResponseTimeSeconds: number;
+  ecsCpuUtilization: number;
+  ecsMemoryUtilization: number;
+  rdsAcuUtilization: number;
+  // Average deadlocks per second
+  rdsDeadlocks: number;
+}
+
+// Sizing profile for one environment
+export interface IProfile {
+  vpc: IVpcProfile;
+  s3: IS3Profile;
+  rds: IRdsProfile;
+  ecs: IEcsProfile;
+  monitoring: IMonitoringProfile;
+}
+
+// Every key optional at every depth, arrays are replaced as a whole
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// `params.environments[].overrides`
+export type ProfileOverrides = DeepPartial<IProfile>;
+
+/**
+ * Built-in defaults
+ */
+
+const cron = (minute: string, hour: string): ICronProfile => ({
+  minute: minute,
+  hour: hour,
+  weekDay: "MON-FRI",
+  month: "*",
+  year: "*",
+});
+
+// Tier for production and staging
+const productionProfile: IProfile = {
+  vpc: {
+    cidr: "10.0.0.0/16",
+    natGateways: 2,
+    maxAzs: 2,
+    subnetCidrMask: 24,
+  },
+  s3: {
+    retain: true,
+    autoDeleteObjects: false,
+    expirationDays: 90,
+  },
+  rds: {
+    deletionProtection: true,
+    backupRetentionDays: 7,
+    monitoringIntervalSeconds: 60,
+    scaling: {
+      minCapacity: 2,
+      maxCapacity: 64,
+    },
+    performanceInsightRetentionDays: 7,
+    secretRotationDays: 7,
+  },
+  ecs: {
+    taskDefinition: {
+      cpu: 4096,
+      memoryLimitMiB: 8192,
+      command: ["start", "--optimized"],
+    },
+    service: {
+      nodeCount: 4,
+      healthCheckGracePeriodSeconds: 180,
+      containerHealthCheck: { intervalSeconds: 15, timeoutSeconds: 5, retries: 3, startPeriodSeconds: 120 },
+      circuitBreaker: { enabled: true, rollback: true },
+      scaling: {
+        base: {
+          minCapacity: 2,
+          maxCapacity: 8,
+          cpuUtilization: 70,
+          scaleOutCooldownSeconds: 300,
+          scaleInCooldownSeconds: 300,
+        },
+        schedule: {
+          beforeOpening: { minCapacity: 4, maxCapacity: 24, cron: cron("30", "23") },
+          afterOpening: { minCapacity: 2, maxCapacity: 8, cron: cron("30", "1") },
+          beforeClosing: { minCapacity: 4, maxCapacity: 24, cron: cron("0", "8") },
+          afterClosing: { minCapacity: 2, maxCapacity: 4, cron: cron("0", "10") },
+        },
+      },
+    },
+    alb: {
+      healthyThresholdCount: 2,
+      intervalSeconds: 15,
+      timeoutSeconds: 5,
+      slowStartSeconds: 60,
+      stickinessCookieDurationDays: 1,
+    },
+    bastion: {
+      enabled: true,
+      instanceType: "m5.large",
+    },
+  },
+  monitoring: {
+    periodMinutes: 5,
+    evaluationPeriods: 3,
+    http5xxCount: 20,
+    targetResponseTimeSeconds: 3,
+    ecsCpuUtilization: 80,
+    ecsMemoryUtilization: 80,
+    rdsAcuUtilization: 90,
+    rdsDeadlocks: 1,
+  },
+};
+
+// Tier for development
+const developmentProfile: IProfile = {
+  vpc: {
+    cidr: "10.0.0.0/16",
+    natGateways: 1,
+    maxAzs: 2,
+    subnetCidrMask: 24,
+  },
+  s3: {
+    retain: false,
+    autoDeleteObjects: true,
+    expirationDays: 30,
+  },
+  rds: {
+    deletionProtection: false,
+    backupRetentionDays: 1,
+    monitoringIntervalSeconds: 60,
+    scaling: {
+      minCapacity: 0.5,
+      maxCapacity: 2,
+    },
+    performanceInsightRetentionDays: 1,
+    secretRotationDays: 7,
+  },
+  ecs: {
+    taskDefinition: {
+      cpu: 1024,
+      memoryLimitMiB: 2048,
+      command: ["--verbose", "start"],
+    },
+    service: {
+      nodeCount: 1,
+      healthCheckGracePeriodSeconds: 300,
+      containerHealthCheck: { intervalSeconds: 30, timeoutSeconds: 5, retries: 3, startPeriodSeconds: 240 },
+      circuitBreaker: { enabled: true, rollback: false },
+      scaling: {
+        base: {
+          minCapacity: 1,
+          maxCapacity: 2,
+          cpuUtilization: 90,
+          scaleOutCooldownSeconds: 300,
+          scaleInCooldownSeconds: 300,
+        },
+        schedule: {
+          beforeOpening: { minCapacity: 2, maxCapacity: 4, cron: cron("30", "23") },
+          afterOpening: { minCapacity: 1, maxCapacity: 2, cron: cron("30", "1") },
+          beforeClosing: { minCapacity: 2, maxCapacity: 4, cron: cron("0", "8") },
+          afterClosing: { minCapacity: 1, maxCapacity: 2, cron: cron("0", "10") },
+        },
+      },
+    },
+    alb: {
+      healthyThresholdCount: 2,
+      intervalSeconds: 15,
+      timeoutSeconds: 5,
+      slowStartSeconds: 60,
+      stickinessCookieDurationDays: 1,
+    },
+    bastion: {
+      enabled: true,
+      instanceType: "t3.micro",
+    },
+  },
+  monitoring: {
+    periodMinutes: 5,
+    evaluationPeriods: 3,
+    http5xxCount: 100,
+    targetResponseTimeSeconds: 10,
+    ecsCpuUtilization: 95,
+    ecsMemoryUtilization: 95,
+    rdsAcuUtilization: 100,
+    rdsDeadlocks: 5,
+  },
+};
+
+// Built-in defaults per environment tier
+export const defaultProfiles: { readonly [key in EnvironmentName]: IProfile } = {
+  dev: developmentProfile,
+  stg: productionProfile,
+  prod: productionProfile,
+};
+
+/**
+ * Override schema
+ */
+
+const integer = (min: number, max?: number): ConfigSchema => ({ type: "number", integer: true, min: min, max: max });
+const cronField: ConfigSchema = { type: "string", pattern: /^\S+$/ };
+const scheduleSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    minCapacity: integer(0),
+    maxCapacity: integer(1),
+    cron: {
+      type: "object",
+      properties: { minute: cronField, hour: cronField, weekDay: cronField, month: cronField, year: cronField },
+    },
+  },
+};
+
+// Schema of a complete profile
+const profileSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    vpc: {
+      type: "object",
+      properties: {
+        cidr: { type: "string", pattern: /^(\d{1,3}\.){3}\d{1,3}\/(1[6-9]|2[0-8])$/ },
+        natGateways: integer(0, 3),
+        maxAzs: integer(1, 3),
+        subnetCidrMask: integer(16, 28),
+      },
+    },
+    s3: {
+      type: "object",
+      properties: {
+        retain: { type: "boolean" },
+        autoDeleteObjects: { type: "boolean" },
+        expirationDays: integer(1),
+      },
+    },
+    rds: {
+      type: "object",
+      properties: {
+        deletionProtection: { type: "boolean" },
+        backupRetentionDays: integer(1, 35),
+        monitoringIntervalSeconds: { type: "number", enum: [0, 1, 5, 10, 15, 30, 60] },
+        scaling: {
+          type: "object",
+          properties: {
+            minCapacity: { type: "number", min: 0.5, max: 128 },
+            maxCapacity: { type: "number", min: 1, max: 128 },
+          },
+        },
+        performanceInsightRetentionDays: integer(1, 731),
+        secretRotationDays: integer(1, 365),
+      },
+    },
+    ecs: {
+      type: "object",
+      properties: {
+        taskDefinition: {
+          type: "object",
+          properties: {
+            cpu: { type: "number", enum: [256, 512, 1024, 2048, 4096, 8192, 16384] },
+            memoryLimitMiB: integer(512, 122880),
+            command: { type: "array", items: { type: "string" } },
+          },
+        },
+        service: {
+          type: "object",
+          properties: {
+            nodeCount: integer(0),
+            healthCheckGracePeriodSeconds: integer(0, 2147483647),
+            containerHealthCheck: {
+              type: "object",
+              properties: {
+                intervalSeconds: integer(5, 300),
+                timeoutSeconds: integer(2, 60),
+                retries: integer(1, 10),
+                startPeriodSeconds: integer(0, 300),
+              },
+            },
+            circuitBreaker: {
+              type: "object",
+              properties: { enabled: { type: "boolean" }, rollback: { type: "boolean" } },
+            },
+            scaling: {
+              type: "object",
+              properties: {
+                base: {
+                  type: "object",
+                  properties: {
+                    minCapacity: integer(0),
+                    maxCapacity: integer(1),
+                    cpuUtilization: integer(1, 100),
+                    scaleOutCooldownSeconds: integer(0),
+                    scaleInCooldownSeconds: integer(0),
+                  },
+                },
+                schedule: {
+                  type: "object",
+                  properties: {
+                    beforeOpening: scheduleSchema,
+                    afterOpening: scheduleSchema,
+                    beforeClosing: scheduleSchema,
+                    afterClosing: scheduleSchema,
+                  },
+                },
+              },
+            },
+          },
+        },
+        alb: {
+          type: "object",
+          properties: {
+            healthyThresholdCount: integer(2, 10),
+            intervalSeconds: integer(5, 300),
+            timeoutSeconds: integer(2, 120),
+            slowStartSeconds: integer(0, 900),
+            stickinessCookieDurationDays: integer(1, 7),
+          },
+        },
+        bastion: {
+          type: "object",
+          properties: {
+            enabled: { type: "boolean" },
+            instanceType: { type: "string", pattern: /^[a-z][a-z0-9-]*\.[a-z0-9]+$/ },
+          },
+        },
+      },
+    },
+    monitoring: {
+      type: "object",
+      properties: {
+        periodMinutes: { type: "number", enum: [1, 5, 10, 15, 30, 60] },
+        evaluationPeriods: integer(1, 288),
+        http5xxCount: integer(1),
+        targetResponseTimeSeconds: { type: "number", min: 0.001, max: 60 },
+        ecsCpuUtilization: integer(1, 100),
+        ecsMemoryUtilization: integer(1, 100),
+        rdsAcuUtilization: integer(1, 100),
+        rdsDeadlocks: { type: "number", min: 0 },
+      },
+    },
+  },
+};
+
+// Make every object key optional at every depth
+export const partialSchema = (schema: ConfigSchema): ConfigSchema => {
+  if (schema.type !== "object") {
+    return schema;
+  }
+  const properties: { [key: string]: ConfigSchema } = {};
+  Object.entries(schema.properties).forEach(([key, child]) => {
+    properties[key] = partialSchema(child);
+  });
+  return { type: "object", properties: properties, optional: Object.keys(properties) };
+};
+
+// Schema of `params.environments[].overrides`
+export const profileOverridesSchema: ConfigSchema = partialSchema(profileSchema);
+
+/**
+ * Resolution
+ */
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Deep-merge `override` into a copy of `base`, arrays and scalars in `override` replace those in `base`
+export function deepMerge<T>(base: T, override?: DeepPartial<T>): T {
+  if (!isObject(base) || !isObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const ret: { [key: string]: unknown } = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    if (value !== undefined) {
+      ret[key] = isObject(ret[key]) ? deepMerge(ret[key], value as DeepPartial<unknown>) : value;
+    }
+  });
+  return ret as T;
+}
+
+// Effective profile: tier defaults with environment overrides applied
+export function resolveProfile(environmentName: EnvironmentName, overrides?: ProfileOverrides): IProfile {
+  return deepMerge(defaultProfiles[environmentName], overrides);
+}
+
+// Consistency checks on an effective profile that the schema cannot express
+export function validateProfile(profile: IProfile, path: string): string[] {
+  const issues: string[] = [];
+  const capacities: [string, { minCapacity: number; maxCapacity: number }][] = [
+    ["rds.scaling", profile.rds.scaling],
+    ["ecs.service.scaling.base", profile.ecs.service.scaling.base],
+    ...Object.entries(profile.ecs.service.scaling.schedule).map(([key, value]): [string, IScheduleProfile] => [
+      `ecs.service.scaling.schedule.${key}`,
+      value,
+    ]),
+  ];
+  capacities.forEach(([key, value]) => {
+    if (value.minCapacity > value.maxCapacity) {
+      issues.push(`${path}.${key}: minCapacity ${value.minCapacity} exceeds maxCapacity ${value.maxCapacity}`);
+    }
+  });
+  if (profile.ecs.alb.timeoutSeconds >= profile.ecs.alb.intervalSeconds) {
+    issues.push(`${path}.ecs.alb: timeoutSeconds must be less than intervalSeconds`);
+  }
+  const service = profile.ecs.service;
+  if (service.containerHealthCheck.timeoutSeconds >= service.containerHealthCheck.intervalSeconds) {
+    issues.push(`${path}.ecs.service.containerHealthCheck: timeoutSeconds must be less than intervalSeconds`);
+  }
+  // Keycloak must be able to start and pass the ALB health check before ECS acts on failed ALB health checks
+  const readySeconds =
+    service.containerHealthCheck.startPeriodSeconds +
+    profile.ecs.alb.healthyThresholdCount * profile.ecs.alb.intervalSeconds;
+  if (service.healthCheckGracePeriodSeconds < readySeconds) {
+    issues.push(
+      `${path}.ecs.service.healthCheckGracePeriodSeconds: ${service.healthCheckGracePeriodSeconds} is shorter than startPeriodSeconds plus healthyThresholdCount * intervalSeconds of the ALB (${readySeconds})`
+    );
+  }
+  return issues;
+}
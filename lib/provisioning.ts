@@ -0,0 +1,343 @@
+import { existsSync, readFileSync } from "fs";
+import type { IRealmState, IRepresentation } from "../src/lambda/provisioning/keycloak-admin";
+import type { ConfigSchema } from "./config";
+
+/**
+ * Types
+ */
+
+// Realm role
+export interface IRoleParameter {
+  name: string;
+  description?: string;
+}
+
+// Top-level group with realm role mappings
+export interface IGroupParameter {
+  name: string;
+  realmRoles?: string[];
+}
+
+// OpenID Connect or SAML client
+export interface IClientParameter {
+  clientId: string;
+  name?: string;
+  description?: string;
+  enabled?: boolean;
+  protocol?: "openid-connect" | "saml";
+  publicClient?: boolean;
+  standardFlowEnabled?: boolean;
+  implicitFlowEnabled?: boolean;
+  directAccessGrantsEnabled?: boolean;
+  serviceAccountsEnabled?: boolean;
+  rootUrl?: string;
+  baseUrl?: string;
+  redirectUris?: string[];
+  webOrigins?: string[];
+  attributes?: { [key: string]: string };
+}
+
+// Identity provider, keep secrets out of `config` with vault references such as `${vault.corp-client-secret}`
+export interface IIdentityProviderParameter {
+  alias: string;
+  providerId: string;
+  displayName?: string;
+  enabled?: boolean;
+  trustEmail?: boolean;
+  config: { [key: string]: string };
+}
+
+// Seed user without credentials, the password is set through required actions or an identity provider
+export interface IUserParameter {
+  username: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  enabled?: boolean;
+  emailVerified?: boolean;
+  requiredActions?: string[];
+  realmRoles?: string[];
+  groups?: string[];
+}
+
+// Realm settings and the objects provisioned into it
+export interface IRealmParameter {
+  realm: string;
+  displayName?: string;
+  enabled?: boolean;
+  sslRequired?: "all" | "external" | "none";
+  registrationAllowed?: boolean;
+  resetPasswordAllowed?: boolean;
+  rememberMe?: boolean;
+  verifyEmail?: boolean;
+  loginWithEmailAllowed?: boolean;
+  roles?: IRoleParameter[];
+  groups?: IGroupParameter[];
+  clients?: IClientParameter[];
+  identityProviders?: IIdentityProviderParameter[];
+  users?: IUserParameter[];
+}
+
+// `params.provisioning`: realms applied through the Admin REST API after deployment
+export interface IProvisioningParameter {
+  realms?: IRealmParameter[];
+  // Realm export JSON files under `src/`
+  realmFiles?: string[];
+  // Keep the realms when the stack or the provisioning is removed, `true` for stg and prod when omitted
+  retainOnDelete?: boolean;
+}
+
+/**
+ * Schema definition
+ */
+
+const stringList: ConfigSchema = { type: "array", items: { type: "string", pattern: /\S/ } };
+const stringMap: ConfigSchema = { type: "map", values: { type: "string" } };
+const keySchema: ConfigSchema = { type: "string", pattern: /^[\w.@-]+$/ };
+
+export const provisioningSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    realms: {
+      type: "array",
+      unique: ["realm"],
+      items: {
+        type: "object",
+        properties: {
+          realm: keySchema,
+          displayName: { type: "string" },
+          enabled: { type: "boolean" },
+          sslRequired: { type: "string", enum: ["all", "external", "none"] },
+          registrationAllowed: { type: "boolean" },
+          resetPasswordAllowed: { type: "boolean" },
+          rememberMe: { type: "boolean" },
+          verifyEmail: { type: "boolean" },
+          loginWithEmailAllowed: { type: "boolean" },
+          roles: {
+            type: "array",
+            unique: ["name"],
+            items: {
+              type: "object",
+              properties: { name: keySchema, description: { type: "string" } },
+              optional: ["description"],
+            },
+          },
+          groups: {
+            type: "array",
+            unique: ["name"],
+            items: {
+              type: "object",
+              properties: { name: keySchema, realmRoles: stringList },
+              optional: ["realmRoles"],
+            },
+          },
+          clients: {
+            type: "array",
+            unique: ["clientId"],
+            items: {
+              type: "object",
+              properties: {
+                clientId: keySchema,
+                name: { type: "string" },
+                description: { type: "string" },
+                enabled: { type: "boolean" },
+                protocol: { type: "string", enum: ["openid-connect", "saml"] },
+                publicClient: { type: "boolean" },
+                standardFlowEnabled: { type: "boolean" },
+                implicitFlowEnabled: { type: "boolean" },
+                directAccessGrantsEnabled: { type: "boolean" },
+                serviceAccountsEnabled: { type: "boolean" },
+                rootUrl: { type: "string" },
+                baseUrl: { type: "string" },
+                redirectUris: stringList,
+                webOrigins: stringList,
+                attributes: stringMap,
+              },
+              optional: [
+                "name",
+                "description",
+                "enabled",
+                "protocol",
+                "publicClient",
+                "standardFlowEnabled",
+                "implicitFlowEnabled",
+                "directAccessGrantsEnabled",
+                "serviceAccountsEnabled",
+                "rootUrl",
+                "baseUrl",
+                "redirectUris",
+                "webOrigins",
+                "attributes",
+              ],
+            },
+          },
+          identityProviders: {
+            type: "array",
+            unique: ["alias"],
+            items: {
+              type: "object",
+              properties: {
+                alias: keySchema,
+                providerId: keySchema,
+                displayName: { type: "string" },
+                enabled: { type: "boolean" },
+                trustEmail: { type: "boolean" },
+                config: stringMap,
+              },
+              optional: ["displayName", "enabled", "trustEmail"],
+            },
+          },
+          users: {
+            type: "array",
+            unique: ["username"],
+            items: {
+              type: "object",
+              properties: {
+                username: keySchema,
+                email: { type: "string", pattern: /^[^@\s]+@[^@\s]+$/ },
+                firstName: { type: "string" },
+                lastName: { type: "string" },
+                enabled: { type: "boolean" },
+                emailVerified: { type: "boolean" },
+                requiredActions: stringList,
+                realmRoles: stringList,
+                groups: stringList,
+              },
+              optional: [
+                "email",
+                "firstName",
+                "lastName",
+                "enabled",
+                "emailVerified",
+                "requiredActions",
+                "realmRoles",
+                "groups",
+              ],
+            },
+          },
+        },
+        optional: [
+          "displayName",
+          "enabled",
+          "sslRequired",
+          "registrationAllowed",
+          "resetPasswordAllowed",
+          "rememberMe",
+          "verifyEmail",
+          "loginWithEmailAllowed",
+          "roles",
+          "groups",
+          "clients",
+          "identityProviders",
+          "users",
+        ],
+      },
+    },
+    realmFiles: { type: "array", items: { type: "string", pattern: /^src\/.+\.json$/ } },
+    retainOnDelete: { type: "boolean" },
+  },
+  optional: ["realms", "realmFiles", "retainOnDelete"],
+};
+
+/**
+ * Desired state
+ */
+
+// Collections provisioned one by one instead of with the realm settings
+const realmCollections = ["roles", "groups", "clients", "identityProviders", "users"];
+
+// Sections of a realm export that are not provisioned
+const ignoredRealmFileKeys = [
+  "id",
+  "clientScopes",
+  "defaultDefaultClientScopes",
+  "defaultOptionalClientScopes",
+  "scopeMappings",
+  "clientScopeMappings",
+  "components",
+  "authenticationFlows",
+  "authenticatorConfig",
+  "requiredActions",
+  "identityProviderMappers",
+  "defaultRole",
+  "federatedUsers",
+  "keycloakVersion",
+];
+
+const omit = (obj: IRepresentation, keys: string[]): IRepresentation =>
+  Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key)));
+
+// Desired state of a realm declared in 'cdk.json'
+export function fromRealmParameter(realm: IRealmParameter): IRealmState {
+  return {
+    realm: realm.realm,
+    attributes: omit(realm, ["realm", ...realmCollections]),
+    roles: realm.roles ?? [],
+    groups: realm.groups ?? [],
+    clients: realm.clients ?? [],
+    identityProviders: realm.identityProviders ?? [],
+    users: realm.users ?? [],
+  };
+}
+
+// Desired state of a realm export file, pushing "<path>: <problem>" into `issues`
+export function fromRealmFile(file: string, path: string, issues: string[]): IRealmState | undefined {
+  if (!existsSync(file)) {
+    issues.push(`${path}: '${file}' not found`);
+    return undefined;
+  }
+  let rep: IRepresentation;
+  try {
+    rep = JSON.parse(readFileSync(file).toString());
+  } catch (e) {
+    issues.push(`${path}: '${file}' not valid JSON`);
+    return undefined;
+  }
+  if (typeof rep?.realm !== "string") {
+    issues.push(`${path}: '${file}' has no 'realm'`);
+    return undefined;
+  }
+  const users: IRepresentation[] = rep.users ?? [];
+  users.forEach((user, index) => {
+    if (user.credentials) {
+      issues.push(`${path}: users[${index}].credentials not allowed, secrets must not be stored in the repository`);
+    }
+  });
+  const groups: IRepresentation[] = rep.groups ?? [];
+  groups.forEach((group, index) => {
+    if (group.subGroups?.length) {
+      issues.push(`${path}: groups[${index}].subGroups not supported`);
+    }
+  });
+  return {
+    realm: rep.realm,
+    attributes: omit(rep, ["realm", ...realmCollections, ...ignoredRealmFileKeys]),
+    roles: (rep.roles?.realm ?? []).map((obj: IRepresentation) => omit(obj, ["id", "containerId", "composites"])),
+    groups: groups.map((obj) => omit(obj, ["id", "path", "subGroups", "clientRoles"])),
+    clients: (rep.clients ?? []).map((obj: IRepresentation) => omit(obj, ["id"])),
+    identityProviders: (rep.identityProviders ?? []).map((obj: IRepresentation) => omit(obj, ["internalId"])),
+    users: users.map((obj) => ({
+      ...omit(obj, ["id", "createdTimestamp", "clientRoles"]),
+      // Exported group memberships are paths of top-level groups
+      groups: (obj.groups ?? []).map((group: string) => group.replace(/^\//, "")),
+    })),
+  };
+}
+
+// Desired state of every realm in `params.provisioning`, pushing "<path>: <problem>" into `issues`
+export function buildRealmStates(provisioning: IProvisioningParameter, issues: string[]): IRealmState[] {
+  const realms = (provisioning.realms ?? []).map(fromRealmParameter);
+  (provisioning.realmFiles ?? []).forEach((file, index) => {
+    const path = `params.provisioning.realmFiles[${index}]`;
+    const realm = fromRealmFile(file, path, issues);
+    if (!realm) {
+      return;
+    }
+    if (realms.some((obj) => obj.realm === realm.realm)) {
+      issues.push(`${path}: realm '${realm.realm}' already declared`);
+      return;
+    }
+    realms.push(realm);
+  });
+  return realms;
+}
@@ -0,0 +1,105 @@
+import { readFileSync, readdirSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Values of named variables. `false`, `undefined` and "" are falsy in conditional blocks.
+export type TemplateVariables = { [name: string]: string | number | boolean | undefined };
+
+// Placeholder of a named variable, e.g. `${KEYCLOAK_VERSION}`. `$${NAME}` is kept as `${NAME}` for Docker itself,
+// lowercase and dotted expressions such as Infinispan's `${env.KC_DB_URL}` are left untouched.
+const placeholderPattern = /(\$?)\$\{([A-Z][A-Z0-9_]*)\}/g;
+
+// Directive line, either a Dockerfile comment `# @if NAME` or an XML comment `<!-- @if NAME -->`
+const directivePattern = /^\s*(?:#|<!--)\s*@(\w+)(?:\s+(!?)([A-Z][A-Z0-9_]*))?\s*(?:-->)?\s*$/;
+
+export class TemplateError extends Error {
+  constructor(public readonly file: string, public readonly issues: string[]) {
+    super(`Template '${file}' could not be rendered:\n${issues.map((issue) => `  ${issue}`).join("\n")}`);
+    this.name = "TemplateError";
+  }
+}
+
+const isTruthy = (value: TemplateVariables[string]): boolean =>
+  value !== undefined && value !== false && value !== "" && value !== "false";
+
+// Render a template: conditional blocks `@if NAME` / `@if !NAME`, `@else` and `@endif` (nestable),
+// then `${NAME}` placeholders. Unknown directives, unbalanced blocks and unresolved placeholders are errors.
+export function renderTemplate(source: string, variables: TemplateVariables, file = "template"): string {
+  const issues: string[] = [];
+  const lines: string[] = [];
+  // Each open block: line number, whether the condition holds and whether `@else` was seen
+  const blocks: { line: number; condition: boolean; inElse: boolean }[] = [];
+  const active = () => blocks.every((block) => block.condition !== block.inElse);
+
+  source.split("\n").forEach((text, index) => {
+    const line = index + 1;
+    const directive = text.match(directivePattern);
+    if (!directive) {
+      if (active()) {
+        lines.push(
+          text.replace(placeholderPattern, (match, escape: string, name: string) => {
+            if (escape) {
+              return match.slice(1);
+            }
+            if (!(name in variables) || variables[name] === undefined) {
+              issues.push(`line ${line}: unresolved placeholder '\${${name}}'`);
+              return match;
+            }
+            return String(variables[name]);
+          })
+        );
+      }
+      return;
+    }
+    const [, keyword, negate, name] = directive;
+    switch (keyword) {
+      case "if":
+        if (!name) {
+          issues.push(`line ${line}: '@if' requires a variable name`);
+        } else if (!(name in variables)) {
+          issues.push(`line ${line}: unknown variable '${name}' in condition`);
+        }
+        blocks.push({ line, condition: isTruthy(variables[name]) !== Boolean(negate), inElse: false });
+        break;
+      case "else":
+        if (!blocks.length || blocks[blocks.length - 1].inElse) {
+          issues.push(`line ${line}: '@else' without '@if'`);
+        } else {
+          blocks[blocks.length - 1].inElse = true;
+        }
+        break;
+      case "endif":
+        if (!blocks.pop()) {
+          issues.push(`line ${line}: '@endif' without '@if'`);
+        }
+        break;
+      default:
+        issues.push(`line ${line}: unknown directive '@${keyword}'`);
+    }
+  });
+  blocks.forEach((block) => issues.push(`line ${block.line}: '@if' not closed`));
+  if (issues.length) {
+    throw new TemplateError(file, issues);
+  }
+  return lines.join("\n");
+}
+
+// Output file name of a template in the image directory: `template` renders to `Dockerfile`, `<name>.template` to `<name>`
+export function templateOutputName(name: string): string | undefined {
+  if (name === "template") {
+    return "Dockerfile";
+  }
+  return name.endsWith(".template") ? name.slice(0, -".template".length) : undefined;
+}
+
+// Render every template of the image directory into the build context, returns the rendered file names
+export function renderTemplates(imagePath: string, outDirectory: string, variables: TemplateVariables): string[] {
+  return readdirSync(imagePath)
+    .sort()
+    .filter((name) => templateOutputName(name))
+    .map((name) => {
+      const outName = templateOutputName(name)!;
+      const source = readFileSync(join(imagePath, name)).toString();
+      writeFileSync(join(outDirectory, outName), renderTemplate(source, variables, join(imagePath, name)));
+      return outName;
+    });
+}
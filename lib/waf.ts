@@ -0,0 +1,137 @@
+import { isIP } from "net";
+import type { ConfigSchema } from "./config";
+
+/**
+ * Types
+ */
+
+// `params.waf`: AWS WAF web ACL associated with the Keycloak ALB
+export interface IWafParameter {
+  enabled: boolean;
+  // Managed rule groups evaluated after the IP sets and rate limits, `defaultManagedRuleGroups` when omitted
+  managedRuleGroups?: IManagedRuleGroupParameter[];
+  // Requests per client IP in 5 minutes before the path is blocked for it, `defaultRateLimits` when omitted
+  rateLimits?: Partial<IRateLimits>;
+  // CIDR ranges allowed without evaluating any other rule
+  allowList?: string[];
+  // CIDR ranges blocked
+  denyList?: string[];
+}
+
+// `params.waf.managedRuleGroups[]`: rule group of a vendor, e.g. `AWSManagedRulesCommonRuleSet` of `AWS`
+export interface IManagedRuleGroupParameter {
+  name: string;
+  // `AWS` when omitted
+  vendor?: string;
+  // Rules of the group only counted instead of applying their action
+  countRules?: string[];
+}
+
+// Rate-based rules on the endpoints targeted by credential stuffing and brute force
+export interface IRateLimits {
+  // `/realms/*/protocol/openid-connect/token`
+  token: number;
+  // `/realms/*/login-actions/*`, where the login forms are posted
+  loginActions: number;
+}
+
+// CIDR ranges of one IP set, WAF keeps IPv4 and IPv6 ranges in separate sets
+export interface ICidrsByVersion {
+  ipv4: string[];
+  ipv6: string[];
+}
+
+// Protection against common exploits, known bad inputs and addresses with a bad reputation. The body size rule is
+// only counted, since realm imports and partial updates through the admin API exceed 8 KB.
+export const defaultManagedRuleGroups: readonly IManagedRuleGroupParameter[] = [
+  { name: "AWSManagedRulesAmazonIpReputationList" },
+  { name: "AWSManagedRulesCommonRuleSet", countRules: ["SizeRestrictions_BODY"] },
+  { name: "AWSManagedRulesKnownBadInputsRuleSet" },
+];
+
+export const defaultRateLimits: IRateLimits = {
+  token: 1000,
+  loginActions: 300,
+};
+
+/**
+ * Schema definition
+ */
+
+// IPv4 and IPv6 CIDR ranges, the addresses and prefix lengths are checked by `isCidr()`
+export const cidrPattern = /^[0-9A-Fa-f.:]+\/\d{1,3}$/;
+export const cidrListSchema: ConfigSchema = { type: "array", items: { type: "string", pattern: cidrPattern } };
+const rateLimitSchema: ConfigSchema = { type: "number", integer: true, min: 100, max: 2000000000 };
+
+export const wafSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    enabled: { type: "boolean" },
+    managedRuleGroups: {
+      type: "array",
+      unique: ["name"],
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", pattern: /^[\w-]{1,128}$/ },
+          vendor: { type: "string", pattern: /^[\w-]{1,128}$/ },
+          countRules: { type: "array", items: { type: "string", pattern: /^[\w-]{1,128}$/ } },
+        },
+        optional: ["vendor", "countRules"],
+      },
+    },
+    rateLimits: {
+      type: "object",
+      properties: { token: rateLimitSchema, loginActions: rateLimitSchema },
+      optional: ["token", "loginActions"],
+    },
+    allowList: cidrListSchema,
+    denyList: cidrListSchema,
+  },
+  optional: ["managedRuleGroups", "rateLimits", "allowList", "denyList"],
+};
+
+/**
+ * Functions
+ */
+
+// Whether the value is an IPv4 or IPv6 CIDR range
+export function isCidr(value: string): boolean {
+  const [address, prefix] = value.split("/");
+  const version = isIP(address);
+  return version !== 0 && /^\d{1,3}$/.test(prefix ?? "") && Number(prefix) <= (version === 4 ? 32 : 128);
+}
+
+// Check the CIDR ranges of the IP sets, returns "<path>: <problem>" for each issue
+export function validateWaf(waf: IWafParameter | undefined, path: string): string[] {
+  const issues: string[] = [];
+  const checkCidrs = (key: "allowList" | "denyList") => {
+    (Array.isArray(waf?.[key]) ? waf![key]! : []).forEach((cidr, index) => {
+      if (cidrPattern.test(cidr) && !isCidr(cidr)) {
+        issues.push(`${path}.${key}[${index}]: '${cidr}' is not a valid CIDR range`);
+      } else if (key === "denyList" && waf!.allowList?.includes(cidr)) {
+        issues.push(`${path}.${key}[${index}]: '${cidr}' also in allowList`);
+      }
+    });
+  };
+  checkCidrs("allowList");
+  checkCidrs("denyList");
+  return issues;
+}
+
+// Split CIDR ranges into IPv4 and IPv6 ranges
+export function splitCidrs(cidrs: string[]): ICidrsByVersion {
+  return {
+    ipv4: cidrs.filter((cidr) => isIP(cidr.split("/")[0]) === 4),
+    ipv6: cidrs.filter((cidr) => isIP(cidr.split("/")[0]) === 6),
+  };
+}
+
+// Regular expressions of the URI paths limited by `rateLimits`, below `KC_HTTP_RELATIVE_PATH`
+export function rateLimitedPaths(relativePath: string): { [key in keyof IRateLimits]: string } {
+  const prefix = `^${relativePath.replace(/[.]/g, "\\.")}/realms/[^/]+`;
+  return {
+    token: `${prefix}/protocol/openid-connect/token/?$`,
+    loginActions: `${prefix}/login-actions/`,
+  };
+}
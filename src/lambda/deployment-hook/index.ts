@@ -0,0 +1,55 @@
+import { CodeDeployClient, PutLifecycleEventHookExecutionStatusCommand } from "@aws-sdk/client-codedeploy";
+import { HttpRequest, nodeHttpRequest } from "../provisioning/keycloak-admin";
+
+// Event sent by CodeDeploy to a lifecycle hook of an ECS deployment
+interface IHookEvent {
+  DeploymentId: string;
+  LifecycleEventHookExecutionId: string;
+}
+
+// Wait until the URL answers 200 `threshold` times in a row, false when the deadline passes first
+export const waitUntilHealthy = async (
+  request: HttpRequest,
+  url: string,
+  threshold: number,
+  deadline: number,
+  intervalMilliseconds = 10000
+): Promise<boolean> => {
+  let successes = 0;
+  for (;;) {
+    try {
+      const res = await request("GET", url, {});
+      successes = res.status === 200 ? successes + 1 : 0;
+    } catch (e) {
+      // Connection refused or reset while the replacement tasks are registered
+      successes = 0;
+    }
+    if (successes >= threshold) {
+      return true;
+    }
+    if (Date.now() + intervalMilliseconds > deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMilliseconds));
+  }
+};
+
+// Check the readiness of the replacement tasks through the test listener before the production traffic is shifted,
+// CodeDeploy rolls the deployment back on `Failed`
+export const handler = async (event: IHookEvent, context: { getRemainingTimeInMillis(): number }): Promise<void> => {
+  const url = process.env.HEALTH_CHECK_URL!;
+  const healthy = await waitUntilHealthy(
+    nodeHttpRequest,
+    url,
+    Number(process.env.HEALTHY_THRESHOLD),
+    Date.now() + context.getRemainingTimeInMillis() - 60000
+  );
+  console.log(`${event.DeploymentId}: ${url} ${healthy ? "is healthy" : "not healthy in time"}`);
+  await new CodeDeployClient({}).send(
+    new PutLifecycleEventHookExecutionStatusCommand({
+      deploymentId: event.DeploymentId,
+      lifecycleEventHookExecutionId: event.LifecycleEventHookExecutionId,
+      status: healthy ? "Succeeded" : "Failed",
+    })
+  );
+};
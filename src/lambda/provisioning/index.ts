@@ -0,0 +1,59 @@
+import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { IAdminCredential, IRealmState, KeycloakAdminClient, deleteRealms, reconcile } from "./keycloak-admin";
+
+// Properties of the provisioning custom resource, all strings as passed by CloudFormation
+interface IProvisioningProperties {
+  Url: string;
+  AdminSecretArn: string;
+  Realms: string;
+  RetainOnDelete: string;
+}
+
+// Subset of the event sent by the custom resource provider framework
+interface IProvisioningEvent {
+  RequestType: "Create" | "Update" | "Delete";
+  PhysicalResourceId?: string;
+  ResourceProperties: IProvisioningProperties;
+  OldResourceProperties?: IProvisioningProperties;
+}
+
+// Read the master realm administrator from `UserSecret`
+const getCredential = async (secretArn: string): Promise<IAdminCredential> => {
+  const res = await new SecretsManagerClient({}).send(new GetSecretValueCommand({ SecretId: secretArn }));
+  const secret = JSON.parse(res.SecretString!);
+  return { username: secret.username, password: secret.password };
+};
+
+// Apply realms declared in 'cdk.json' through the Keycloak Admin REST API
+export const handler = async (
+  event: IProvisioningEvent,
+  context: { getRemainingTimeInMillis(): number }
+): Promise<{ PhysicalResourceId: string }> => {
+  const props = event.ResourceProperties;
+  const physicalResourceId = event.PhysicalResourceId ?? `keycloak-provisioning-${props.Url}`;
+  const client = new KeycloakAdminClient(props.Url, await getCredential(props.AdminSecretArn));
+  const realms: IRealmState[] = JSON.parse(props.Realms);
+  console.log(`${event.RequestType} ${realms.map((obj) => obj.realm).join(", ")} on ${props.Url}`);
+
+  if (event.RequestType === "Delete") {
+    if (props.RetainOnDelete === "true") {
+      return { PhysicalResourceId: physicalResourceId };
+    }
+    // Do not block the stack deletion, e.g. after a failed creation where Keycloak never became ready
+    try {
+      await client.waitUntilReady(Date.now() + 120000);
+    } catch (e) {
+      console.log(`Skip deleting realms: ${e instanceof Error ? e.message : e}`);
+      return { PhysicalResourceId: physicalResourceId };
+    }
+    await deleteRealms(client, realms);
+    return { PhysicalResourceId: physicalResourceId };
+  }
+
+  // Leave a minute for the remaining requests after the service became ready
+  await client.waitUntilReady(Date.now() + context.getRemainingTimeInMillis() - 60000);
+  const previous: IRealmState[] =
+    event.RequestType === "Update" && event.OldResourceProperties ? JSON.parse(event.OldResourceProperties.Realms) : [];
+  await reconcile(client, realms, previous, props.RetainOnDelete !== "true");
+  return { PhysicalResourceId: physicalResourceId };
+};
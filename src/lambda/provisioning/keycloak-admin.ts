@@ -0,0 +1,384 @@
+import * as http from "http";
+import * as https from "https";
+
+/**
+ * HTTP transport
+ */
+
+// Response of a single HTTP request
+export interface IHttpResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Sends a single HTTP request, injectable for tests
+export type HttpRequest = (
+  method: string,
+  url: string,
+  headers: { [key: string]: string },
+  body?: string
+) => Promise<IHttpResponse>;
+
+// Default transport with Node.js `http` and `https` modules
+export const nodeHttpRequest: HttpRequest = (method, url, headers, body) =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    // Content length is set explicitly, bodies of DELETE requests are not sent chunked
+    const contentLength: { [key: string]: number } =
+      body === undefined ? {} : { "Content-Length": Buffer.byteLength(body) };
+    const options = { method, headers: { ...headers, ...contentLength } };
+    const req = (target.protocol === "https:" ? https : http).request(target, options, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () =>
+        resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString() })
+      );
+    });
+    req.on("error", reject);
+    req.setTimeout(30000, () => req.destroy(new Error(`${method} ${url} timed out`)));
+    req.end(body);
+  });
+
+/**
+ * Desired state
+ */
+
+// Keycloak representation, passed to the Admin REST API as is
+export interface IRepresentation {
+  [key: string]: any;
+}
+
+// Realm applied by the provisioning custom resource
+export interface IRealmState {
+  realm: string;
+  // Realm settings without the collections below
+  attributes: IRepresentation;
+  // Realm roles, keyed by `name`
+  roles: IRepresentation[];
+  // Top-level groups keyed by `name`, with `realmRoles`
+  groups: IRepresentation[];
+  // Clients, keyed by `clientId`
+  clients: IRepresentation[];
+  // Identity providers, keyed by `alias`
+  identityProviders: IRepresentation[];
+  // Users keyed by `username`, with `realmRoles` and `groups`
+  users: IRepresentation[];
+}
+
+/**
+ * Admin REST API client
+ */
+
+// Error thrown when the Admin REST API responds with an unexpected status
+export class KeycloakAdminError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "KeycloakAdminError";
+  }
+}
+
+// Credential of the master realm administrator
+export interface IAdminCredential {
+  username: string;
+  password: string;
+}
+
+// Minimal Keycloak Admin REST API client, logs in to the master realm with `admin-cli`
+export class KeycloakAdminClient {
+  private token?: string;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly credential: IAdminCredential,
+    private readonly request: HttpRequest = nodeHttpRequest
+  ) {}
+
+  // Wait until Keycloak answers on the master realm, e.g. while the ECS service is still starting
+  public async waitUntilReady(deadline: number, intervalMilliseconds = 10000): Promise<void> {
+    for (;;) {
+      try {
+        const res = await this.request("GET", `${this.baseUrl}/realms/master`, {});
+        if (res.status === 200) {
+          return;
+        }
+      } catch (e) {
+        // Connection refused or reset while the service is starting
+      }
+      if (Date.now() + intervalMilliseconds > deadline) {
+        throw new Error(`Keycloak at ${this.baseUrl} not ready in time`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMilliseconds));
+    }
+  }
+
+  // Get an access token for the Admin REST API
+  public async login(): Promise<void> {
+    const form = new URLSearchParams({
+      grant_type: "password",
+      client_id: "admin-cli",
+      username: this.credential.username,
+      password: this.credential.password,
+    }).toString();
+    const res = await this.request(
+      "POST",
+      `${this.baseUrl}/realms/master/protocol/openid-connect/token`,
+      { "Content-Type": "application/x-www-form-urlencoded" },
+      form
+    );
+    if (res.status !== 200) {
+      throw new KeycloakAdminError(res.status, `Login to ${this.baseUrl} failed with status ${res.status}`);
+    }
+    this.token = JSON.parse(res.body).access_token;
+  }
+
+  // Call the Admin REST API below `/admin/realms`, returns undefined for 404 on reads
+  public async call<T = any>(method: string, path: string, body?: unknown): Promise<T | undefined> {
+    if (!this.token) {
+      await this.login();
+    }
+    let res = await this.send(method, path, body);
+    if (res.status === 401) {
+      // Access tokens of `admin-cli` are short-lived, log in again once
+      await this.login();
+      res = await this.send(method, path, body);
+    }
+    if (res.status === 404 && method === "GET") {
+      return undefined;
+    }
+    if (res.status < 200 || res.status >= 300) {
+      throw new KeycloakAdminError(res.status, `${method} ${path} failed with status ${res.status}: ${res.body}`);
+    }
+    return res.body ? JSON.parse(res.body) : undefined;
+  }
+
+  private send(method: string, path: string, body?: unknown): Promise<IHttpResponse> {
+    const headers: { [key: string]: string } = { Authorization: `Bearer ${this.token}` };
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    return this.request(
+      method,
+      `${this.baseUrl}/admin/realms${path}`,
+      headers,
+      body === undefined ? undefined : JSON.stringify(body)
+    );
+  }
+}
+
+/**
+ * Reconciliation
+ */
+
+// Names in `previous` that are no longer in `current`
+const removed = (previous: IRepresentation[], current: IRepresentation[], key: string): string[] => {
+  const names = new Set(current.map((obj) => obj[key]));
+  return previous.map((obj) => obj[key]).filter((name) => !names.has(name));
+};
+
+// Representation without the keys handled separately
+const omit = (obj: IRepresentation, keys: string[]): IRepresentation =>
+  Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key)));
+
+const segment = encodeURIComponent;
+
+// Apply the desired realms: create or update what is declared now, delete what was declared before but no longer is.
+// Objects never declared, e.g. created by hand in the admin console, are left untouched.
+// Realms removed from the declaration are only deleted with `deleteRemovedRealms`.
+export async function reconcile(
+  client: KeycloakAdminClient,
+  current: IRealmState[],
+  previous: IRealmState[] = [],
+  deleteRemovedRealms = true
+): Promise<void> {
+  for (const realm of current) {
+    await reconcileRealm(
+      client,
+      realm,
+      previous.find((obj) => obj.realm === realm.realm)
+    );
+  }
+  if (deleteRemovedRealms) {
+    await deleteRealms(
+      client,
+      previous.filter((obj) => removed(previous, current, "realm").includes(obj.realm))
+    );
+  }
+}
+
+// Delete the given realms, used when the custom resource is deleted
+export async function deleteRealms(client: KeycloakAdminClient, realms: IRealmState[]): Promise<void> {
+  for (const realm of realms) {
+    if (await client.call("GET", `/${segment(realm.realm)}`)) {
+      await client.call("DELETE", `/${segment(realm.realm)}`);
+    }
+  }
+}
+
+async function reconcileRealm(client: KeycloakAdminClient, realm: IRealmState, previous?: IRealmState): Promise<void> {
+  const base = `/${segment(realm.realm)}`;
+  const attributes = { ...realm.attributes, realm: realm.realm };
+  if (await client.call("GET", base)) {
+    await client.call("PUT", base, attributes);
+  } else {
+    await client.call("POST", "", attributes);
+  }
+
+  // Realm roles
+  for (const role of realm.roles) {
+    const path = `${base}/roles/${segment(role.name)}`;
+    if (await client.call("GET", path)) {
+      await client.call("PUT", path, role);
+    } else {
+      await client.call("POST", `${base}/roles`, role);
+    }
+  }
+
+  // Clients
+  for (const rep of realm.clients) {
+    const [found] = (await client.call<IRepresentation[]>("GET", `${base}/clients?clientId=${segment(rep.clientId)}`))!;
+    if (found) {
+      await client.call("PUT", `${base}/clients/${found.id}`, { ...rep, id: found.id });
+    } else {
+      await client.call("POST", `${base}/clients`, rep);
+    }
+  }
+
+  // Identity providers
+  for (const rep of realm.identityProviders) {
+    const path = `${base}/identity-provider/instances/${segment(rep.alias)}`;
+    if (await client.call("GET", path)) {
+      await client.call("PUT", path, rep);
+    } else {
+      await client.call("POST", `${base}/identity-provider/instances`, rep);
+    }
+  }
+
+  // Groups with realm role mappings
+  for (const rep of realm.groups) {
+    let group = await findGroup(client, base, rep.name);
+    if (group) {
+      await client.call("PUT", `${base}/groups/${group.id}`, { ...omit(rep, ["realmRoles"]), id: group.id });
+    } else {
+      await client.call("POST", `${base}/groups`, omit(rep, ["realmRoles"]));
+      group = (await findGroup(client, base, rep.name))!;
+    }
+    const before = previous?.groups.find((obj) => obj.name === rep.name);
+    await reconcileRealmRoleMappings(
+      client,
+      base,
+      `${base}/groups/${group.id}/role-mappings/realm`,
+      rep.realmRoles ?? [],
+      before?.realmRoles ?? []
+    );
+  }
+
+  // Users with realm role mappings and group membership
+  for (const rep of realm.users) {
+    let user = await findUser(client, base, rep.username);
+    if (user) {
+      await client.call("PUT", `${base}/users/${user.id}`, omit(rep, ["realmRoles", "groups"]));
+    } else {
+      await client.call("POST", `${base}/users`, omit(rep, ["realmRoles", "groups"]));
+      user = (await findUser(client, base, rep.username))!;
+    }
+    const before = previous?.users.find((obj) => obj.username === rep.username);
+    await reconcileRealmRoleMappings(
+      client,
+      base,
+      `${base}/users/${user.id}/role-mappings/realm`,
+      rep.realmRoles ?? [],
+      before?.realmRoles ?? []
+    );
+    await reconcileGroupMembership(client, base, user.id, rep.groups ?? [], before?.groups ?? []);
+  }
+
+  // Delete what was declared before but no longer is, dependants first
+  if (!previous) {
+    return;
+  }
+  for (const name of removed(previous.users, realm.users, "username")) {
+    const user = await findUser(client, base, name);
+    if (user) await client.call("DELETE", `${base}/users/${user.id}`);
+  }
+  for (const name of removed(previous.groups, realm.groups, "name")) {
+    const group = await findGroup(client, base, name);
+    if (group) await client.call("DELETE", `${base}/groups/${group.id}`);
+  }
+  for (const alias of removed(previous.identityProviders, realm.identityProviders, "alias")) {
+    const path = `${base}/identity-provider/instances/${segment(alias)}`;
+    if (await client.call("GET", path)) await client.call("DELETE", path);
+  }
+  for (const clientId of removed(previous.clients, realm.clients, "clientId")) {
+    const [found] = (await client.call<IRepresentation[]>("GET", `${base}/clients?clientId=${segment(clientId)}`))!;
+    if (found) await client.call("DELETE", `${base}/clients/${found.id}`);
+  }
+  for (const name of removed(previous.roles, realm.roles, "name")) {
+    const path = `${base}/roles/${segment(name)}`;
+    if (await client.call("GET", path)) await client.call("DELETE", path);
+  }
+}
+
+// Top-level group by exact name
+async function findGroup(
+  client: KeycloakAdminClient,
+  base: string,
+  name: string
+): Promise<IRepresentation | undefined> {
+  const groups = await client.call<IRepresentation[]>("GET", `${base}/groups?search=${segment(name)}`);
+  return (groups ?? []).find((obj) => obj.name === name);
+}
+
+// User by exact username
+async function findUser(
+  client: KeycloakAdminClient,
+  base: string,
+  username: string
+): Promise<IRepresentation | undefined> {
+  const users = await client.call<IRepresentation[]>("GET", `${base}/users?username=${segment(username)}&exact=true`);
+  return (users ?? []).find((obj) => obj.username === username.toLowerCase());
+}
+
+// Add the declared realm roles, remove the ones declared before but no longer
+async function reconcileRealmRoleMappings(
+  client: KeycloakAdminClient,
+  base: string,
+  path: string,
+  current: string[],
+  previous: string[]
+): Promise<void> {
+  const mapped = new Set(((await client.call<IRepresentation[]>("GET", path)) ?? []).map((obj) => obj.name));
+  const toRole = async (name: string) => (await client.call("GET", `${base}/roles/${segment(name)}`))!;
+  const add = current.filter((name) => !mapped.has(name));
+  const remove = previous.filter((name) => !current.includes(name) && mapped.has(name));
+  if (add.length) {
+    await client.call("POST", path, await Promise.all(add.map(toRole)));
+  }
+  if (remove.length) {
+    await client.call("DELETE", path, await Promise.all(remove.map(toRole)));
+  }
+}
+
+// Join the declared groups, leave the ones declared before but no longer
+async function reconcileGroupMembership(
+  client: KeycloakAdminClient,
+  base: string,
+  userId: string,
+  current: string[],
+  previous: string[]
+): Promise<void> {
+  const joined = new Set(
+    ((await client.call<IRepresentation[]>("GET", `${base}/users/${userId}/groups`)) ?? []).map((obj) => obj.name)
+  );
+  for (const name of current.filter((name) => !joined.has(name))) {
+    const group = await findGroup(client, base, name);
+    if (!group) {
+      throw new Error(`Group '${name}' of user not found in realm ${base.slice(1)}`);
+    }
+    await client.call("PUT", `${base}/users/${userId}/groups/${group.id}`);
+  }
+  for (const name of previous.filter((name) => !current.includes(name) && joined.has(name))) {
+    const group = (await findGroup(client, base, name))!;
+    await client.call("DELETE", `${base}/users/${userId}/groups/${group.id}`);
+  }
+}
@@ -0,0 +1,182 @@
+import { CloudFormationClient, DescribeStacksCommand } from "@aws-sdk/client-cloudformation";
+import { CreateDBClusterSnapshotCommand, DescribeDBClusterSnapshotsCommand, RDSClient } from "@aws-sdk/client-rds";
+import {
+  DeleteParameterCommand,
+  GetParameterCommand,
+  ParameterNotFound,
+  PutParameterCommand,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+
+// Properties of the upgrade custom resource, all strings as passed by CloudFormation
+interface IUpgradeProperties {
+  Version: string;
+  ParameterName: string;
+  // Empty when no snapshot is taken, e.g. for an existing database
+  DbClusterIdentifier: string;
+  AllowDowngrade: string;
+}
+
+// Subset of the event sent by the custom resource provider framework
+interface IUpgradeEvent {
+  RequestType: "Create" | "Update" | "Delete";
+  StackId: string;
+  PhysicalResourceId?: string;
+  ResourceProperties: IUpgradeProperties;
+  // Returned by `onEvent`, passed to `isComplete`
+  Data?: { SnapshotIdentifier?: string };
+}
+
+// Version record stored in the SSM parameter
+export interface IVersionRecord {
+  version: string;
+  previousVersion?: string;
+  // Snapshot of the database taken before `version` was rolled out
+  snapshotIdentifier?: string;
+}
+
+// What a deployment of the requested version does
+export type UpgradeAction = "none" | "record" | "snapshot";
+
+// Compare dotted versions numerically segment by segment, e.g. `21.0.2` < `21.1.0` < `22.0.0`
+export const compareVersions = (a: string, b: string): number => {
+  const as = a.split(/[.-]/);
+  const bs = b.split(/[.-]/);
+  for (let i = 0; i < Math.max(as.length, bs.length); i++) {
+    const [x, y] = [as[i] ?? "0", bs[i] ?? "0"];
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) {
+      return Math.sign(diff);
+    }
+  }
+  return 0;
+};
+
+// Decide on the requested version against the recorded one, throws on a downgrade unless allowed or rolled back
+export const planUpgrade = (
+  requested: string,
+  recorded: string | undefined,
+  options: { snapshot: boolean; allowDowngrade: boolean; rollback: boolean }
+): UpgradeAction => {
+  if (recorded === undefined) {
+    return "record";
+  }
+  const order = compareVersions(requested, recorded);
+  if (order === 0) {
+    return "none";
+  }
+  if (order < 0 && !options.allowDowngrade && !options.rollback) {
+    throw new Error(
+      `Refusing to downgrade Keycloak from ${recorded} to ${requested}, the database has been migrated. ` +
+        "Restore the snapshot of the previous version and set 'params.upgrade.allowDowngrade'"
+    );
+  }
+  return order > 0 && options.snapshot ? "snapshot" : "record";
+};
+
+// Snapshot identifier of the cluster before an upgrade from `version`: letters, digits and single hyphens
+export const snapshotIdentifier = (clusterIdentifier: string, version: string, date: Date): string => {
+  const timestamp = date.toISOString().replace(/\D/g, "").slice(0, 14);
+  return `${clusterIdentifier}-v${version}-${timestamp}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 255);
+};
+
+// Read the version record, undefined before the first deployment
+const getRecord = async (ssm: SSMClient, name: string): Promise<IVersionRecord | undefined> => {
+  try {
+    const res = await ssm.send(new GetParameterCommand({ Name: name }));
+    return JSON.parse(res.Parameter!.Value!);
+  } catch (e) {
+    if (e instanceof ParameterNotFound) {
+      return undefined;
+    }
+    throw e;
+  }
+};
+
+const putRecord = async (ssm: SSMClient, name: string, record: IVersionRecord): Promise<void> => {
+  await ssm.send(
+    new PutParameterCommand({ Name: name, Value: JSON.stringify(record), Type: "String", Overwrite: true })
+  );
+};
+
+// A stack rolling back may go back to the version it came from
+const isRollingBack = async (stackId: string): Promise<boolean> => {
+  const res = await new CloudFormationClient({}).send(new DescribeStacksCommand({ StackName: stackId }));
+  return res.Stacks?.[0]?.StackStatus === "UPDATE_ROLLBACK_IN_PROGRESS";
+};
+
+// Check the Keycloak version before the tasks start, start a snapshot of the database on an upgrade
+export const onEvent = async (
+  event: IUpgradeEvent
+): Promise<{ PhysicalResourceId: string; Data?: { SnapshotIdentifier: string } }> => {
+  const props = event.ResourceProperties;
+  const physicalResourceId = event.PhysicalResourceId ?? props.ParameterName;
+  const ssm = new SSMClient({});
+
+  if (event.RequestType === "Delete") {
+    await ssm.send(new DeleteParameterCommand({ Name: props.ParameterName })).catch((e) => {
+      if (!(e instanceof ParameterNotFound)) {
+        throw e;
+      }
+    });
+    return { PhysicalResourceId: physicalResourceId };
+  }
+
+  const recorded = await getRecord(ssm, props.ParameterName);
+  const action = planUpgrade(props.Version, recorded?.version, {
+    snapshot: props.DbClusterIdentifier !== "",
+    allowDowngrade: props.AllowDowngrade === "true",
+    rollback: event.RequestType === "Update" && (await isRollingBack(event.StackId)),
+  });
+  console.log(`${event.RequestType} ${recorded?.version ?? "(none)"} -> ${props.Version}: ${action}`);
+
+  if (action === "record") {
+    await putRecord(ssm, props.ParameterName, { version: props.Version, previousVersion: recorded?.version });
+  }
+  if (action !== "snapshot") {
+    return { PhysicalResourceId: physicalResourceId };
+  }
+
+  const snapshot = snapshotIdentifier(props.DbClusterIdentifier, recorded!.version, new Date());
+  await new RDSClient({}).send(
+    new CreateDBClusterSnapshotCommand({
+      DBClusterIdentifier: props.DbClusterIdentifier,
+      DBClusterSnapshotIdentifier: snapshot,
+      Tags: [{ Key: "KeycloakVersion", Value: recorded!.version }],
+    })
+  );
+  return { PhysicalResourceId: physicalResourceId, Data: { SnapshotIdentifier: snapshot } };
+};
+
+// Hold the deployment until the snapshot is available, then record the new version along with it
+export const isComplete = async (event: IUpgradeEvent): Promise<{ IsComplete: boolean }> => {
+  const snapshot = event.Data?.SnapshotIdentifier;
+  if (event.RequestType === "Delete" || !snapshot) {
+    return { IsComplete: true };
+  }
+
+  const res = await new RDSClient({}).send(
+    new DescribeDBClusterSnapshotsCommand({ DBClusterSnapshotIdentifier: snapshot })
+  );
+  const status = res.DBClusterSnapshots?.[0]?.Status;
+  console.log(`${snapshot}: ${status}`);
+  if (status === "creating") {
+    return { IsComplete: false };
+  }
+  if (status !== "available") {
+    throw new Error(`Snapshot ${snapshot} is ${status}`);
+  }
+
+  const props = event.ResourceProperties;
+  const ssm = new SSMClient({});
+  const recorded = await getRecord(ssm, props.ParameterName);
+  await putRecord(ssm, props.ParameterName, {
+    version: props.Version,
+    previousVersion: recorded?.version,
+    snapshotIdentifier: snapshot,
+  });
+  return { IsComplete: true };
+};
@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  assembleBuildContext,
+  fetchProviders,
+  mavenUrl,
+  validateContainerAssets,
+  verifyContainerAssets,
+} from "../lib/build-context";
+import { IContainerParameter } from "../lib/config";
+
+const sha256 = (data: string): string => createHash("sha256").update(data).digest("hex");
+
+// Image directory, theme and local provider in a fresh temporary directory
+const createFixture = () => {
+  const root = mkdtempSync(join(tmpdir(), "build-context-"));
+  const imagePath = join(root, "image");
+  mkdirSync(imagePath);
+  writeFileSync(join(imagePath, "template"), "FROM ${VERSION_0}\n");
+  writeFileSync(join(imagePath, "Dockerfile"), "FROM keycloak\n");
+  const theme = join(root, "themes", "example");
+  mkdirSync(join(theme, "login"), { recursive: true });
+  writeFileSync(join(theme, "login", "theme.properties"), "parent=keycloak\n");
+  const jar = join(root, "local.jar");
+  writeFileSync(jar, "local");
+  const container: IContainerParameter = {
+    name: "keycloak",
+    environment: "dev",
+    repositoryName: "ecr-repo/keycloak",
+    imagePath,
+    version: ["21.1.0"],
+    tag: "21.1.0",
+    themes: [theme],
+    providers: [
+      { path: jar, sha256: sha256("local") },
+      { maven: "org.example:remote:1.0", sha256: sha256("remote") },
+    ],
+  };
+  return { root, container };
+};
+
+// Relative path and content of every file below `dir`
+const listFiles = (dir: string, prefix = ""): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}: ${readFileSync(join(dir, entry.name), "utf8")}`]
+  );
+
+describe("validateContainerAssets", () => {
+  test("reports invalid provider combinations and duplicates", () => {
+    expect(
+      validateContainerAssets(
+        {
+          themes: ["src/themes/a", "other/a"],
+          providers: [
+            { path: "a.jar", maven: "org.example:a:1.0" },
+            { maven: "org.example:b:1.0" },
+            { path: "lib/b-1.0.jar", repository: "https://repo.example.com" },
+          ],
+        },
+        "params.containers[0]"
+      )
+    ).toEqual([
+      "params.containers[0].themes[1]: duplicate theme name 'a'",
+      "params.containers[0].providers[0]: exactly one of 'path' and 'maven' required",
+      "params.containers[0].providers[1].sha256: required for Maven artifacts",
+      "params.containers[0].providers[2].repository: only allowed with 'maven'",
+      "params.containers[0].providers[2]: duplicate provider file name 'b-1.0.jar'",
+    ]);
+  });
+
+  test("builds Maven URLs", () => {
+    expect(mavenUrl({ maven: "org.example.keycloak:ext:1.2.3" })).toBe(
+      "https://repo1.maven.org/maven2/org/example/keycloak/ext/1.2.3/ext-1.2.3.jar"
+    );
+  });
+});
+
+describe("fetchProviders", () => {
+  test("downloads once and verifies the checksum", async () => {
+    const { root, container } = createFixture();
+    const cache = join(root, "cache");
+    const download = jest.fn(async () => Buffer.from("remote"));
+    await fetchProviders(container, download, cache);
+    await fetchProviders(container, download, cache);
+    expect(download.mock.calls).toEqual([["https://repo1.maven.org/maven2/org/example/remote/1.0/remote-1.0.jar"]]);
+    expect(existsSync(join(cache, `${sha256("remote")}.jar`))).toBe(true);
+  });
+
+  test("rejects a checksum mismatch", async () => {
+    const { root, container } = createFixture();
+    const cache = join(root, "cache");
+    await expect(fetchProviders(container, async () => Buffer.from("tampered"), cache)).rejects.toThrow(
+      `expected ${sha256("remote")}`
+    );
+    expect(existsSync(cache)).toBe(false);
+  });
+});
+
+describe("assembleBuildContext", () => {
+  test("assembles the same context on every run", async () => {
+    const { root, container } = createFixture();
+    const cache = join(root, "cache");
+    await fetchProviders(container, async () => Buffer.from("remote"), cache);
+    const out = join(root, "out");
+    assembleBuildContext(container, out, cache);
+    const first = listFiles(out);
+    expect(first).toEqual([
+      "Dockerfile: FROM keycloak\n",
+      "providers/local.jar: local",
+      "providers/remote-1.0.jar: remote",
+      "themes/example/login/theme.properties: parent=keycloak\n",
+    ]);
+    writeFileSync(join(out, "stale"), "");
+    assembleBuildContext(container, out, cache);
+    expect(listFiles(out)).toEqual(first);
+  });
+
+  test("fails on missing or modified assets", () => {
+    const { root, container } = createFixture();
+    writeFileSync(container.providers![0].path!, "modified");
+    container.themes = [join(root, "themes", "missing")];
+    expect(verifyContainerAssets(container)).toEqual([
+      `theme directory '${join(root, "themes", "missing")}' not found`,
+      `provider '${container.providers![0].path}' does not match its sha256`,
+    ]);
+    expect(() => assembleBuildContext(container, join(root, "out"), join(root, "cache"))).toThrow("not valid");
+  });
+
+  test("fails when a Maven provider is not downloaded", () => {
+    const { root, container } = createFixture();
+    expect(() => assembleBuildContext(container, join(root, "out"), join(root, "cache"))).toThrow(
+      "Provider 'org.example:remote:1.0' not downloaded"
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { App } from "aws-cdk-lib";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { infinispanSchemaVersion, validateCache, validateKeycloakVersion } from "../lib/cache";
+import { Common } from "../lib/common";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+const common = (cache?: object, params: object = {}) =>
+  new Common({ app: new App(), params: { ...example, ...(cache ? { cache } : {}), ...params } });
+
+describe("validateCache", () => {
+  test("requires the remote server with the remote mode only", () => {
+    expect(validateCache(undefined, "params.cache", ["14.0"])).toEqual([]);
+    expect(validateCache({ mode: "remote" }, "params.cache", ["14.0"])).toEqual([
+      "params.cache.remote: required with mode 'remote'",
+    ]);
+    expect(
+      validateCache({ mode: "dns-ping", remote: { host: "infinispan.internal" } }, "params.cache", ["14.0"])
+    ).toEqual(["params.cache.remote: not allowed with mode 'dns-ping'"]);
+  });
+
+  test("reports settings not defined for the cache type", () => {
+    const caches = {
+      realms: { owners: 2 },
+      sessions: { type: "replicated" as const, owners: 3 },
+      crl: { maxCount: 1000, remoteStore: true },
+    };
+    expect(validateCache({ mode: "jdbc-ping", caches }, "params.cache", ["14.0"])).toEqual([
+      "params.cache.caches.realms.owners: not defined for 'local' caches in schema 14.0",
+      "params.cache.caches.sessions.owners: not defined for 'replicated' caches in schema 14.0",
+      "params.cache.caches.crl.remoteStore: not defined for 'local' caches in schema 14.0",
+    ]);
+  });
+
+  test.each([
+    ["13.0", { sessions: { remoteStore: true } }, "sessions.remoteStore: not defined for 'distributed' caches"],
+    ["14.0", { work: { owners: 2 } }, "work.owners: not defined for 'replicated' caches"],
+    [
+      "15.0",
+      { actionTokens: { objectEncoding: true } },
+      "actionTokens.objectEncoding: not defined for 'distributed' caches",
+    ],
+  ])("rejects the settings schema %s does not define", (schemaVersion, caches, issue) => {
+    expect(validateCache({ mode: "jdbc-ping", caches }, "params.cache", [schemaVersion])).toEqual([
+      `params.cache.caches.${issue} in schema ${schemaVersion}`,
+    ]);
+  });
+
+  test("checks the settings against the schema of every container", () => {
+    const remote = { mode: "remote" as const, remote: { host: "infinispan.internal" } };
+    expect(validateCache(remote, "params.cache", ["14.0", "15.0"])).toEqual([]);
+    expect(validateCache(remote, "params.cache", ["13.0", "14.0", "13.0"])).toEqual([
+      "params.cache.mode: 'remote' not defined in schema 13.0, which has no remote stores",
+    ]);
+  });
+});
+
+describe("infinispanSchemaVersion", () => {
+  test("maps Keycloak versions to the schema they ship", () => {
+    expect(infinispanSchemaVersion("18.0.2")).toBe("13.0");
+    expect(infinispanSchemaVersion("21.0.2")).toBe("14.0");
+    expect(infinispanSchemaVersion("26.0.5")).toBe("15.0");
+    expect(validateKeycloakVersion("16.1.1", "params.containers[0].version[0]")).toEqual([
+      "params.containers[0].version[0]: Keycloak '16.1.1' has no known Infinispan schema, supported are 17 to 26",
+    ]);
+  });
+});
+
+describe("getCacheParameter", () => {
+  test("uses JDBC_PING with the Keycloak caches by default", () => {
+    const cache = common().getCacheParameter("keycloak");
+    expect(cache).toMatchObject({
+      mode: "jdbc-ping",
+      configFile: "cache-ispn.xml",
+      ports: [
+        { port: 7800, description: "jgroups-tcp" },
+        { port: 57800, description: "jgroups-tcp-fd" },
+      ],
+      lockTimeout: 60000,
+      jdbcPingTableName: "JGROUPSPING",
+      namespace: undefined,
+      remote: undefined,
+    });
+    expect(cache.caches.sessions).toEqual({ type: "distributed", owners: 2, lifespan: -1, remoteStore: true });
+  });
+
+  test("names the DNS_PING query after the service and the remote server defaults", () => {
+    expect(common({ mode: "dns-ping" }).getCacheParameter("keycloak")).toMatchObject({
+      namespace: "app-dev-feature-keycloak.local",
+      dnsQuery: "keycloak.app-dev-feature-keycloak.local",
+    });
+    expect(
+      common({ mode: "remote", remote: { host: "infinispan.internal" } }).getCacheParameter("keycloak").remote
+    ).toEqual({ host: "infinispan.internal", port: 11222, tls: true });
+  });
+
+  test("merges the cache settings of the target environment", () => {
+    const environments = example.environments.map((obj: { name: string }) =>
+      obj.name === "dev" ? { ...obj, cache: { owners: { sessions: 1 }, caches: { keys: { maxCount: 100 } } } } : obj
+    );
+    const cache = common({ mode: "jdbc-ping", owners: { sessions: 3 }, lockTimeout: 30000 }, { environments });
+    expect(cache.getCacheParameter("keycloak")).toMatchObject({
+      lockTimeout: 30000,
+      caches: {
+        sessions: { owners: 1 },
+        keys: { type: "local", objectEncoding: true, maxIdle: 3600000, maxCount: 100 },
+      },
+    });
+  });
+});
+
+describe("getCacheConfig", () => {
+  test("matches the snapshot of the default MySQL configuration", () => {
+    expect(common().getCacheConfig("keycloak")).toMatchSnapshot();
+  });
+
+  test("declares the schema of the Keycloak version and the PostgreSQL table", () => {
+    const [container] = example.containers;
+    const xml = common(undefined, {
+      containers: [{ ...container, version: ["25.0.6"] }],
+      database: { engine: "postgres" },
+    }).getCacheConfig("keycloak");
+    expect(xml).toContain('xmlns="urn:infinispan:config:15.0"');
+    expect(xml).toContain('connection_driver="org.postgresql.Driver"');
+    expect(xml).toContain("ping_data BYTEA");
+  });
+
+  test("discovers the members through DNS with the configured caches", () => {
+    const xml = common({
+      mode: "dns-ping",
+      owners: { sessions: 3, authenticationSessions: 1 },
+      lockTimeout: 15000,
+      caches: { work: { type: "distributed" }, crl: { maxCount: 1000, lifespan: 3600000 } },
+    }).getCacheConfig("keycloak");
+    expect(xml).toContain('<transport lock-timeout="15000" stack="dns-ping-tcp"/>');
+    expect(xml).toContain('<dns.DNS_PING dns_query="keycloak.app-dev-feature-keycloak.local"');
+    expect(xml).not.toContain("JDBC_PING");
+    expect(xml).toContain('<distributed-cache name="sessions" owners="3" statistics="true">');
+    expect(xml).toContain('<distributed-cache name="authenticationSessions" owners="1" statistics="true">');
+    expect(xml).toContain('<distributed-cache name="work" owners="2" statistics="true"/>');
+    expect(xml).toMatch(
+      /<local-cache name="crl" statistics="true">\s+<expiration lifespan="3600000"\/>\s+<memory max-count="1000"\/>\s+<\/local-cache>/
+    );
+  });
+
+  test("renders the caches Keycloak expects in the schema of its version", () => {
+    const [container] = example.containers;
+    const config = (version: string) =>
+      common(undefined, { containers: [{ ...container, version: [version] }] }).getCacheConfig("keycloak");
+    expect(config("18.0.2")).not.toContain('name="crl"');
+    expect(config("18.0.2")).toMatch(/<distributed-cache name="actionTokens"[^>]*>\s+<encoding>/);
+    expect(config("25.0.6")).toMatch(/<local-cache name="crl"[^>]*>\s+<encoding>/);
+    expect(config("25.0.6")).toMatch(/<distributed-cache name="actionTokens"[^>]*>\s+<expiration /);
+  });
+
+  test("keeps the caches with a remote store in the remote server", () => {
+    const remote = {
+      host: "infinispan.internal",
+      port: 11322,
+      secretArn: "arn:aws:secretsmanager:ap-northeast-1:000000000000:secret:infinispan-AbCdEf",
+    };
+    const xml = common({ mode: "remote", remote, jdbcPingTableName: "KC_PING" }).getCacheConfig("keycloak");
+    expect(xml).toContain('stack="jdbc-ping-tcp"');
+    expect(xml).toContain("CREATE TABLE IF NOT EXISTS KC_PING");
+    expect(xml).toContain('select_all_pingdata_sql="SELECT ping_data, own_addr, cluster_name FROM KC_PING');
+    expect(xml.match(/<remote-store /g)).toHaveLength(7);
+    expect(xml).not.toMatch(/cache="authenticationSessions"/);
+    expect(xml).toContain('<remote-server host="infinispan.internal" port="11322"/>');
+    expect(xml).toContain('username="${env.KC_REMOTE_CACHE_USERNAME}"');
+    expect(xml).toContain('<encryption sni-hostname="infinispan.internal"/>');
+    expect(xml).toContain('marshaller="org.keycloak.cluster.infinispan.KeycloakHotRodMarshallerFactory"');
+    const [container] = example.containers;
+    const protoStream = common(
+      { mode: "remote", remote: remote },
+      { containers: [{ ...container, version: ["26.0.5"] }] }
+    ).getCacheConfig("keycloak");
+    expect(protoStream).toContain('<remote-store xmlns="urn:infinispan:config:store:remote:15.0"');
+    expect(protoStream).not.toContain("marshaller=");
+    const unauthenticated = common({ mode: "remote", remote: { host: "infinispan.internal", tls: false } });
+    expect(unauthenticated.getCacheConfig("keycloak")).not.toContain("<security>");
+  });
+
+  test("enables the cache statistics with the metrics only", () => {
+    const xml = common().getCacheConfig("keycloak");
+    expect(xml).toContain('<cache-container name="keycloak" statistics="true">');
+    expect(xml).toContain('<metrics names-as-tags="true"/>');
+    expect(xml).toContain('<distributed-cache name="sessions" owners="2" statistics="true">');
+    const disabled = common(undefined, { metrics: { enabled: false } }).getCacheConfig("keycloak");
+    expect(disabled).not.toContain("statistics");
+    expect(disabled).not.toContain("<metrics");
+  });
+});
+
+describe("createBuildContext", () => {
+  test("generates the cache configuration next to the rendered templates", () => {
+    const outDirectory = common().createBuildContext("keycloak");
+    expect(readFileSync(join(outDirectory, "cache-ispn.xml")).toString()).toBe(common().getCacheConfig("keycloak"));
+    expect(readFileSync(join(outDirectory, "Dockerfile")).toString()).toContain("COPY ./cache-ispn.xml");
+  });
+
+  test("refuses a cache configuration of the image directory", () => {
+    const imagePath = mkdtempSync(join(tmpdir(), "image-"));
+    writeFileSync(join(imagePath, "template"), "FROM ${KEYCLOAK_VERSION}\n");
+    writeFileSync(join(imagePath, "cache-ispn.xml.template"), "<infinispan/>\n");
+    const [container] = example.containers;
+    expect(() =>
+      common(undefined, { containers: [{ ...container, imagePath }] }).createBuildContext("keycloak")
+    ).toThrow(`'${imagePath}' provides 'cache-ispn.xml', which is generated from 'params.cache', remove it`);
+    expect(existsSync(join(imagePath, "cache-ispn.xml"))).toBe(false);
+  });
+});
@@ -1,17 +1,452 @@
-// import * as cdk from 'aws-cdk-lib';
-// import { Template } from 'aws-cdk-lib/assertions';
-// import * as CdkKeycloakQuarkus from '../lib/cdk-keycloak-quarkus-stack';
-
-// example test. To run these tests, uncomment this file along with the
-// example resource in lib/cdk-keycloak-quarkus-stack.ts
-test('SQS Queue Created', () => {
-//   const app = new cdk.App();
-//     // WHEN
-//   const stack = new CdkKeycloakQuarkus.CdkKeycloakQuarkusStack(app, 'MyTestStack');
-//     // THEN
-//   const template = Template.fromStack(stack);
-
-//   template.hasResourceProperties('AWS::SQS::Queue', {
-//     VisibilityTimeout: 300
-//   });
+import { App } from "aws-cdk-lib";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { CertificateStack } from "../lib/cdk-certificate-stack";
+import { KeycloakStack } from "../lib/cdk-keycloak-stack";
+import { Common } from "../lib/common";
+import { applyCompliance } from "../lib/compliance";
+import { EnvironmentName } from "../lib/config";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+// Synthesize both stacks of the example configuration for the target environment, and the standby stacks when a DR
+// region is given, with the configuration injected into `Common` instead of the CDK context and every rule pack
+// applied. `params` are merged into the example ones, `context` into the one of the App. Lambda bundling is skipped,
+// see `maskSnapshot` for the snapshots.
+const synth = (environment: EnvironmentName, drRegion?: string, params: object = {}, context: object = {}) => {
+  const app = new App({ context: { "aws:cdk:bundling-stacks": [], ...context } });
+  const environments = example.environments.map((obj: { name: string }) =>
+    obj.name === environment && drRegion ? { ...obj, drRegion: drRegion } : obj
+  );
+  const common = new Common({
+    app: app,
+    params: { ...example, target: { ...example.target, environment }, environments: environments, ...params },
+  });
+  const targetEnv = common.getEnvironment();
+  const env = { account: targetEnv.account, region: targetEnv.region };
+  const certificateStack = new CertificateStack(app, common.getId("CertificateStack"), { env: env });
+  const keycloakStack = new KeycloakStack(app, common.getId("KeycloakStack"), { env: env });
+  keycloakStack.addDependency(certificateStack);
+  const drEnv = { account: targetEnv.account, region: drRegion };
+  const drStacks = drRegion
+    ? [
+        new CertificateStack(app, common.getId("DrCertificateStack"), { env: drEnv }),
+        new KeycloakStack(app, common.getId("DrKeycloakStack"), { env: drEnv, standby: true }),
+      ]
+    : [];
+  applyCompliance(app, { packs: ["AwsSolutions", "HIPAA.Security"], failOnError: true, reports: false });
+  return {
+    common: common,
+    findings: [certificateStack, keycloakStack, ...drStacks].flatMap((stack) =>
+      Annotations.fromStack(stack).findError("*", Match.anyValue())
+    ),
+    certificate: Template.fromStack(certificateStack),
+    keycloak: Template.fromStack(keycloakStack),
+    standby: drStacks.length ? Template.fromStack(drStacks[1]) : undefined,
+  };
+};
+
+// Template for the snapshots without the asset hashes and the image deployment, whose custom resource is named after
+// the time of the synthesis by cdk-docker-image-deployment
+const maskSnapshot = (template: Template): object => {
+  const isImageDeployment = (logicalId: string) => logicalId.includes("KeycloakImageDeploy");
+  const json: Record<string, Record<string, { DependsOn?: string[] }>> = JSON.parse(
+    JSON.stringify(template.toJSON()).replace(/[0-9a-f]{64}/g, "[asset hash]")
+  );
+  for (const section of [json.Resources, json.Outputs ?? {}]) {
+    Object.keys(section)
+      .filter(isImageDeployment)
+      .forEach((logicalId) => delete section[logicalId]);
+  }
+  Object.values(json.Resources).forEach((resource) => {
+    resource.DependsOn = resource.DependsOn?.filter((logicalId) => !isImageDeployment(logicalId));
+    if (!resource.DependsOn?.length) delete resource.DependsOn;
+  });
+  return json;
+};
+
+const stacks = {
+  dev: synth("dev"),
+  stg: synth("stg"),
+  prod: synth("prod"),
+};
+
+describe.each(["dev", "stg", "prod"] as const)("%s", (environment) => {
+  const { certificate, keycloak } = stacks[environment];
+
+  test("matches the snapshot", () => {
+    expect(maskSnapshot(certificate)).toMatchSnapshot("CertificateStack");
+    expect(maskSnapshot(keycloak)).toMatchSnapshot("KeycloakStack");
+  });
+
+  test("opens the ALBs, the service and the database to their clients only", () => {
+    keycloak.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      SecurityGroupIngress: [
+        Match.objectLike({ CidrIp: "0.0.0.0/0", FromPort: 443, ToPort: 443 }),
+        Match.objectLike({ CidrIp: "0.0.0.0/0", FromPort: 80, ToPort: 80 }),
+      ],
+    });
+    keycloak.hasResourceProperties("AWS::EC2::SecurityGroup", {
+      SecurityGroupIngress: [Match.objectLike({ CidrIp: "172.16.0.0/12", FromPort: 443, ToPort: 443 })],
+    });
+    const ingressFrom = (source: string) =>
+      Object.values(
+        keycloak.findResources("AWS::EC2::SecurityGroupIngress", {
+          Properties: { SourceSecurityGroupId: { "Fn::GetAtt": [Match.stringLikeRegexp(`^${source}`), "GroupId"] } },
+        })
+      ).map((resource) => [
+        resource.Properties.GroupId["Fn::GetAtt"][0].replace(/[0-9A-F]{8}$/, ""),
+        resource.Properties.FromPort,
+      ]);
+    expect(ingressFrom("ALBSecurityGroup")).toEqual([["ECSServiceSecurityGroup", 8080]]);
+    expect(ingressFrom("AdminALBSecurityGroup")).toEqual([["ECSServiceSecurityGroup", 8080]]);
+    expect(ingressFrom("ECSServiceSecurityGroup")).toEqual(
+      expect.arrayContaining([
+        ["ECSServiceSecurityGroup", 7800],
+        ["ECSServiceSecurityGroup", 57800],
+        ["DBSecurityGroup", { "Fn::GetAtt": [expect.stringMatching(/^DBCluster/), "Endpoint.Port"] }],
+      ])
+    );
+    keycloak.resourcePropertiesCountIs(
+      "AWS::EC2::SecurityGroupIngress",
+      { SourceSecurityGroupId: { "Fn::GetAtt": [Match.stringLikeRegexp("^BastionSecurityGroup"), "GroupId"] } },
+      2
+    );
+  });
+
+  test("has no unsuppressed compliance findings", () => {
+    expect(stacks[environment].findings.map((message) => `${message.id}: ${message.entry.data}`)).toEqual([]);
+  });
+
+  test("passes the credentials to the container as secrets", () => {
+    const secretRef = (secret: string, field: string) => ({
+      "Fn::Join": ["", [{ Ref: Match.stringLikeRegexp(`^${secret}`) }, `:${field}::`]],
+    });
+    keycloak.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          Name: "keycloak",
+          Secrets: [
+            { Name: "KC_DB_PASSWORD", ValueFrom: secretRef("DBSecretAttachment", "password") },
+            { Name: "KEYCLOAK_ADMIN", ValueFrom: secretRef("UserSecret", "username") },
+            { Name: "KEYCLOAK_ADMIN_PASSWORD", ValueFrom: secretRef("UserSecret", "password") },
+          ],
+          Environment: Match.not(Match.arrayWith([Match.objectLike({ Name: Match.stringLikeRegexp("PASSWORD") })])),
+        }),
+      ]),
+    });
+    keycloak.hasResourceProperties("AWS::SecretsManager::RotationSchedule", {
+      SecretId: { Ref: Match.stringLikeRegexp("^DBSecret") },
+    });
+  });
+});
+
+describe("profiles", () => {
+  test("scale the service by the tier", () => {
+    const scaling = (environment: EnvironmentName) => {
+      const template = stacks[environment].keycloak;
+      const target = Object.values(template.findResources("AWS::ApplicationAutoScaling::ScalableTarget"))[0];
+      const policy = Object.values(template.findResources("AWS::ApplicationAutoScaling::ScalingPolicy"))[0];
+      return {
+        min: target.Properties.MinCapacity,
+        max: target.Properties.MaxCapacity,
+        schedules: target.Properties.ScheduledActions.length,
+        cpu: policy.Properties.TargetTrackingScalingPolicyConfiguration.TargetValue,
+      };
+    };
+    expect(scaling("dev")).toEqual({ min: 1, max: 2, schedules: 4, cpu: 90 });
+    expect(scaling("stg")).toEqual({ min: 2, max: 8, schedules: 4, cpu: 70 });
+    expect(scaling("prod")).toEqual({ min: 2, max: 8, schedules: 4, cpu: 70 });
+  });
+
+  test("retain the data of stg and prod only", () => {
+    const policies = (environment: EnvironmentName) =>
+      ["AWS::RDS::DBCluster", "AWS::Logs::LogGroup", "AWS::S3::Bucket"].map((type) =>
+        Object.values(stacks[environment].keycloak.findResources(type)).map((resource) => resource.DeletionPolicy)
+      );
+    expect(
+      policies("dev")
+        .flat()
+        .every((policy) => policy === "Delete")
+    ).toBe(true);
+    expect(
+      policies("prod")
+        .flat()
+        .every((policy) => policy === "Retain")
+    ).toBe(true);
+    stacks.dev.keycloak.hasResourceProperties("AWS::RDS::DBCluster", { DeletionProtection: false });
+    stacks.prod.keycloak.hasResourceProperties("AWS::RDS::DBCluster", { DeletionProtection: true });
+  });
+
+  test("name the resources after the target, without the branch in stg and prod", () => {
+    const { common, certificate, keycloak } = stacks.dev;
+    expect(common.getResourceName("keycloak-cluster")).toBe("app-dev-feature-keycloak-cluster");
+    expect(stacks.prod.common.getResourceName("keycloak-cluster")).toBe("app-prod-keycloak-cluster");
+    certificate.hasResourceProperties("AWS::CertificateManager::Certificate", {
+      DomainName: "dev-feature.dev.example.com",
+      SubjectAlternativeNames: ["*.dev-feature.dev.example.com"],
+    });
+    certificate.hasResourceProperties("AWS::SSM::Parameter", { Name: "/app/dev/feature/certificateArn" });
+    keycloak.hasResourceProperties("AWS::ECS::Cluster", { ClusterName: "app-dev-feature-keycloak-cluster" });
+    keycloak.hasResourceProperties("AWS::RDS::DBCluster", {
+      DBClusterIdentifier: "app-dev-feature-keycloak-db-cluster",
+    });
+    stacks.prod.keycloak.hasResourceProperties("AWS::ECS::Cluster", { ClusterName: "app-prod-keycloak-cluster" });
+    stacks.prod.keycloak.hasResourceProperties("AWS::RDS::DBCluster", {
+      DBClusterIdentifier: "app-prod-keycloak-db-cluster",
+    });
+    stacks.prod.certificate.hasResourceProperties("AWS::CertificateManager::Certificate", {
+      DomainName: "prod.example.com",
+    });
+  });
+});
+
+describe("logical IDs", () => {
+  test("keep the resources of the former flat stack layout", () => {
+    // Logical IDs of the resources in the development stack before the split into constructs
+    const flatLayoutLogicalIds = [
+      "ALBAEE750D2",
+      "ALBALBListenerALBTargetGroup9E5D3662",
+      "ALBALBListenerDB80B4FD",
+      "ALBARecordD4A92E2A",
+      "ALBSecurityGroup29A3BDEF",
+      "ALBSecurityGrouptoAppDevFeatureKeycloakStackECSServiceSecurityGroupD101FE888080E63A4B00",
+      "Bastion6045F255",
+      "BastionInstanceProfile8FFAF242",
+      "BastionInstanceRoleD3B36EDD",
+      "BastionInstanceRoleDefaultPolicy457C3156",
+      "BastionSecurityGroupDAB89EBD",
+      "DBCluster15AF587F",
+      "DBClusterInstance160268105",
+      "DBClusterInstance2E3B28A27",
+      "DBClusterLogRetentionaudit4E526728",
+      "DBClusterLogRetentionerror8699E26C",
+      "DBClusterLogRetentiongeneral39D4C308",
+      "DBClusterLogRetentionslowquery3E41AC0D",
+      "DBClusterMonitoringRole4C6272D8",
+      "DBClusterParameterGroup2E3288B7",
+      "DBInstanceParameterGroup1DF8BFF7",
+      "DBSecretAttachmentC565A14F",
+      "DBSecretD58955BC",
+      "DBSecretPolicyFAB19522",
+      "DBSecretRotationAE4D0A5D",
+      "DBSecretRotationFunctionSecurityGroup2F0A8685",
+      "DBSecretRotationSchedule15B092C0",
+      "DBSecurityGroupE3B245A3",
+      "DBSecurityGroupfromAppDevFeatureKeycloakStackBastionSecurityGroup60304978IndirectPort3A4EAB66",
+      "DBSecurityGroupfromAppDevFeatureKeycloakStackDBSecretRotationFunctionSecurityGroup32B7F7AAIndirectPort1955812B",
+      "DBSecurityGroupfromAppDevFeatureKeycloakStackDBSecurityGroupE7B4361F33067DACF499",
+      "DBSecurityGroupfromAppDevFeatureKeycloakStackECSServiceSecurityGroupD101FE88IndirectPortE1B46F4F",
+      "DBSubnetGroup",
+      "ECSCluster7D463CD4",
+      "ECSLogGroupD9ADFBBA",
+      "ECSService89C005CD",
+      "ECSServiceSecurityGroupEB507764",
+      "ECSServiceSecurityGroupfromAppDevFeatureKeycloakStackALBSecurityGroup7C8BEAFE808008BB673B",
+      "ECSServiceSecurityGroupfromAppDevFeatureKeycloakStackECSServiceSecurityGroupD101FE88578003CA7FB3C",
+      "ECSServiceSecurityGroupfromAppDevFeatureKeycloakStackECSServiceSecurityGroupD101FE8878001C427608",
+      "ECSServiceTaskCountTarget3A308FFA",
+      "ECSServiceTaskCountTargetECSCPUScalingD550F919",
+      "ECSTaskDefinitionBaseA261206A",
+      "ECSTaskExecutionRole911F5A4F",
+      "ECSTaskExecutionRoleDefaultPolicyC25F7D27",
+      "ECSTaskRoleDefaultPolicy82FC9293",
+      "ECSTaskRoleF2ADB362",
+      "LogRetentionaae0aa3c5b4d4f87b02d85b201efdd8aFD4BFC8A",
+      "LogRetentionaae0aa3c5b4d4f87b02d85b201efdd8aServiceRole9741ECFB",
+      "LogRetentionaae0aa3c5b4d4f87b02d85b201efdd8aServiceRoleDefaultPolicyADDA7DEB",
+      "UserSecret0463E4F5",
+      "VPCB9E5F0B4",
+      "VPCIGWB7E252D3",
+      "VPCPrivateSubnet1DefaultRouteAE1D6490",
+      "VPCPrivateSubnet1RouteTableAssociation347902D1",
+      "VPCPrivateSubnet1RouteTableBE8A6027",
+      "VPCPrivateSubnet1Subnet8BCA10E0",
+      "VPCPrivateSubnet2DefaultRouteF4F5CFD2",
+      "VPCPrivateSubnet2RouteTable0A19E10E",
+      "VPCPrivateSubnet2RouteTableAssociation0C73D413",
+      "VPCPrivateSubnet2SubnetCFCDAA7A",
+      "VPCPublicSubnet1DefaultRoute91CEF279",
+      "VPCPublicSubnet1EIP6AD938E8",
+      "VPCPublicSubnet1NATGatewayE0556630",
+      "VPCPublicSubnet1RouteTableAssociation0B0896DC",
+      "VPCPublicSubnet1RouteTableFEE4B781",
+      "VPCPublicSubnet1SubnetB4246D30",
+      "VPCPublicSubnet2DefaultRouteB7481BBA",
+      "VPCPublicSubnet2RouteTable6F1A15F1",
+      "VPCPublicSubnet2RouteTableAssociation5A808732",
+      "VPCPublicSubnet2Subnet74179F39",
+      "VPCVPCGW99B986DC",
+    ];
+    const logicalIds = Object.keys(stacks.dev.keycloak.toJSON().Resources);
+    expect(flatLayoutLogicalIds.filter((logicalId) => !logicalIds.includes(logicalId))).toEqual([]);
+  });
+});
+
+describe("disaster recovery", () => {
+  const { findings, keycloak, standby } = synth("prod", "ap-northeast-3");
+
+  test("replicates the database and its credential to the DR region, not the registry", () => {
+    keycloak.hasResourceProperties("AWS::RDS::GlobalCluster", {
+      GlobalClusterIdentifier: "app-prod-keycloak-db-global-cluster",
+      SourceDBClusterIdentifier: { Ref: Match.stringLikeRegexp("^DBCluster") },
+    });
+    keycloak.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "app-prod-keycloak-db-secret",
+      ReplicaRegions: [{ Region: "ap-northeast-3" }],
+    });
+    keycloak.resourceCountIs("AWS::ECR::ReplicationConfiguration", 0);
+    standby!.resourceCountIs("AWS::ECR::ReplicationConfiguration", 0);
+    standby!.hasResourceProperties("AWS::RDS::DBCluster", {
+      GlobalClusterIdentifier: "app-prod-keycloak-db-global-cluster",
+      MasterUsername: Match.absent(),
+      MasterUserPassword: Match.absent(),
+      DatabaseName: Match.absent(),
+      KmsKeyId: { "Fn::GetAtt": [Match.stringLikeRegexp("^DBKey"), "Arn"] },
+    });
+    standby!.resourceCountIs("AWS::SecretsManager::Secret", 1);
+    standby!.resourceCountIs("AWS::SecretsManager::RotationSchedule", 0);
+  });
+
+  test("keeps the standby service at zero tasks without upgrades, provisioning or blue/green deployments", () => {
+    standby!.hasResourceProperties("AWS::ECS::Service", { DesiredCount: 0, DeploymentController: { Type: "ECS" } });
+    standby!.hasResourceProperties("AWS::ApplicationAutoScaling::ScalableTarget", {
+      MinCapacity: 0,
+      MaxCapacity: 8,
+      ScheduledActions: Match.absent(),
+    });
+    ["Custom::KeycloakUpgrade", "Custom::KeycloakProvisioning", "AWS::CodeDeploy::DeploymentGroup"].forEach((type) =>
+      standby!.resourceCountIs(type, 0)
+    );
+    standby!.hasResourceProperties("AWS::IAM::Role", { RoleName: "app-prod-keycloak-task-role-ap-northeast-3" });
+    keycloak.hasResourceProperties("AWS::IAM::Role", { RoleName: "app-prod-keycloak-task-role" });
+  });
+
+  test("fails the records over to the standby ALB while the primary one is unhealthy", () => {
+    keycloak.hasResourceProperties("AWS::Route53::HealthCheck", {
+      HealthCheckConfig: {
+        Type: "HTTPS",
+        FullyQualifiedDomainName: { "Fn::GetAtt": [Match.stringLikeRegexp("^ALB"), "DNSName"] },
+        Port: 443,
+        ResourcePath: "/health/ready",
+        RequestInterval: 30,
+        FailureThreshold: 3,
+      },
+    });
+    ["auth.prod.example.com.", "admin.prod.example.com."].forEach((name) => {
+      keycloak.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: name,
+        Failover: "PRIMARY",
+        SetIdentifier: "ap-northeast-1",
+        HealthCheckId: { "Fn::GetAtt": [Match.stringLikeRegexp("^ALBHealthCheck"), "HealthCheckId"] },
+      });
+      standby!.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: name,
+        Failover: "SECONDARY",
+        SetIdentifier: "ap-northeast-3",
+        HealthCheckId: Match.absent(),
+      });
+    });
+  });
+
+  test("has no unsuppressed compliance findings", () => {
+    expect(findings.map((message) => `${message.id}: ${message.entry.data}`)).toEqual([]);
+  });
+});
+
+describe("pipeline image", () => {
+  test("runs the image the pipeline pushed to the container repository in every environment", () => {
+    const { findings, keycloak, standby } = synth("prod", "ap-northeast-3", {}, { imageTag: "0123abc" });
+    [keycloak, standby!].forEach((template) =>
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            Image: {
+              "Fn::Join": [
+                "",
+                ["000000000000.dkr.ecr.ap-northeast-1.", { Ref: "AWS::URLSuffix" }, "/ecr-repo/keycloak:0123abc"],
+              ],
+            },
+          }),
+        ]),
+      })
+    );
+    expect(findings.map((message) => `${message.id}: ${message.entry.data}`)).toEqual([]);
+  });
+});
+
+describe("shared VPC", () => {
+  test("allows its NAT gateway addresses on the admin console besides the allow list", () => {
+    const environments = example.environments.map((obj: { name: string }) =>
+      obj.name === "dev"
+        ? { ...obj, existingVpc: { vpcId: "vpc-0123456789abcdef0", natPublicIps: ["203.0.113.10", "203.0.113.11"] } }
+        : obj
+    );
+    const { findings, keycloak } = synth("dev", undefined, {
+      environments: environments,
+      admin: { access: "allowList", allowList: ["172.16.0.0/12"] },
+    });
+    keycloak.resourceCountIs("AWS::EC2::VPC", 0);
+    keycloak.hasResourceProperties("AWS::ElasticLoadBalancingV2::ListenerRule", {
+      Conditions: Match.arrayWith([
+        { Field: "source-ip", SourceIpConfig: { Values: ["172.16.0.0/12", "203.0.113.10/32", "203.0.113.11/32"] } },
+      ]),
+    });
+    expect(findings.map((message) => `${message.id}: ${message.entry.data}`)).toEqual([]);
+  });
+});
+
+describe("cache modes", () => {
+  const containerOf = (template: Template) =>
+    Object.values(template.findResources("AWS::ECS::TaskDefinition"))[0].Properties.ContainerDefinitions[0];
+
+  test("cluster the tasks over the JGroups ports in every mode", () => {
+    expect(
+      containerOf(stacks.dev.keycloak).PortMappings.map((obj: { ContainerPort: number }) => obj.ContainerPort)
+    ).toEqual([8080, 7800, 57800]);
+    expect(containerOf(stacks.dev.keycloak).Environment).toContainEqual({
+      Name: "KC_CACHE_CONFIG_FILE",
+      Value: "cache-ispn.xml",
+    });
+    stacks.dev.keycloak.resourceCountIs("AWS::ServiceDiscovery::PrivateDnsNamespace", 0);
+  });
+
+  test("register the tasks in a private DNS namespace for DNS_PING", () => {
+    const { findings, keycloak } = synth("dev", undefined, { cache: { mode: "dns-ping" } });
+    keycloak.hasResourceProperties("AWS::ServiceDiscovery::PrivateDnsNamespace", {
+      Name: "app-dev-feature-keycloak.local",
+    });
+    keycloak.hasResourceProperties("AWS::ServiceDiscovery::Service", {
+      Name: "keycloak",
+      DnsConfig: { DnsRecords: [{ Type: "A", TTL: 10 }] },
+    });
+    keycloak.hasResourceProperties("AWS::ECS::Service", {
+      ServiceRegistries: [{ RegistryArn: { "Fn::GetAtt": [Match.anyValue(), "Arn"] } }],
+    });
+    expect(findings.map((message) => `${message.id}: ${message.entry.data}`)).toEqual([]);
+  });
+
+  test("pass the credentials of the remote Infinispan server and open its security group", () => {
+    const secretArn = "arn:aws:secretsmanager:ap-northeast-1:000000000000:secret:infinispan-AbCdEf";
+    const { findings, keycloak } = synth("dev", undefined, {
+      cache: {
+        mode: "remote",
+        remote: { host: "infinispan.internal", secretArn, securityGroupId: "sg-0123456789abcdef0" },
+      },
+    });
+    expect(containerOf(keycloak).Secrets).toEqual(
+      expect.arrayContaining([
+        { Name: "KC_REMOTE_CACHE_USERNAME", ValueFrom: `${secretArn}:username::` },
+        { Name: "KC_REMOTE_CACHE_PASSWORD", ValueFrom: `${secretArn}:password::` },
+      ])
+    );
+    keycloak.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      GroupId: "sg-0123456789abcdef0",
+      FromPort: 11222,
+      ToPort: 11222,
+      SourceSecurityGroupId: { "Fn::GetAtt": [Match.stringLikeRegexp("^ECSServiceSecurityGroup"), "GroupId"] },
+    });
+    expect(findings.map((message) => `${message.id}: ${message.entry.data}`)).toEqual([]);
+  });
 });
@@ -0,0 +1,152 @@
+import { App } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PipelineStack } from "../lib/cdk-pipeline-stack";
+import { Common } from "../lib/common";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+// Synthesize `PipelineStack` for the configuration
+const synthPipeline = (params: object): Template => {
+  const app = new App();
+  new Common({ app, params });
+  const stack = new PipelineStack(app, "Test", {
+    env: { account: "000000000000", region: "ap-northeast-1" },
+    cdkJsonPath: join(__dirname, "../cdk.EXAMPLE.json"),
+  });
+  return Template.fromStack(stack);
+};
+
+const stages = (template: Template) =>
+  Object.values(template.findResources("AWS::CodePipeline::Pipeline"))[0].Properties.Stages.map(
+    (stage: { Name: string; Actions: { Name: string }[] }) => [stage.Name, stage.Actions.map((action) => action.Name)]
+  );
+
+describe("PipelineStack", () => {
+  test("deploys every environment in order, stg and prod after approval", () => {
+    const template = synthPipeline({ ...example, pipeline: { enabled: true } });
+    expect(stages(template)).toEqual([
+      ["Source", ["Source"]],
+      ["Build", ["Synth"]],
+      ["Image", ["Image"]],
+      ["DeployDev", ["Deploy"]],
+      ["DeployStg", ["Approve", "Deploy"]],
+      ["DeployProd", ["Approve", "Deploy"]],
+    ]);
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Name: "app-dev-feature-pipeline",
+      Stages: Match.arrayWith([
+        {
+          Name: "Source",
+          Actions: [
+            Match.objectLike({
+              Configuration: { RepositoryName: "test-repo", BranchName: "feature", PollForSourceChanges: false },
+            }),
+          ],
+        },
+      ]),
+    });
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Name: "app-dev-feature-pipeline-deploy-prod",
+      Source: {
+        BuildSpec: Match.stringLikeRegexp("cdk deploy --require-approval never -c targetEnvironment=prod "),
+      },
+    });
+  });
+
+  test("builds the images once and deploys them to every environment with the commit as their tag", () => {
+    const template = synthPipeline({
+      ...example,
+      containers: example.containers.map((obj: object) => ({
+        ...obj,
+        buildArgs: { HTTP_PROXY: "http://proxy:3128'" },
+      })),
+      pipeline: { enabled: true },
+    });
+    const registry = "000000000000.dkr.ecr.ap-northeast-1.amazonaws.com";
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Name: "app-dev-feature-pipeline-image",
+      Environment: Match.objectLike({ PrivilegedMode: true }),
+      Source: {
+        BuildSpec: Match.serializedJson(
+          Match.objectLike({
+            phases: Match.objectLike({
+              build: {
+                commands: [
+                  "npx cdk synth -q -c targetEnvironment=dev -c skipPreflight=callerAccount,branch,containerRepository",
+                  "aws ecr get-login-password --region ap-northeast-1 | " +
+                    `docker login --username AWS --password-stdin ${registry}`,
+                  `docker build --build-arg HTTP_PROXY='http://proxy:3128'\\''' ` +
+                    `-t ${registry}/ecr-repo/keycloak:$IMAGE_TAG .build/keycloak`,
+                  `docker push ${registry}/ecr-repo/keycloak:$IMAGE_TAG`,
+                ],
+              },
+            }),
+          })
+        ),
+      },
+    });
+    const actions = Object.values(template.findResources("AWS::CodePipeline::Pipeline"))[0]
+      .Properties.Stages.flatMap((stage: { Actions: object[] }) => stage.Actions)
+      .filter((action: { Name: string }) => ["Image", "Deploy"].includes(action.Name));
+    expect(actions).toHaveLength(4);
+    actions.forEach((action: { Configuration: { EnvironmentVariables: string } }) =>
+      expect(JSON.parse(action.Configuration.EnvironmentVariables)).toEqual([
+        { name: "IMAGE_TAG", type: "PLAINTEXT", value: "#{Source_Source_NS.CommitId}" },
+      ])
+    );
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Name: "app-dev-feature-pipeline-deploy-stg",
+      Source: { BuildSpec: Match.stringLikeRegexp("-c targetEnvironment=stg -c imageTag=\\$IMAGE_TAG ") },
+    });
+  });
+
+  test("assumes the bootstrap roles of the environment accounts only", () => {
+    const template = synthPipeline({ ...example, pipeline: { enabled: true, environments: ["stg"] } });
+    expect(stages(template).map(([name]: [string]) => name)).toEqual(["Source", "Build", "Image", "DeployStg"]);
+    const assumedRoles = Object.values(template.findResources("AWS::IAM::Policy")).flatMap((policy) =>
+      policy.Properties.PolicyDocument.Statement.filter(
+        (statement: { Action: string }) => statement.Action === "sts:AssumeRole"
+      )
+        .map((statement: { Resource: object }) => JSON.stringify(statement.Resource))
+        .filter((resource: string) => resource.includes("cdk-hnb659fds"))
+    );
+    expect(Array.from(new Set(assumedRoles)).sort()).toEqual(
+      ["cdk-hnb659fds-*-role-111111111111-ap-northeast-1", "cdk-hnb659fds-lookup-role-111111111111-ap-northeast-1"].map(
+        (role) =>
+          JSON.stringify({ "Fn::Join": ["", ["arn:", { Ref: "AWS::Partition" }, `:iam::111111111111:role/${role}`]] })
+      )
+    );
+  });
+
+  test("assumes the bootstrap roles of the DR region as well", () => {
+    const template = synthPipeline({
+      ...example,
+      environments: example.environments.map((obj: { name: string }) =>
+        obj.name === "prod" ? { ...obj, drRegion: "ap-northeast-3" } : obj
+      ),
+      pipeline: { enabled: true, environments: ["prod"] },
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          {
+            Action: "sts:AssumeRole",
+            Effect: "Allow",
+            Resource: ["ap-northeast-1", "ap-northeast-3"].map((region) => ({
+              "Fn::Join": [
+                "",
+                [
+                  "arn:",
+                  { Ref: "AWS::Partition" },
+                  `:iam::222222222222:role/cdk-hnb659fds-*-role-222222222222-${region}`,
+                ],
+              ],
+            })),
+          },
+        ]),
+      },
+    });
+  });
+});
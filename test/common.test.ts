@@ -0,0 +1,25 @@
+import { App } from "aws-cdk-lib";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Common } from "../lib/common";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+const common = (params: object) => new Common({ app: new App(), params: { ...example, ...params } });
+
+describe("getRealmStates", () => {
+  test("sets the HSTS header of every provisioned realm", () => {
+    const realms = common({
+      provisioning: { realms: [{ realm: "example" }] },
+      https: { hsts: { maxAgeSeconds: 63072000, includeSubDomains: true, preload: true } },
+    }).getRealmStates();
+    expect(realms.map((realm) => realm.attributes)).toEqual([
+      { browserSecurityHeaders: { strictTransportSecurity: "max-age=63072000; includeSubDomains; preload" } },
+    ]);
+  });
+
+  test("keeps the headers of the realms without HSTS settings", () => {
+    const realms = common({ provisioning: { realms: [{ realm: "example" }] }, https: {} }).getRealmStates();
+    expect(realms.map((realm) => realm.attributes)).toEqual([{}]);
+  });
+});
@@ -0,0 +1,118 @@
+import { App, Stack, aws_ec2 as ec2, aws_ecs as ecs, aws_iam as iam } from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import { NagSuppressions } from "cdk-nag";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Common } from "../lib/common";
+import { applyCompliance } from "../lib/compliance";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+// Stack with one resource breaking each project rule, checked by the project rules only
+const synth = (failOnError: boolean, suppress = false) => {
+  const app = new App();
+  const stack = new Stack(app, "Stack");
+  const vpc = new ec2.Vpc(stack, "VPC", { natGateways: 0 });
+  const databaseSecurityGroup = new ec2.SecurityGroup(stack, "DatabaseSecurityGroup", { vpc: vpc });
+  databaseSecurityGroup.addIngressRule(ec2.Peer.ipv4(vpc.vpcCidrBlock), ec2.Port.tcp(5432));
+  const clientSecurityGroup = new ec2.SecurityGroup(stack, "ClientSecurityGroup", { vpc: vpc });
+  databaseSecurityGroup.addIngressRule(clientSecurityGroup, ec2.Port.tcp(3306));
+  const role = new iam.Role(stack, "ExecutionRole", {
+    assumedBy: new iam.CompositePrincipal(
+      new iam.ServicePrincipal("ecs.amazonaws.com"),
+      new iam.ServicePrincipal("ecs-tasks.amazonaws.com")
+    ),
+  });
+  const taskDefinition = new ecs.FargateTaskDefinition(stack, "TaskDefinition", { executionRole: role });
+  taskDefinition.addContainer("Container", {
+    image: ecs.ContainerImage.fromRegistry("quay.io/keycloak/keycloak"),
+    environment: { KC_DB_URL_HOST: "localhost", KC_DB_PASSWORD: "password" },
+  });
+  if (suppress) {
+    NagSuppressions.addResourceSuppressions(databaseSecurityGroup, [
+      { id: "Keycloak-DB1", reason: "Database of the test, reached from the whole VPC" },
+    ]);
+  }
+  applyCompliance(app, { packs: [], failOnError: failOnError, reports: false });
+  return Annotations.fromStack(stack);
+};
+
+const findingsOf = (messages: { id: string; entry: { data?: unknown } }[]) =>
+  messages
+    .map((message) => [message.id.replace(/^\/Stack\//, ""), String(message.entry.data).split(":")[0]])
+    .filter(([, rule]) => rule.startsWith("Keycloak-"));
+
+describe("KeycloakChecks", () => {
+  test("reports CIDR ranges on database ports, ECS service trust and credentials in the environment", () => {
+    const annotations = synth(true);
+    expect(findingsOf(annotations.findError("*", Match.anyValue()))).toEqual([
+      ["DatabaseSecurityGroup/Resource", "Keycloak-DB1"],
+      ["ExecutionRole/Resource", "Keycloak-IAM1"],
+      ["TaskDefinition/Resource", "Keycloak-ECS1"],
+    ]);
+  });
+
+  test("reports the findings as warnings unless failing on errors", () => {
+    const annotations = synth(false);
+    expect(findingsOf(annotations.findError("*", Match.anyValue()))).toEqual([]);
+    expect(findingsOf(annotations.findWarning("*", Match.anyValue())).map(([, rule]) => rule)).toEqual([
+      "Keycloak-DB1",
+      "Keycloak-IAM1",
+      "Keycloak-ECS1",
+    ]);
+  });
+
+  test("reports every protocol from a CIDR range as open database ports", () => {
+    const app = new App();
+    const stack = new Stack(app, "Stack");
+    const vpc = new ec2.Vpc(stack, "VPC", { natGateways: 0 });
+    const securityGroup = new ec2.SecurityGroup(stack, "AllTrafficSecurityGroup", { vpc: vpc });
+    securityGroup.addIngressRule(ec2.Peer.ipv4(vpc.vpcCidrBlock), ec2.Port.allTraffic());
+    new ec2.CfnSecurityGroupIngress(stack, "AllPortsIngress", {
+      groupId: securityGroup.securityGroupId,
+      ipProtocol: "-1",
+      cidrIp: "10.0.0.0/8",
+      fromPort: -1,
+      toPort: -1,
+    });
+    new ec2.CfnSecurityGroupIngress(stack, "PeerIngress", {
+      groupId: securityGroup.securityGroupId,
+      ipProtocol: "-1",
+      sourceSecurityGroupId: securityGroup.securityGroupId,
+    });
+    applyCompliance(app, { packs: [], failOnError: true, reports: false });
+    expect(findingsOf(Annotations.fromStack(stack).findError("*", Match.anyValue()))).toEqual([
+      ["AllTrafficSecurityGroup/Resource", "Keycloak-DB1"],
+      ["AllPortsIngress", "Keycloak-DB1"],
+    ]);
+  });
+
+  test("skips suppressed findings", () => {
+    const rules = findingsOf(synth(true, true).findError("*", Match.anyValue())).map(([, rule]) => rule);
+    expect(rules).toEqual(["Keycloak-IAM1", "Keycloak-ECS1"]);
+  });
+});
+
+describe("getComplianceParameter", () => {
+  const common = (environment: string, compliance?: object) =>
+    new Common({
+      app: new App(),
+      params: { ...example, target: { ...example.target, environment }, ...(compliance ? { compliance } : {}) },
+    });
+
+  test("fails on errors in prod only by default", () => {
+    expect(common("dev").getComplianceParameter()).toEqual({
+      enabled: false,
+      packs: ["AwsSolutions", "HIPAA.Security"],
+      failOnError: false,
+      reports: true,
+    });
+    expect(common("prod", { enabled: true }).getComplianceParameter()).toMatchObject({
+      enabled: true,
+      failOnError: true,
+    });
+    expect(
+      common("prod", { enabled: true, packs: ["AwsSolutions"], failOnError: false }).getComplianceParameter()
+    ).toMatchObject({ packs: ["AwsSolutions"], failOnError: false });
+  });
+});
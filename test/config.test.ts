@@ -0,0 +1,338 @@
+import { SslPolicy } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import {
+  ConfigValidationError,
+  IConfigParameter,
+  IEnvironmentParameter,
+  ITargetParameter,
+  parseConfig,
+  validateConfig,
+} from "../lib/config";
+
+const validParams = (): IConfigParameter => ({
+  target: {
+    application: "app",
+    environment: "dev",
+    owner: "nekrassov01",
+    repository: "test-repo",
+    branch: "feature",
+  },
+  environments: [
+    { name: "dev", account: "000000000000", region: "ap-northeast-1", domain: "dev.example.com" },
+    { name: "stg", account: "111111111111", region: "ap-northeast-1", domain: "stg.example.com" },
+    { name: "prod", account: "222222222222", region: "ap-northeast-1", domain: "example.com" },
+  ],
+  containers: [
+    {
+      name: "keycloak",
+      environment: "dev",
+      repositoryName: "ecr-repo/keycloak",
+      imagePath: "src/image/keycloak",
+      version: ["21.0.2"],
+      tag: "21.0.2",
+    },
+  ],
+});
+
+describe("validateConfig", () => {
+  test("accepts a valid configuration", () => {
+    expect(validateConfig(validParams())).toEqual([]);
+  });
+
+  test("reports missing params", () => {
+    expect(validateConfig(undefined)).toEqual(["params: expected object, got undefined"]);
+  });
+
+  test("reports duplicate environment names with their path", () => {
+    const params = validParams();
+    params.environments[2].name = "stg";
+    expect(validateConfig(params)).toEqual(["params.environments[2].name: duplicate 'stg'"]);
+  });
+
+  test("reports duplicate environment accounts", () => {
+    const params = validParams();
+    params.environments[1].account = "000000000000";
+    expect(validateConfig(params)).toEqual(["params.environments[1].account: duplicate '000000000000'"]);
+  });
+
+  test("reports typos and missing keys together", () => {
+    const params = validParams();
+    const { repositoryName, ...container } = params.containers[0];
+    delete (params.environments[0] as Partial<IEnvironmentParameter>).domain;
+    expect(validateConfig({ ...params, containers: [{ ...container, repositoryname: repositoryName }] })).toEqual([
+      "params.environments[0].domain: required",
+      "params.containers[0].repositoryName: required",
+      "params.containers[0].repositoryname: unknown key",
+    ]);
+  });
+
+  test("reports invalid values", () => {
+    const params = validParams();
+    params.environments[0].account = "12345";
+    expect(
+      validateConfig({
+        ...params,
+        target: { ...params.target, environment: "qa" },
+        containers: [{ ...params.containers[0], version: "21.0.2" }],
+      })
+    ).toEqual([
+      "params.target.environment: 'qa' must be one of 'dev', 'stg', 'prod'",
+      "params.environments[0].account: '12345' does not match /^\\d{12}$/",
+      "params.containers[0].version: expected array, got string",
+    ]);
+  });
+
+  test("accepts supported database engines only", () => {
+    expect(validateConfig({ ...validParams(), database: { engine: "postgres" } })).toEqual([]);
+    expect(validateConfig({ ...validParams(), database: { engine: "oracle" } })).toEqual([
+      "params.database.engine: 'oracle' must be one of 'mysql', 'postgres'",
+    ]);
+  });
+
+  test("accepts an existing VPC and database", () => {
+    const params = validParams();
+    params.environments[0].existingVpc = { vpcIdParameterName: "/landing-zone/vpc-id", privateSubnetGroupName: "App" };
+    params.environments[0].existingDatabase = {
+      hostname: "central.cluster-abc.ap-northeast-1.rds.amazonaws.com",
+      secretArn: "arn:aws:secretsmanager:ap-northeast-1:000000000000:secret:central-db-AbCdEf",
+      securityGroupId: "sg-0123456789abcdef0",
+    };
+    expect(validateConfig(params)).toEqual([]);
+  });
+
+  test("requires exactly one way to find an existing VPC", () => {
+    const params = validParams();
+    params.environments[0].existingVpc = {};
+    params.environments[1].existingVpc = { vpcId: "vpc-0123456789abcdef0", vpcIdParameterName: "/landing-zone/vpc-id" };
+    expect(validateConfig(params)).toEqual([
+      "params.environments[0].existingVpc: exactly one of 'vpcId' and 'vpcIdParameterName' required",
+      "params.environments[1].existingVpc: exactly one of 'vpcId' and 'vpcIdParameterName' required",
+    ]);
+  });
+
+  test("requires the NAT gateway addresses of an existing VPC for the allow lists", () => {
+    const params = validParams();
+    params.environments[0].existingVpc = { vpcId: "vpc-0123456789abcdef0" };
+    params.environments[1].existingVpc = { vpcId: "vpc-0123456789abcdef0", natPublicIps: ["203.0.113.10"] };
+    expect(validateConfig(params)).toEqual([]);
+    params.admin = { access: "allowList", allowList: ["10.0.0.0/8"] };
+    expect(validateConfig(params)).toEqual([
+      "params.environments[0].existingVpc.natPublicIps: required with admin access 'allowList'",
+    ]);
+    params.admin = undefined;
+    params.blueGreen = { enabled: true, testAllowList: ["10.0.0.0/8"] };
+    params.environments[1].existingVpc.natPublicIps = ["203.0.113.10/32"];
+    expect(validateConfig(params)).toEqual([
+      "params.environments[1].existingVpc.natPublicIps[0]: '203.0.113.10/32' does not match /^(\\d{1,3}\\.){3}\\d{1,3}$/",
+      "params.environments[0].existingVpc.natPublicIps: required with blue/green deployments",
+    ]);
+  });
+
+  test("reports an incomplete existing database", () => {
+    const params = validParams();
+    params.environments[0].existingDatabase = { hostname: "db.example.internal", secretArn: "central-db" };
+    expect(validateConfig(params)).toEqual([
+      "params.environments[0].existingDatabase.secretArn: 'central-db' does not match /^arn:aws[\\w-]*:secretsmanager:[a-z0-9-]+:\\d{12}:secret:.+-[A-Za-z0-9]{6}$/",
+    ]);
+  });
+
+  test("reports a DR region that is the primary one or combined with an existing database", () => {
+    const params = validParams();
+    params.environments[2].drRegion = "ap-northeast-3";
+    expect(validateConfig(params)).toEqual([]);
+    params.environments[0].drRegion = "ap-northeast-1";
+    params.environments[2].existingDatabase = {
+      hostname: "db.example.internal",
+      secretArn: "arn:aws:secretsmanager:ap-northeast-1:222222222222:secret:central-db-AbCdEf",
+    };
+    expect(validateConfig(params)).toEqual([
+      "params.environments[0].drRegion: must differ from region 'ap-northeast-1'",
+      "params.environments[2].drRegion: not allowed with 'existingDatabase', the Global Database requires the Aurora cluster",
+    ]);
+  });
+
+  test("reports emails for an existing alarm topic", () => {
+    const params = validParams();
+    params.environments[0].notifications = { emails: ["ops@example.com"] };
+    params.environments[2].notifications = {
+      topicArn: "arn:aws:sns:ap-northeast-1:222222222222:ops",
+      emails: ["ops@example.com"],
+    };
+    expect(validateConfig(params)).toEqual([
+      "params.environments[2].notifications: 'emails' only allowed without 'topicArn'",
+    ]);
+  });
+
+  test("reports invalid provisioning declarations", () => {
+    const params = validParams();
+    const provisioning = {
+      realms: [
+        {
+          realm: "example",
+          clients: [{ clientId: "web" }, { clientId: "web" }],
+          identityProviders: [{ alias: "corp", providerId: "oidc", config: { clientSecret: 1 } }],
+          users: [{ username: "alice", credentials: [] }],
+        },
+      ],
+    };
+    expect(validateConfig({ ...params, provisioning })).toEqual([
+      "params.provisioning.realms[0].clients[1].clientId: duplicate 'web'",
+      "params.provisioning.realms[0].identityProviders[0].config.clientSecret: expected string, got number",
+      "params.provisioning.realms[0].users[0].credentials: unknown key",
+    ]);
+  });
+
+  test("reports invalid template variables and build args", () => {
+    const params = validParams();
+    params.containers[0].variables = { JAVA_OPTS_APPEND: "-Xmx1g", kc_db: "x", KC_DB: "x", VERSION_1: "x" };
+    params.containers[0].buildArgs = { HTTP_PROXY: "http://proxy", "NO-PROXY": "x" };
+    expect(validateConfig(params)).toEqual([
+      "params.containers[0].variables.kc_db: name must match /^[A-Z][A-Z0-9_]*$/",
+      "params.containers[0].variables.KC_DB: built-in variable cannot be overridden",
+      "params.containers[0].variables.VERSION_1: built-in variable cannot be overridden",
+      "params.containers[0].buildArgs.NO-PROXY: name must match /^[A-Za-z_][A-Za-z0-9_]*$/",
+    ]);
+  });
+
+  test("reports invalid Keycloak options", () => {
+    const params = validParams();
+    params.keycloak = { features: ["token-exchange"], runtimeOptions: { KC_VAULT: "file" } };
+    expect(validateConfig(params)).toEqual([
+      "params.keycloak.runtimeOptions.KC_VAULT: build option, changing it requires a rebuild of the image, set in 'buildOptions'",
+    ]);
+  });
+
+  test("reports invalid WAF settings", () => {
+    const params = validParams();
+    params.waf = { enabled: true, rateLimits: { token: 50 }, allowList: ["10.0.0.0/8"], denyList: ["10.0.0.1"] };
+    expect(validateConfig(params)).toEqual([
+      "params.waf.rateLimits.token: 50 must be >= 100",
+      "params.waf.denyList[0]: '10.0.0.1' does not match /^[0-9A-Fa-f.:]+\\/\\d{1,3}$/",
+    ]);
+  });
+
+  test("reports admin console allow lists that do not fit the access", () => {
+    const params = validParams();
+    params.admin = { access: "allowList", allowList: [] };
+    expect(validateConfig(params)).toEqual(["params.admin.allowList: required with access 'allowList'"]);
+    params.admin = { access: "public", allowList: ["10.0.0.0/8"] };
+    expect(validateConfig(params)).toEqual(["params.admin.allowList: not allowed with access 'public'"]);
+    params.admin = { access: "internal", allowList: ["10.0.0.0/33"] };
+    expect(validateConfig(params)).toEqual(["params.admin.allowList[0]: '10.0.0.0/33' is not a valid CIDR range"]);
+  });
+
+  test("reports unknown TLS policies and HSTS preload without its requirements", () => {
+    const params = validParams();
+    params.https = { redirectHttp: true, sslPolicy: SslPolicy.RECOMMENDED_TLS, hsts: { maxAgeSeconds: 0 } };
+    expect(validateConfig(params)).toEqual([]);
+    params.https = { hsts: { maxAgeSeconds: 86400, includeSubDomains: true, preload: true } };
+    expect(validateConfig({ ...params, https: { ...params.https, sslPolicy: "TLS-1-3" } })[0]).toMatch(
+      /^params\.https\.sslPolicy: 'TLS-1-3' must be one of /
+    );
+    params.https.sslPolicy = SslPolicy.RECOMMENDED_TLS;
+    expect(validateConfig(params)).toEqual([
+      "params.https.hsts.preload: requires 'includeSubDomains' and a 'maxAgeSeconds' of 31536000 or more",
+    ]);
+  });
+
+  test("reports blue/green settings that conflict with the admin console and the listeners", () => {
+    const params = validParams();
+    params.blueGreen = { enabled: true, deploymentConfig: "Canary10Percent5Minutes", testAllowList: ["10.0.0.0/8"] };
+    expect(validateConfig(params)).toEqual([]);
+    params.admin = { access: "internal", allowList: ["10.0.0.0/8"] };
+    params.blueGreen = { enabled: true, testListenerPort: 443, testAllowList: ["10.0.0.0/33"] };
+    expect(validateConfig(params)).toEqual([
+      "params.blueGreen.enabled: requires admin access 'public', the admin console of access 'internal' is served by the blue target group only",
+      "params.blueGreen.testListenerPort: 443 is used by the ALB listeners",
+      "params.blueGreen.testAllowList[0]: '10.0.0.0/33' is not a valid CIDR range",
+    ]);
+    expect(validateConfig({ ...params, blueGreen: { enabled: true, deploymentConfig: "Linear50Percent" } })[0]).toMatch(
+      /^params\.blueGreen\.deploymentConfig: 'Linear50Percent' must be one of /
+    );
+  });
+
+  test("reports pipeline environments that are repeated or undefined", () => {
+    const params = validParams();
+    params.pipeline = { enabled: true, environments: ["dev", "prod"] };
+    expect(validateConfig(params)).toEqual([]);
+    params.environments.splice(1, 1);
+    params.pipeline = { enabled: true, environments: ["dev", "dev", "stg"] };
+    expect(validateConfig(params)).toEqual([
+      "params.pipeline.environments[1]: duplicate 'dev'",
+      "params.pipeline.environments[2]: 'stg' not defined in params.environments",
+    ]);
+  });
+
+  test("reports environment cache settings of the environments the pipeline deploys its image to", () => {
+    const params = validParams();
+    params.cache = { mode: "jdbc-ping", lockTimeout: 30000 };
+    params.environments[1].cache = { lockTimeout: 10000 };
+    params.pipeline = { enabled: true, environments: ["dev", "prod"] };
+    expect(validateConfig(params)).toEqual([]);
+    params.pipeline = { enabled: true };
+    expect(validateConfig(params)).toEqual([
+      "params.environments[1].cache: not allowed with 'params.pipeline', " +
+        "every environment runs the image built with the cache settings of 'params.cache'",
+    ]);
+  });
+
+  test("reports unknown compliance packs", () => {
+    const params = validParams();
+    expect(
+      validateConfig({ ...params, compliance: { enabled: true, packs: ["AwsSolutions", "NIST.800-53.R5"] } })
+    ).toEqual(["params.compliance.packs[1]: 'NIST.800-53.R5' must be one of 'AwsSolutions', 'HIPAA.Security'"]);
+  });
+
+  test("reports cache modes without their server or conflicting with blue/green deployments", () => {
+    const params = validParams();
+    params.cache = { mode: "remote", owners: { sessions: 0 } };
+    expect(validateConfig(params)).toEqual([
+      "params.cache.owners.sessions: 0 must be >= 1",
+      "params.cache.remote: required with mode 'remote'",
+    ]);
+    params.cache = { mode: "dns-ping" };
+    params.blueGreen = { enabled: true };
+    expect(validateConfig(params)).toEqual([
+      "params.cache.mode: 'dns-ping' not allowed with blue/green deployments, " +
+        "ECS registers tasks in Cloud Map with rolling updates only",
+    ]);
+  });
+
+  test("reports environment cache settings and Keycloak versions without a known Infinispan schema", () => {
+    const params = validParams();
+    params.cache = { mode: "jdbc-ping", caches: { crl: { maxCount: 1000 } } };
+    params.environments[0].cache = { mode: "remote" };
+    params.environments[1].cache = { caches: { crl: { owners: 2 } } };
+    params.environments[2].cache = { lockTimeout: 30000 };
+    params.containers.push({ ...params.containers[0], name: "legacy", version: ["16.1.1"] });
+    expect(validateConfig(params)).toEqual([
+      "params.environments[0].cache.remote: required with mode 'remote'",
+      "params.environments[1].cache.caches.crl.owners: not defined for 'local' caches in schema 14.0",
+      "params.containers[1].version[0]: Keycloak '16.1.1' has no known Infinispan schema, supported are 17 to 26",
+    ]);
+  });
+
+  test("reports references to undefined environments", () => {
+    const params = validParams();
+    params.environments.splice(0, 1);
+    expect(validateConfig(params)).toEqual([
+      "params.target.environment: 'dev' not defined in params.environments",
+      "params.containers[0].environment: 'dev' not defined in params.environments",
+    ]);
+  });
+});
+
+describe("parseConfig", () => {
+  test("returns the typed configuration when valid", () => {
+    expect(parseConfig(validParams()).target.application).toBe("app");
+  });
+
+  test("throws with every issue listed", () => {
+    const params = validParams();
+    delete (params.target as Partial<ITargetParameter>).branch;
+    params.environments[2].name = "stg";
+    expect(() => parseConfig(params)).toThrow(ConfigValidationError);
+    expect(() => parseConfig(params)).toThrow(
+      "  params.target.branch: required\n  params.environments[2].name: duplicate 'stg'"
+    );
+  });
+});
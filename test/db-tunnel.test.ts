@@ -0,0 +1,129 @@
+import { AwsCli, DbTunnel, IDbTunnelNames } from "../lib/db-tunnel";
+
+const names = (): IDbTunnelNames => ({
+  region: "ap-northeast-1",
+  clusterName: "app-dev-feature-keycloak-cluster",
+  serviceName: "app-dev-feature-keycloak-service",
+  containerName: "keycloak",
+  bastionName: "app-dev-feature-keycloak-bastion",
+  dbClusterIdentifier: "app-dev-feature-keycloak-db-cluster",
+  dbSecretName: "app-dev-feature-keycloak-db-secret",
+});
+
+const taskArn = (id: string) => `arn:aws:ecs:ap-northeast-1:000000000000:task/app-dev-feature-keycloak-cluster/${id}`;
+
+// Local stand-in for the AWS CLI: answer by service and operation and record the calls
+const stubCli = (responses: { [operation: string]: any }) => {
+  const calls: string[][] = [];
+  const aws: AwsCli = async (args) => {
+    calls.push(args);
+    return responses[`${args[0]} ${args[1]}`] ?? {};
+  };
+  return { aws, calls };
+};
+
+const ecsResponses = (agentStatus = "RUNNING") => ({
+  "rds describe-db-clusters": {
+    DBClusters: [{ Endpoint: "keycloak.cluster-xxxxxxxx.ap-northeast-1.rds.amazonaws.com", Port: 3306 }],
+  },
+  "ecs list-tasks": { taskArns: [taskArn("aaaa"), taskArn("bbbb")] },
+  "ecs describe-tasks": {
+    tasks: [
+      {
+        taskArn: taskArn("aaaa"),
+        enableExecuteCommand: true,
+        containers: [{ name: "keycloak", runtimeId: "aaaa-111", managedAgents: [] }],
+      },
+      {
+        taskArn: taskArn("bbbb"),
+        enableExecuteCommand: true,
+        containers: [
+          {
+            name: "keycloak",
+            runtimeId: "bbbb-222",
+            managedAgents: [{ name: "ExecuteCommandAgent", lastStatus: agentStatus }],
+          },
+        ],
+      },
+    ],
+  },
+});
+
+describe("DbTunnel.parseArgs", () => {
+  test("defaults to ECS Exec and the database port", () => {
+    expect(DbTunnel.parseArgs([])).toEqual({ via: "ecs" });
+    expect(DbTunnel.parseArgs(["--via", "bastion", "--local-port", "13306"])).toEqual({
+      via: "bastion",
+      localPort: 13306,
+    });
+  });
+
+  test("rejects unknown arguments and values", () => {
+    expect(() => DbTunnel.parseArgs(["--via", "ssh"])).toThrow("Invalid argument '--via ssh'");
+    expect(() => DbTunnel.parseArgs(["--local-port", "70000"])).toThrow("Invalid argument '--local-port 70000'");
+    expect(() => DbTunnel.parseArgs(["--local-port"])).toThrow("Invalid argument '--local-port'");
+  });
+});
+
+describe("DbTunnel.resolve", () => {
+  test("forwards through a task with a running ECS Exec agent", async () => {
+    const { aws, calls } = stubCli(ecsResponses());
+    const tunnel = await new DbTunnel(names(), aws).resolve({ via: "ecs" });
+    expect(tunnel).toEqual({
+      target: "ecs:app-dev-feature-keycloak-cluster_bbbb_bbbb-222",
+      host: "keycloak.cluster-xxxxxxxx.ap-northeast-1.rds.amazonaws.com",
+      port: 3306,
+      localPort: 3306,
+      secretId: "app-dev-feature-keycloak-db-secret",
+    });
+    expect(calls.every((args) => args.slice(-2).join(" ") === "--region ap-northeast-1")).toBe(true);
+    expect(DbTunnel.startSessionArgs(tunnel, "ap-northeast-1")).toEqual([
+      "ssm",
+      "start-session",
+      "--region",
+      "ap-northeast-1",
+      "--target",
+      "ecs:app-dev-feature-keycloak-cluster_bbbb_bbbb-222",
+      "--document-name",
+      "AWS-StartPortForwardingSessionToRemoteHost",
+      "--parameters",
+      '{"host":["keycloak.cluster-xxxxxxxx.ap-northeast-1.rds.amazonaws.com"],"portNumber":["3306"],"localPortNumber":["3306"]}',
+    ]);
+  });
+
+  test("fails without a task reachable through ECS Exec", async () => {
+    const { aws } = stubCli(ecsResponses("STOPPED"));
+    await expect(new DbTunnel(names(), aws).resolve({ via: "ecs" })).rejects.toThrow(
+      "No task in service 'app-dev-feature-keycloak-service' with a running ECS Exec agent"
+    );
+    await expect(new DbTunnel(names(), stubCli({}).aws).resolve({ via: "ecs" })).rejects.toThrow(
+      "Database cluster 'app-dev-feature-keycloak-db-cluster' not found"
+    );
+  });
+
+  test("forwards to an existing database through the bastion host", async () => {
+    const { aws, calls } = stubCli({
+      "ec2 describe-instances": { Reservations: [{ Instances: [{ InstanceId: "i-0123456789abcdef0" }] }] },
+    });
+    const tunnel = await new DbTunnel(
+      {
+        ...names(),
+        existingDatabase: {
+          hostname: "central.cluster-xxxxxxxx.ap-northeast-1.rds.amazonaws.com",
+          port: 5432,
+          secretArn: "arn:aws:secretsmanager:ap-northeast-1:000000000000:secret:central-AbCdEf",
+        },
+      },
+      aws
+    ).resolve({ via: "bastion", localPort: 15432 });
+    expect(tunnel).toEqual({
+      target: "i-0123456789abcdef0",
+      host: "central.cluster-xxxxxxxx.ap-northeast-1.rds.amazonaws.com",
+      port: 5432,
+      localPort: 15432,
+      secretId: "arn:aws:secretsmanager:ap-northeast-1:000000000000:secret:central-AbCdEf",
+    });
+    expect(calls.map((args) => args.slice(0, 2).join(" "))).toEqual(["ec2 describe-instances"]);
+    expect(calls[0]).toContain("Name=tag:Name,Values=app-dev-feature-keycloak-bastion");
+  });
+});
@@ -0,0 +1,32 @@
+import { IHttpResponse } from "../src/lambda/provisioning/keycloak-admin";
+import { waitUntilHealthy } from "../src/lambda/deployment-hook";
+
+// Answers in order, a thrown error stands for a refused connection
+const stubRequest = (answers: (number | Error)[]) => {
+  const urls: string[] = [];
+  const request = async (method: string, url: string): Promise<IHttpResponse> => {
+    urls.push(`${method} ${url}`);
+    const answer = answers.shift() ?? 503;
+    if (answer instanceof Error) {
+      throw answer;
+    }
+    return { status: answer, headers: {}, body: "" };
+  };
+  return { request, urls };
+};
+
+describe("waitUntilHealthy", () => {
+  const url = "https://auth.example.com:8443/health/ready";
+
+  test("succeeds after the threshold of consecutive ready responses", async () => {
+    const { request, urls } = stubRequest([new Error("ECONNREFUSED"), 200, 503, 200, 200]);
+    await expect(waitUntilHealthy(request, url, 2, Date.now() + 60000, 1)).resolves.toBe(true);
+    expect(urls).toEqual(Array(5).fill(`GET ${url}`));
+  });
+
+  test("fails when the deadline passes first", async () => {
+    const { request, urls } = stubRequest([200, 503]);
+    await expect(waitUntilHealthy(request, url, 2, Date.now() + 50, 20)).resolves.toBe(false);
+    expect(urls.length).toBeLessThanOrEqual(3);
+  });
+});
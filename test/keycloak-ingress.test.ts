@@ -0,0 +1,167 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+// Synthesize `KeycloakIngress` in front of a minimal Fargate service. `Common` reads `params` from the CDK context
+// when the module is loaded, so the construct and aws-cdk-lib are loaded together for each configuration.
+const synthIngress = (params: object, admin?: object, blueGreen?: object): Template => {
+  process.env.CDK_CONTEXT_JSON = JSON.stringify({ params });
+  let template: object | undefined;
+  jest.isolateModules(() => {
+    const { App, Stack, aws_ec2: ec2, aws_ecs: ecs } = require("aws-cdk-lib");
+    const { Template: IsolatedTemplate } = require("aws-cdk-lib/assertions");
+    const { KeycloakIngress } = require("../lib/constructs/keycloak-ingress");
+    const stack = new Stack(new App(), "Test", { env: { account: "000000000000", region: "ap-northeast-1" } });
+    const vpc = new ec2.Vpc(stack, "VPC", { natGateways: 1 });
+    const taskDefinition = new ecs.FargateTaskDefinition(stack, "TaskDefinition");
+    taskDefinition.addContainer("Keycloak", {
+      image: ecs.ContainerImage.fromRegistry("quay.io/keycloak/keycloak"),
+      portMappings: [{ containerPort: 8080 }],
+    });
+    const service = new ecs.FargateService(stack, "Service", {
+      cluster: new ecs.Cluster(stack, "Cluster", { vpc: vpc }),
+      taskDefinition: taskDefinition,
+    });
+    new KeycloakIngress(stack, "Ingress", {
+      serviceName: "keycloak",
+      vpc: vpc,
+      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
+      service: service,
+      containerPort: 8080,
+      domainName: "auth.dev-feature.dev.example.com",
+      hostedZoneDomain: "dev.example.com",
+      admin: admin && { vpcSubnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS }, ...admin },
+      blueGreen: blueGreen,
+    });
+    template = IsolatedTemplate.fromStack(stack).toJSON();
+  });
+  delete process.env.CDK_CONTEXT_JSON;
+  return Template.fromJSON(template!);
+};
+
+const albIngress = (template: Template, groupName: string) =>
+  Object.values(template.findResources("AWS::EC2::SecurityGroup", { Properties: { GroupName: groupName } }))[0]
+    .Properties.SecurityGroupIngress;
+
+describe("KeycloakIngress", () => {
+  test("serves HTTPS only by default", () => {
+    const template = synthIngress({ ...example, https: undefined });
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::Listener", 1);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 443,
+      Protocol: "HTTPS",
+      SslPolicy: Match.absent(),
+    });
+    expect(albIngress(template, "app-dev-feature-keycloak-alb-security-group")).toEqual([
+      {
+        CidrIp: "0.0.0.0/0",
+        Description: "Allow from anyone on port 443",
+        FromPort: 443,
+        IpProtocol: "tcp",
+        ToPort: 443,
+      },
+    ]);
+  });
+
+  test("redirects HTTP to HTTPS with the configured security policy", () => {
+    const template = synthIngress({
+      ...example,
+      https: { redirectHttp: true, sslPolicy: "ELBSecurityPolicy-TLS13-1-2-2021-06" },
+    });
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::Listener", 2);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 443,
+      Protocol: "HTTPS",
+      SslPolicy: "ELBSecurityPolicy-TLS13-1-2-2021-06",
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 80,
+      Protocol: "HTTP",
+      DefaultActions: [
+        {
+          Type: "redirect",
+          RedirectConfig: { Port: "443", Protocol: "HTTPS", StatusCode: "HTTP_301" },
+        },
+      ],
+    });
+    expect(albIngress(template, "app-dev-feature-keycloak-alb-security-group")).toEqual([
+      {
+        CidrIp: "0.0.0.0/0",
+        Description: "Allow from anyone on port 443",
+        FromPort: 443,
+        IpProtocol: "tcp",
+        ToPort: 443,
+      },
+      { CidrIp: "0.0.0.0/0", Description: "Allow from anyone on port 80", FromPort: 80, IpProtocol: "tcp", ToPort: 80 },
+    ]);
+  });
+
+  test("adds the test listener and the green target group of blue/green deployments", () => {
+    const template = synthIngress({ ...example, https: undefined }, undefined, {
+      testListenerPort: 8443,
+      sourceIps: ["203.0.113.10/32"],
+    });
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::TargetGroup", 2);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::TargetGroup", {
+      Name: "app-dev-feature-keycloak-tg2",
+      TargetType: "ip",
+      HealthCheckPath: "/health/ready",
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 8443,
+      Protocol: "HTTPS",
+      DefaultActions: [{ Type: "forward", TargetGroupArn: { Ref: Match.stringLikeRegexp("^IngressALBGreenTarget") } }],
+    });
+    expect(albIngress(template, "app-dev-feature-keycloak-alb-security-group")).toEqual([
+      {
+        CidrIp: "0.0.0.0/0",
+        Description: "Allow from anyone on port 443",
+        FromPort: 443,
+        IpProtocol: "tcp",
+        ToPort: 443,
+      },
+      {
+        CidrIp: "203.0.113.10/32",
+        Description: "Allow from 203.0.113.10/32 on port 8443",
+        FromPort: 8443,
+        IpProtocol: "tcp",
+        ToPort: 8443,
+      },
+    ]);
+  });
+
+  test("opens the internal admin listener to the allow list only", () => {
+    const template = synthIngress(
+      { ...example, https: { redirectHttp: true, sslPolicy: "ELBSecurityPolicy-TLS13-1-2-2021-06" } },
+      {
+        access: "internal",
+        paths: ["/admin/*", "/realms/master/*"],
+        sourceIps: ["172.16.0.0/12"],
+        domainName: "admin.dev-feature.dev.example.com",
+      }
+    );
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::Listener", 3);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      LoadBalancerArn: { Ref: Match.stringLikeRegexp("^IngressAdminALB") },
+      Port: 443,
+      SslPolicy: "ELBSecurityPolicy-TLS13-1-2-2021-06",
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::ListenerRule", {
+      Conditions: [{ Field: "path-pattern", PathPatternConfig: { Values: ["/admin/*", "/realms/master/*"] } }],
+      Actions: [
+        Match.objectLike({ Type: "fixed-response", FixedResponseConfig: Match.objectLike({ StatusCode: "403" }) }),
+      ],
+    });
+    expect(albIngress(template, "app-dev-feature-keycloak-admin-alb-security-group")).toEqual([
+      {
+        CidrIp: "172.16.0.0/12",
+        Description: "Allow from 172.16.0.0/12 on port 443",
+        FromPort: 443,
+        IpProtocol: "tcp",
+        ToPort: 443,
+      },
+    ]);
+  });
+});
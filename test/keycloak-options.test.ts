@@ -0,0 +1,81 @@
+import { resolveKeycloakOptions, toDockerEnv, validateKeycloakOptions } from "../lib/keycloak-options";
+
+describe("resolveKeycloakOptions", () => {
+  test("keeps the defaults when omitted", () => {
+    expect(resolveKeycloakOptions()).toEqual({
+      build: { KC_HEALTH_ENABLED: "true", KC_METRICS_ENABLED: "true" },
+      runtime: { KC_HOSTNAME_STRICT_BACKCHANNEL: "true", KC_PROXY: "edge" },
+    });
+  });
+
+  test("routes features and options to the build and the container", () => {
+    expect(
+      resolveKeycloakOptions({
+        features: ["token-exchange", "admin-fine-grained-authz"],
+        featuresDisabled: ["impersonation"],
+        buildOptions: { KC_HTTP_RELATIVE_PATH: "/auth", KC_METRICS_ENABLED: "false" },
+        runtimeOptions: { KC_PROXY: "reencrypt", KC_SPI_THEME_CACHE_THEMES: "false" },
+        logLevel: "INFO,org.keycloak.events:debug",
+      })
+    ).toEqual({
+      build: {
+        KC_FEATURES: "token-exchange,admin-fine-grained-authz",
+        KC_FEATURES_DISABLED: "impersonation",
+        KC_HEALTH_ENABLED: "true",
+        KC_METRICS_ENABLED: "false",
+        KC_HTTP_RELATIVE_PATH: "/auth",
+      },
+      runtime: {
+        KC_HOSTNAME_STRICT_BACKCHANNEL: "true",
+        KC_PROXY: "reencrypt",
+        KC_LOG_LEVEL: "INFO,org.keycloak.events:debug",
+        KC_SPI_THEME_CACHE_THEMES: "false",
+      },
+    });
+  });
+
+  test("writes Dockerfile ENV instructions", () => {
+    expect(toDockerEnv({ KC_HTTP_RELATIVE_PATH: "/auth", KC_VAULT_DIR: "/opt/vault $HOME" })).toBe(
+      'ENV KC_HTTP_RELATIVE_PATH=/auth\nENV KC_VAULT_DIR="/opt/vault \\$HOME"'
+    );
+  });
+});
+
+describe("validateKeycloakOptions", () => {
+  test("rejects runtime options that require a rebuild and misrouted options", () => {
+    expect(
+      validateKeycloakOptions(
+        {
+          features: ["token-exchange"],
+          featuresDisabled: ["token-exchange"],
+          buildOptions: { KC_PROXY: "edge", KC_FEATURES: "preview" },
+          runtimeOptions: { KC_HEALTH_ENABLED: "false", KC_DB_URL: "jdbc:x", KC_LOG_LEVEL: "DEBUG", kc_proxy: "edge" },
+        },
+        "params.keycloak"
+      )
+    ).toEqual([
+      "params.keycloak.features[0]: 'token-exchange' also in featuresDisabled",
+      "params.keycloak.buildOptions.KC_PROXY: runtime option, set in 'runtimeOptions'",
+      "params.keycloak.buildOptions.KC_FEATURES: use 'features' and 'featuresDisabled'",
+      "params.keycloak.runtimeOptions.KC_HEALTH_ENABLED: build option, changing it requires a rebuild of the image, set in 'buildOptions'",
+      "params.keycloak.runtimeOptions.KC_DB_URL: set by the stack",
+      "params.keycloak.runtimeOptions.KC_LOG_LEVEL: use 'logLevel'",
+      "params.keycloak.runtimeOptions.kc_proxy: name must match /^KC_[A-Z0-9_]+$/",
+    ]);
+  });
+
+  test("requires a health endpoint under a valid relative path", () => {
+    expect(
+      validateKeycloakOptions(
+        { buildOptions: { KC_HTTP_RELATIVE_PATH: "auth", KC_HEALTH_ENABLED: "false" } },
+        "params.keycloak"
+      )
+    ).toEqual([
+      "params.keycloak.buildOptions.KC_HTTP_RELATIVE_PATH: 'auth' must be a path starting with '/'",
+      "params.keycloak.buildOptions.KC_HEALTH_ENABLED: required by the ALB and container health checks",
+    ]);
+    expect(validateKeycloakOptions({ buildOptions: { KC_HTTP_RELATIVE_PATH: "/auth/" } }, "params.keycloak")).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { defaultAllowList, renderCollectorConfig, validateMetrics } from "../lib/metrics";
+
+const render = (allowList: string[] = [...defaultAllowList]) =>
+  JSON.parse(
+    renderCollectorConfig({
+      namespace: "Keycloak",
+      scrapeInterval: 30,
+      allowList: allowList,
+      target: "localhost:8080",
+      metricsPath: "/auth/metrics",
+      logGroupName: "/app/dev/feature/ecs/keycloak/metrics",
+      dimensions: { ClusterName: "app-dev-feature-keycloak-cluster", ServiceName: "app-dev-feature-keycloak-service" },
+    })
+  );
+
+describe("renderCollectorConfig", () => {
+  test("renders the collector configuration", () => {
+    expect(render()).toMatchSnapshot();
+  });
+
+  test("keeps only allow-listed metrics when scraping", () => {
+    const [scrape] = render(["^keycloak_logins_total$", "vendor_statistics_.*"]).receivers.prometheus.config
+      .scrape_configs;
+    const [relabel] = scrape.metric_relabel_configs;
+    // Prometheus anchors relabel expressions at both ends
+    const keep = new RegExp(`^(?:${relabel.regex})$`);
+    expect(["keycloak_logins_total", "vendor_statistics_hit_ratio"].every((name) => keep.test(name))).toBe(true);
+    expect(["keycloak_logins_total_created", "jvm_memory_used_bytes"].some((name) => keep.test(name))).toBe(false);
+  });
+
+  test("publishes the cache statistics per cache as well", () => {
+    const [declaration] = render().exporters.awsemf.metric_declarations;
+    expect(declaration.dimensions).toEqual([
+      ["ClusterName", "ServiceName"],
+      ["ClusterName", "ServiceName", "cache"],
+    ]);
+  });
+});
+
+describe("validateMetrics", () => {
+  test("reports invalid regular expressions", () => {
+    expect(validateMetrics({ enabled: true, allowList: ["^keycloak_.*", "vendor_(hit"] }, "params.metrics")).toEqual([
+      "params.metrics.allowList[1]: 'vendor_(hit' is not a valid regular expression",
+    ]);
+  });
+
+  test("requires the metrics endpoint of Keycloak", () => {
+    const keycloak = { buildOptions: { KC_METRICS_ENABLED: "false" } };
+    expect(validateMetrics({ enabled: true }, "params.metrics", keycloak)).toEqual([
+      "params.metrics.enabled: requires 'KC_METRICS_ENABLED' of 'true' in 'params.keycloak.buildOptions'",
+    ]);
+    expect(validateMetrics({ enabled: false }, "params.metrics", keycloak)).toEqual([]);
+    expect(
+      validateMetrics({ enabled: true }, "params.metrics", { buildOptions: { KC_METRICS_ENABLED: "true" } })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { ListBranchesCommand } from "@aws-sdk/client-codecommit";
+import { DescribeRepositoriesCommand } from "@aws-sdk/client-ecr";
+import { GetCallerIdentityCommand } from "@aws-sdk/client-sts";
+import { IConfigParameter } from "../lib/config";
+import { IPreflightClients, Preflight } from "../lib/preflight";
+
+const config = (): IConfigParameter => ({
+  target: { application: "app", environment: "dev", repository: "test-repo", branch: "feature" },
+  environments: [
+    { name: "dev", account: "000000000000", region: "ap-northeast-1", domain: "dev.example.com" },
+    { name: "prod", account: "222222222222", region: "us-east-1", domain: "example.com" },
+  ],
+  containers: [
+    {
+      name: "keycloak",
+      environment: "dev",
+      repositoryName: "ecr-repo/keycloak",
+      imagePath: "src/image/keycloak",
+      version: ["21.0.2"],
+      tag: "21.0.2",
+    },
+  ],
+});
+
+// Local stand-ins for AWS: answer by command type and record regions
+const stubClients = ({
+  account = "000000000000",
+  branches = [["main"], ["feature"]],
+  repositories = ["ecr-repo/keycloak"],
+}: {
+  account?: string;
+  branches?: string[][];
+  repositories?: string[];
+} = {}) => {
+  const calls: string[] = [];
+  const clients: IPreflightClients = {
+    sts: (region) => ({
+      send: async (command) => {
+        expect(command).toBeInstanceOf(GetCallerIdentityCommand);
+        calls.push(`sts:${region}`);
+        return { $metadata: {}, Account: account };
+      },
+    }),
+    codecommit: (region) => ({
+      send: async (command) => {
+        expect(command).toBeInstanceOf(ListBranchesCommand);
+        calls.push(`codecommit:${region}`);
+        const page = command.input.nextToken ? Number(command.input.nextToken) : 0;
+        return {
+          $metadata: {},
+          branches: branches[page],
+          nextToken: page + 1 < branches.length ? String(page + 1) : undefined,
+        };
+      },
+    }),
+    ecr: (region) => ({
+      send: async (command) => {
+        expect(command).toBeInstanceOf(DescribeRepositoriesCommand);
+        calls.push(`ecr:${region}:${command.input.registryId}`);
+        const name = command.input.repositoryNames?.[0] ?? "";
+        if (!repositories.includes(name)) {
+          const e = new Error(`The repository '${name}' does not exist`);
+          e.name = "RepositoryNotFoundException";
+          throw e;
+        }
+        return { $metadata: {}, repositories: [{ repositoryName: name }] };
+      },
+    }),
+  };
+  return { clients, calls };
+};
+
+describe("Preflight", () => {
+  test("passes when every check passes", async () => {
+    const { clients, calls } = stubClients();
+    const report = await new Preflight(config(), { clients }).run();
+    expect(report.ok).toBe(true);
+    expect(report.results.map((r) => [r.check, r.status])).toEqual([
+      ["callerAccount", "pass"],
+      ["branch", "pass"],
+      ["containerRepository:keycloak", "pass"],
+      ["containerTemplate:keycloak", "pass"],
+    ]);
+    expect(calls).toEqual([
+      "sts:ap-northeast-1",
+      "codecommit:ap-northeast-1",
+      "ecr:ap-northeast-1:000000000000",
+      "codecommit:ap-northeast-1",
+    ]);
+  });
+
+  test("skips AWS checks when the caller account does not match", async () => {
+    const { clients, calls } = stubClients({ account: "999999999999" });
+    const report = await new Preflight(config(), { clients }).run();
+    expect(report.ok).toBe(false);
+    expect(report.results.map((r) => [r.check, r.status])).toEqual([
+      ["callerAccount", "fail"],
+      ["branch", "skip"],
+      ["containerRepository:keycloak", "skip"],
+      ["containerTemplate:keycloak", "pass"],
+    ]);
+    expect(report.results[0].reason).toBe(
+      "caller account '999999999999' does not match the target account '000000000000'"
+    );
+    expect(calls).toEqual(["sts:ap-northeast-1"]);
+  });
+
+  test("collects every failure in one report", async () => {
+    const { clients } = stubClients({ branches: [["main"]], repositories: [] });
+    const params = config();
+    params.containers[0].imagePath = "src/image/missing";
+    const report = await new Preflight(params, { clients }).run();
+    expect(report.ok).toBe(false);
+    expect(report.results.filter((r) => r.status === "fail").map((r) => r.reason)).toEqual([
+      "branch 'feature' does not exist in repository 'test-repo'",
+      "repository 'ecr-repo/keycloak' not found",
+      "'src/image/missing/template' not found",
+    ]);
+  });
+
+  test("checks the repository in the DR region", async () => {
+    const { clients, calls } = stubClients();
+    const ecr = clients.ecr;
+    clients.ecr = (region) =>
+      region === "ap-northeast-3" ? stubClients({ repositories: [] }).clients.ecr(region) : ecr(region);
+    const params = config();
+    params.environments[0].drRegion = "ap-northeast-3";
+    const report = await new Preflight(params, { clients }).run();
+    expect(report.results.find((r) => r.check === "containerRepository:keycloak")).toEqual({
+      check: "containerRepository:keycloak",
+      status: "fail",
+      reason: "repository 'ecr-repo/keycloak' not found in DR region 'ap-northeast-3'",
+    });
+    expect(calls).toContain("ecr:ap-northeast-1:000000000000");
+  });
+
+  test("reports client errors as failures", async () => {
+    const { clients } = stubClients();
+    clients.sts = () => ({
+      send: async () => {
+        throw new Error("Could not load credentials from any providers");
+      },
+    });
+    const report = await new Preflight(config(), { clients }).run();
+    expect(report.results[0]).toEqual({
+      check: "callerAccount",
+      status: "fail",
+      reason: "Error: Could not load credentials from any providers",
+    });
+  });
+
+  test("skips requested checks", async () => {
+    const { clients } = stubClients({ branches: [["main"]] });
+    const report = await new Preflight(config(), { clients, skip: ["branch", "containerRepository"] }).run();
+    expect(report.ok).toBe(true);
+    expect(report.results.map((r) => r.status)).toEqual(["pass", "skip", "skip", "pass"]);
+  });
+
+  test("formats the report as a table", async () => {
+    const { clients } = stubClients();
+    const report = await new Preflight(config(), { clients }).run();
+    expect(Preflight.format(report).split("\n")[0]).toBe(
+      "  PASS  callerAccount                 caller account '000000000000' is the target account"
+    );
+  });
+});
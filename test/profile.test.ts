@@ -0,0 +1,92 @@
+import { validateConfig } from "../lib/config";
+import { deepMerge, defaultProfiles, resolveProfile, validateProfile } from "../lib/profile";
+
+describe("deepMerge", () => {
+  test("merges nested objects without mutating the base", () => {
+    const base = { a: { b: 1, c: 2 }, d: [1, 2] };
+    expect(deepMerge(base, { a: { c: 3 } })).toEqual({ a: { b: 1, c: 3 }, d: [1, 2] });
+    expect(base).toEqual({ a: { b: 1, c: 2 }, d: [1, 2] });
+  });
+
+  test("replaces arrays as a whole", () => {
+    expect(deepMerge({ d: [1, 2] }, { d: [3] })).toEqual({ d: [3] });
+  });
+});
+
+describe("resolveProfile", () => {
+  test("uses the tier defaults without overrides", () => {
+    expect(resolveProfile("dev")).toEqual(defaultProfiles.dev);
+    expect(resolveProfile("stg")).toEqual(defaultProfiles.prod);
+  });
+
+  test("applies overrides on top of the tier defaults", () => {
+    const profile = resolveProfile("prod", {
+      vpc: { cidr: "10.10.0.0/16", natGateways: 3 },
+      rds: { scaling: { maxCapacity: 16 } },
+      ecs: { taskDefinition: { cpu: 2048 }, alb: { intervalSeconds: 30, timeoutSeconds: 10 } },
+    });
+    expect(profile.vpc).toEqual({ ...defaultProfiles.prod.vpc, cidr: "10.10.0.0/16", natGateways: 3 });
+    expect(profile.rds.scaling).toEqual({ minCapacity: 2, maxCapacity: 16 });
+    expect(profile.ecs.taskDefinition).toEqual({ ...defaultProfiles.prod.ecs.taskDefinition, cpu: 2048 });
+    expect(profile.ecs.alb.intervalSeconds).toBe(30);
+    expect(defaultProfiles.prod.vpc.natGateways).toBe(2);
+  });
+});
+
+describe("validateProfile", () => {
+  test("reports inverted capacities and health check timings", () => {
+    const profile = resolveProfile("dev", {
+      rds: { scaling: { minCapacity: 4 } },
+      ecs: { alb: { timeoutSeconds: 60 } },
+    });
+    expect(validateProfile(profile, "overrides")).toEqual([
+      "overrides.rds.scaling: minCapacity 4 exceeds maxCapacity 2",
+      "overrides.ecs.alb: timeoutSeconds must be less than intervalSeconds",
+    ]);
+  });
+
+  test("reports a grace period shorter than the start of Keycloak", () => {
+    const profile = resolveProfile("prod", {
+      ecs: { service: { healthCheckGracePeriodSeconds: 60 }, alb: { intervalSeconds: 30, timeoutSeconds: 10 } },
+    });
+    expect(validateProfile(profile, "overrides")).toEqual([
+      "overrides.ecs.service.healthCheckGracePeriodSeconds: 60 is shorter than startPeriodSeconds plus healthyThresholdCount * intervalSeconds of the ALB (180)",
+    ]);
+  });
+});
+
+describe("overrides in params.environments", () => {
+  const params = (overrides: unknown) => ({
+    target: { application: "app", environment: "dev", repository: "test-repo", branch: "feature" },
+    environments: [
+      { name: "dev", account: "000000000000", region: "ap-northeast-1", domain: "dev.example.com", overrides },
+    ],
+    containers: [
+      {
+        name: "keycloak",
+        environment: "dev",
+        repositoryName: "ecr-repo/keycloak",
+        imagePath: "src/image/keycloak",
+        version: ["21.0.2"],
+        tag: "21.0.2",
+      },
+    ],
+  });
+
+  test("accepts partial overrides", () => {
+    expect(validateConfig(params({ ecs: { service: { nodeCount: 2 } } }))).toEqual([]);
+  });
+
+  test("reports unknown keys and invalid values", () => {
+    expect(validateConfig(params({ ecs: { taskDefinition: { cpu: 1000, memory: 2048 } } }))).toEqual([
+      "params.environments[0].overrides.ecs.taskDefinition.cpu: 1000 must be one of 256, 512, 1024, 2048, 4096, 8192, 16384",
+      "params.environments[0].overrides.ecs.taskDefinition.memory: unknown key",
+    ]);
+  });
+
+  test("reports inconsistencies in the merged profile", () => {
+    expect(validateConfig(params({ ecs: { service: { scaling: { base: { minCapacity: 3 } } } } }))).toEqual([
+      "params.environments[0].overrides.ecs.service.scaling.base: minCapacity 3 exceeds maxCapacity 2",
+    ]);
+  });
+});
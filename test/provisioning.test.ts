@@ -0,0 +1,261 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildRealmStates, fromRealmParameter } from "../lib/provisioning";
+import {
+  IRealmState,
+  IRepresentation,
+  KeycloakAdminClient,
+  deleteRealms,
+  reconcile,
+} from "../src/lambda/provisioning/keycloak-admin";
+
+// In-memory subset of the Keycloak Admin REST API, served over HTTP
+class KeycloakStub {
+  public readonly requests: string[] = [];
+  public readonly realms = new Map<string, IRealmStub>();
+  public expireTokens = false;
+  private server: http.Server;
+  private nextId = 0;
+  private tokens = 0;
+
+  public async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const [status, payload] = this.handle(req.method!, req.url!, req.headers.authorization, body);
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(payload === undefined ? "" : JSON.stringify(payload));
+      });
+    });
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(method: string, url: string, auth: string | undefined, raw: string): [number, unknown?] {
+    const { pathname, searchParams } = new URL(url, "http://stub");
+    if (pathname === "/realms/master") return [200, { realm: "master" }];
+    if (pathname === "/realms/master/protocol/openid-connect/token") {
+      return [200, { access_token: `token-${++this.tokens}` }];
+    }
+    if (auth !== `Bearer token-${this.tokens}` || this.expireTokens) {
+      this.expireTokens = false;
+      return [401];
+    }
+    this.requests.push(`${method} ${pathname}`);
+    const body = raw ? JSON.parse(raw) : undefined;
+    const [, , , name, kind, id, ...rest] = pathname.split("/").map(decodeURIComponent);
+    if (!name) {
+      this.realms.set(body.realm, { attributes: body, roles: [], clients: [], idps: [], groups: [], users: [] });
+      return [201];
+    }
+    const realm = this.realms.get(name);
+    if (!realm) return [404];
+    const newId = () => `id-${++this.nextId}`;
+    switch (kind) {
+      case undefined:
+        if (method === "GET") return [200, realm.attributes];
+        if (method === "PUT") return (realm.attributes = body), [204];
+        return this.realms.delete(name), [204];
+      case "roles":
+        return this.collection(realm.roles, method, id, body, "name", () => ({}));
+      case "clients":
+        if (method === "GET" && !id)
+          return [200, realm.clients.filter((obj) => obj.clientId === searchParams.get("clientId"))];
+        return this.collection(realm.clients, method, id, body, "id", () => ({ id: newId() }));
+      case "identity-provider":
+        return this.collection(realm.idps, method, rest[0], body, "alias", () => ({}));
+      case "groups":
+      case "users": {
+        const items = kind === "groups" ? realm.groups : realm.users;
+        if (method === "GET" && !id) {
+          return kind === "groups"
+            ? [200, items.filter((obj) => obj.name.includes(searchParams.get("search")!))]
+            : [200, items.filter((obj) => obj.username === searchParams.get("username")!.toLowerCase())];
+        }
+        const item = items.find((obj) => obj.id === id);
+        if (rest[0] === "role-mappings") {
+          if (method === "GET") return [200, item!.realmRoles.map((role: string) => ({ name: role }))];
+          const names = body.map((obj: IRepresentation) => obj.name);
+          item!.realmRoles =
+            method === "POST"
+              ? [...item!.realmRoles, ...names]
+              : item!.realmRoles.filter((role: string) => !names.includes(role));
+          return [204];
+        }
+        if (rest[0] === "groups") {
+          if (method === "GET") return [200, realm.groups.filter((obj) => item!.groups.includes(obj.id))];
+          item!.groups =
+            method === "PUT" ? [...item!.groups, rest[1]] : item!.groups.filter((obj: string) => obj !== rest[1]);
+          return [204];
+        }
+        const created = () => ({ id: newId(), realmRoles: [], groups: [] });
+        return this.collection(
+          items,
+          method,
+          id,
+          kind === "users" ? { ...body, username: body?.username?.toLowerCase() } : body,
+          "id",
+          created
+        );
+      }
+    }
+    return [404];
+  }
+
+  // Generic create, read, update and delete on a list keyed by `key`
+  private collection(
+    items: IRepresentation[],
+    method: string,
+    id: string | undefined,
+    body: IRepresentation,
+    key: string,
+    created: () => IRepresentation
+  ): [number, unknown?] {
+    const index = items.findIndex((obj) => obj[key] === id);
+    if (method === "POST") return items.push({ ...body, ...created() }), [201];
+    if (index < 0) return [404];
+    if (method === "GET") return [200, items[index]];
+    if (method === "PUT") return (items[index] = { ...items[index], ...body }), [204];
+    return items.splice(index, 1), [204];
+  }
+}
+
+interface IRealmStub {
+  attributes: IRepresentation;
+  roles: IRepresentation[];
+  clients: IRepresentation[];
+  idps: IRepresentation[];
+  groups: IRepresentation[];
+  users: IRepresentation[];
+}
+
+const desiredRealm = (): IRealmState =>
+  fromRealmParameter({
+    realm: "example",
+    displayName: "Example",
+    roles: [{ name: "viewer" }, { name: "editor" }],
+    groups: [{ name: "staff", realmRoles: ["viewer"] }],
+    clients: [{ clientId: "web", publicClient: true, redirectUris: ["https://app.example.com/*"] }],
+    identityProviders: [{ alias: "corp", providerId: "oidc", config: { clientId: "keycloak" } }],
+    users: [{ username: "Alice", realmRoles: ["editor"], groups: ["staff"] }],
+  });
+
+describe("reconcile", () => {
+  let stub: KeycloakStub;
+  let client: KeycloakAdminClient;
+
+  beforeEach(async () => {
+    stub = new KeycloakStub();
+    client = new KeycloakAdminClient(await stub.start(), { username: "keycloak", password: "secret" });
+  });
+
+  afterEach(() => stub.stop());
+
+  test("creates every declared object", async () => {
+    await client.waitUntilReady(Date.now() + 1000);
+    await reconcile(client, [desiredRealm()]);
+    const realm = stub.realms.get("example")!;
+    expect(realm.attributes).toEqual({ displayName: "Example", realm: "example" });
+    expect(realm.roles.map((obj) => obj.name)).toEqual(["viewer", "editor"]);
+    expect(realm.clients.map((obj) => obj.clientId)).toEqual(["web"]);
+    expect(realm.idps.map((obj) => obj.alias)).toEqual(["corp"]);
+    expect(realm.groups).toEqual([expect.objectContaining({ name: "staff", realmRoles: ["viewer"] })]);
+    expect(realm.users).toEqual([
+      expect.objectContaining({ username: "alice", realmRoles: ["editor"], groups: [realm.groups[0].id] }),
+    ]);
+  });
+
+  test("only updates on a second run", async () => {
+    await reconcile(client, [desiredRealm()]);
+    stub.requests.length = 0;
+    await reconcile(client, [desiredRealm()], [desiredRealm()]);
+    expect(stub.requests.filter((request) => !/^(GET|PUT) /.test(request))).toEqual([]);
+  });
+
+  test("deletes objects removed from the declaration and keeps the others", async () => {
+    await reconcile(client, [desiredRealm()]);
+    const realm = stub.realms.get("example")!;
+    realm.roles.push({ name: "manual" });
+    const current = desiredRealm();
+    current.roles = current.roles.filter((obj) => obj.name !== "editor");
+    current.clients = [];
+    current.users = [{ username: "Alice", groups: [] }];
+    await reconcile(client, [current], [desiredRealm()]);
+    expect(realm.roles.map((obj) => obj.name)).toEqual(["viewer", "manual"]);
+    expect(realm.clients).toEqual([]);
+    expect(realm.users[0]).toEqual(expect.objectContaining({ realmRoles: [], groups: [] }));
+  });
+
+  test("deletes removed realms unless retained", async () => {
+    await reconcile(client, [desiredRealm()]);
+    await reconcile(client, [], [desiredRealm()], false);
+    expect(stub.realms.has("example")).toBe(true);
+    await reconcile(client, [], [desiredRealm()]);
+    expect(stub.realms.has("example")).toBe(false);
+  });
+
+  test("deletes declared realms", async () => {
+    await reconcile(client, [desiredRealm()]);
+    await deleteRealms(client, [desiredRealm(), { ...desiredRealm(), realm: "missing" }]);
+    expect(stub.realms.size).toBe(0);
+  });
+
+  test("logs in again when the access token expired", async () => {
+    await reconcile(client, [desiredRealm()]);
+    stub.expireTokens = true;
+    await expect(client.call("GET", "/example")).resolves.toEqual(expect.objectContaining({ realm: "example" }));
+  });
+});
+
+describe("buildRealmStates", () => {
+  const writeRealmFile = (rep: IRepresentation): string => {
+    const file = join(mkdtempSync(join(tmpdir(), "realm-")), "realm.json");
+    writeFileSync(file, JSON.stringify(rep));
+    return file;
+  };
+
+  test("reads realm export files", () => {
+    const file = writeRealmFile({
+      id: "b1a2",
+      realm: "exported",
+      enabled: true,
+      roles: { realm: [{ id: "r1", name: "viewer", containerId: "b1a2" }], client: {} },
+      groups: [{ id: "g1", name: "staff", path: "/staff", subGroups: [], realmRoles: ["viewer"] }],
+      clients: [{ id: "c1", clientId: "web" }],
+      users: [{ id: "u1", username: "alice", groups: ["/staff"] }],
+      authenticationFlows: [{ alias: "browser" }],
+    });
+    const issues: string[] = [];
+    expect(buildRealmStates({ realmFiles: [file] }, issues)).toEqual([
+      {
+        realm: "exported",
+        attributes: { enabled: true },
+        roles: [{ name: "viewer" }],
+        groups: [{ name: "staff", realmRoles: ["viewer"] }],
+        clients: [{ clientId: "web" }],
+        identityProviders: [],
+        users: [{ username: "alice", groups: ["staff"] }],
+      },
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  test("rejects credentials, missing files and duplicate realms", () => {
+    const file = writeRealmFile({ realm: "example", users: [{ username: "alice", credentials: [{ value: "x" }] }] });
+    const issues: string[] = [];
+    buildRealmStates({ realms: [{ realm: "example" }], realmFiles: [file, "src/realms/missing.json"] }, issues);
+    expect(issues).toEqual([
+      "params.provisioning.realmFiles[0]: users[0].credentials not allowed, secrets must not be stored in the repository",
+      "params.provisioning.realmFiles[0]: realm 'example' already declared",
+      "params.provisioning.realmFiles[1]: 'src/realms/missing.json' not found",
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Common as CommonClass } from "../lib/common";
+import { TemplateError, renderTemplate, renderTemplates } from "../lib/template";
+
+const example = JSON.parse(readFileSync(join(__dirname, "../cdk.EXAMPLE.json")).toString()).context.params;
+
+// `Common` reads `params` from the CDK context when the module is loaded
+const loadCommon = (params: object): CommonClass => {
+  process.env.CDK_CONTEXT_JSON = JSON.stringify({ params });
+  let common: CommonClass | undefined;
+  jest.isolateModules(() => {
+    common = new (require("../lib/common").Common)();
+  });
+  delete process.env.CDK_CONTEXT_JSON;
+  return common!;
+};
+
+// Render the templates of `src/image/keycloak` like the build context, returns the rendered files by name
+const renderImage = (params: object): { [name: string]: string } => {
+  const common = loadCommon(params);
+  const outDirectory = mkdtempSync(join(tmpdir(), "template-"));
+  const names = renderTemplates("src/image/keycloak", outDirectory, common.getTemplateVariables("keycloak"));
+  return Object.fromEntries(names.map((name) => [name, readFileSync(join(outDirectory, name)).toString()]));
+};
+
+describe("renderTemplate", () => {
+  test("replaces named variables and keeps escaped and dotted placeholders", () => {
+    expect(
+      renderTemplate("FROM keycloak:${KEYCLOAK_VERSION}\nARG NAME\nRUN echo $${NAME} ${env.KC_DB_URL}", {
+        KEYCLOAK_VERSION: "21.1.0",
+      })
+    ).toBe("FROM keycloak:21.1.0\nARG NAME\nRUN echo ${NAME} ${env.KC_DB_URL}");
+  });
+
+  test("renders nested conditional blocks", () => {
+    const source = [
+      "# @if FEATURES",
+      "ENV KC_FEATURES=${FEATURES}",
+      "  # @if !THEMES",
+      "# no themes",
+      "  # @endif",
+      "# @else",
+      "# no features",
+      "# @endif",
+      "<!-- @if THEMES -->",
+      "<themes/>",
+      "<!-- @endif -->",
+    ].join("\n");
+    expect(renderTemplate(source, { FEATURES: "preview", THEMES: false })).toBe("ENV KC_FEATURES=preview\n# no themes");
+    expect(renderTemplate(source, { FEATURES: "", THEMES: true })).toBe("# no features\n<themes/>");
+  });
+
+  test("reports unresolved placeholders and malformed blocks", () => {
+    const render = () =>
+      renderTemplate(
+        "FROM ${BASE}\n# @if UNKNOWN\n# @endif\n# @else\n# @unless X\n# @if THEMES\nENV A=${UNSET}",
+        { THEMES: true, UNSET: undefined },
+        "image/template"
+      );
+    expect(render).toThrow(TemplateError);
+    expect(render).toThrow(
+      [
+        "Template 'image/template' could not be rendered:",
+        "  line 1: unresolved placeholder '${BASE}'",
+        "  line 2: unknown variable 'UNKNOWN' in condition",
+        "  line 4: '@else' without '@if'",
+        "  line 5: unknown directive '@unless'",
+        "  line 7: unresolved placeholder '${UNSET}'",
+        "  line 6: '@if' not closed",
+      ].join("\n")
+    );
+  });
+
+  test("skips placeholders in inactive blocks", () => {
+    expect(renderTemplate("# @if THEMES\n${UNSET}\n# @endif\nok", { THEMES: false })).toBe("ok");
+  });
+});
+
+describe("renderTemplates", () => {
+  test("renders every template of the image directory and leaves it untouched", () => {
+    const imagePath = mkdtempSync(join(tmpdir(), "image-"));
+    const outDirectory = join(imagePath, "out");
+    mkdirSync(outDirectory);
+    writeFileSync(join(imagePath, "template"), "FROM ${BASE}\n");
+    writeFileSync(join(imagePath, "app.conf.template"), "level=${LEVEL}\n");
+    writeFileSync(join(imagePath, "static.conf"), "static\n");
+    expect(renderTemplates(imagePath, outDirectory, { BASE: "scratch", LEVEL: "info" })).toEqual([
+      "app.conf",
+      "Dockerfile",
+    ]);
+    expect(readFileSync(join(outDirectory, "Dockerfile")).toString()).toBe("FROM scratch\n");
+    expect(readFileSync(join(outDirectory, "app.conf")).toString()).toBe("level=info\n");
+    expect(readFileSync(join(imagePath, "template")).toString()).toBe("FROM ${BASE}\n");
+  });
+});
+
+describe("keycloak image templates", () => {
+  test("MySQL", () => {
+    expect(renderImage(example)).toMatchSnapshot();
+  });
+
+  test("PostgreSQL with themes and providers", () => {
+    const [container] = example.containers;
+    expect(
+      renderImage({
+        ...example,
+        containers: [{ ...container, themes: ["src/themes/example"], providers: [{ path: "src/example.jar" }] }],
+        database: { engine: "postgres" },
+      })
+    ).toMatchSnapshot();
+  });
+});
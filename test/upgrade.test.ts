@@ -0,0 +1,37 @@
+import { compareVersions, planUpgrade, snapshotIdentifier } from "../src/lambda/upgrade";
+
+describe("compareVersions", () => {
+  test("compares segments numerically", () => {
+    expect(compareVersions("21.0.2", "21.0.2")).toBe(0);
+    expect(compareVersions("21.0.10", "21.0.9")).toBe(1);
+    expect(compareVersions("21.1.0", "22.0.0")).toBe(-1);
+    expect(compareVersions("22.0", "22.0.0")).toBe(0);
+  });
+});
+
+describe("planUpgrade", () => {
+  const options = { snapshot: true, allowDowngrade: false, rollback: false };
+
+  test("records the first version and snapshots before an upgrade", () => {
+    expect(planUpgrade("21.0.2", undefined, options)).toBe("record");
+    expect(planUpgrade("21.0.2", "21.0.2", options)).toBe("none");
+    expect(planUpgrade("21.1.1", "21.0.2", options)).toBe("snapshot");
+    expect(planUpgrade("21.1.1", "21.0.2", { ...options, snapshot: false })).toBe("record");
+  });
+
+  test("refuses a downgrade unless allowed or rolled back", () => {
+    expect(() => planUpgrade("21.0.2", "21.1.1", options)).toThrow(
+      "Refusing to downgrade Keycloak from 21.1.1 to 21.0.2"
+    );
+    expect(planUpgrade("21.0.2", "21.1.1", { ...options, allowDowngrade: true })).toBe("record");
+    expect(planUpgrade("21.0.2", "21.1.1", { ...options, rollback: true })).toBe("record");
+  });
+});
+
+describe("snapshotIdentifier", () => {
+  test("names the snapshot after the cluster, the version and the time", () => {
+    expect(
+      snapshotIdentifier("app-dev-feature-keycloak-db-cluster", "21.0.2", new Date("2023-05-01T12:34:56.789Z"))
+    ).toBe("app-dev-feature-keycloak-db-cluster-v21-0-2-20230501123456");
+  });
+});
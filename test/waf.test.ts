@@ -0,0 +1,44 @@
+import { rateLimitedPaths, splitCidrs, validateWaf } from "../lib/waf";
+
+describe("rateLimitedPaths", () => {
+  test("matches the token and login endpoints of every realm", () => {
+    const token = new RegExp(rateLimitedPaths("").token);
+    const loginActions = new RegExp(rateLimitedPaths("").loginActions);
+    expect(token.test("/realms/example/protocol/openid-connect/token")).toBe(true);
+    expect(token.test("/realms/example/protocol/openid-connect/token/introspect")).toBe(false);
+    expect(token.test("/realms/example/protocol/openid-connect/certs")).toBe(false);
+    expect(loginActions.test("/realms/master/login-actions/authenticate")).toBe(true);
+    expect(loginActions.test("/realms/master/account/login-actions/authenticate")).toBe(false);
+  });
+
+  test("follows the relative path", () => {
+    const token = new RegExp(rateLimitedPaths("/auth.v2").token);
+    expect(token.test("/auth.v2/realms/example/protocol/openid-connect/token")).toBe(true);
+    expect(token.test("/auth-v2/realms/example/protocol/openid-connect/token")).toBe(false);
+    expect(token.test("/realms/example/protocol/openid-connect/token")).toBe(false);
+  });
+});
+
+describe("splitCidrs", () => {
+  test("splits IPv4 and IPv6 ranges", () => {
+    expect(splitCidrs(["192.0.2.0/24", "2001:db8::/32", "198.51.100.7/32"])).toEqual({
+      ipv4: ["192.0.2.0/24", "198.51.100.7/32"],
+      ipv6: ["2001:db8::/32"],
+    });
+  });
+});
+
+describe("validateWaf", () => {
+  test("reports invalid and conflicting CIDR ranges", () => {
+    expect(
+      validateWaf(
+        { enabled: true, allowList: ["192.0.2.0/24", "2001:db8::/129"], denyList: ["192.0.2.0/24", "300.0.0.0/8"] },
+        "params.waf"
+      )
+    ).toEqual([
+      "params.waf.allowList[1]: '2001:db8::/129' is not a valid CIDR range",
+      "params.waf.denyList[0]: '192.0.2.0/24' also in allowList",
+      "params.waf.denyList[1]: '300.0.0.0/8' is not a valid CIDR range",
+    ]);
+  });
+});